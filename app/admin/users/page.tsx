@@ -0,0 +1,52 @@
+/**
+ * User Administration Page
+ *
+ * Lets admins manage user accounts. Other users only see a notice; the
+ * API enforces the same rule.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useAuth } from '@/lib/auth-context';
+import LoginForm from '@/components/auth/login-form';
+import UserManagement from '@/components/admin/user-management';
+
+export default function UsersPage() {
+  const { isLoading, session, login } = useAuth();
+
+  // Show loading state while checking authentication
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
+        <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <LoginForm onLogin={login} />;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <header className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Users</h1>
+          <Link
+            href="/"
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Back to editor
+          </Link>
+        </header>
+
+        {session.role === 'admin' ? (
+          <UserManagement currentUserId={session.userId} />
+        ) : (
+          <p className="text-gray-600 dark:text-gray-400">Only admins can manage users.</p>
+        )}
+      </div>
+    </main>
+  );
+}
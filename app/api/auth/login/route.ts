@@ -2,16 +2,37 @@
  * API Route: /api/auth/login
  * 
  * Handles user authentication.
- * Validates credentials against environment variables.
+ * Validates credentials against the user store and starts a session by
+ * setting the signed, HTTP-only session cookie.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getRequestOrigin, writeAuditLog } from '@/lib/audit-log';
+import { beginLoginAttempt, getLockoutSeconds, recordLoginSuccess } from '@/lib/login-throttle';
+import {
+  SESSION_COOKIE_NAME,
+  createSessionToken,
+  isSessionConfigured,
+  sessionCookieOptions,
+} from '@/lib/session';
+import { authenticateUser } from '@/lib/user-store';
+import type { LoginResponse } from '@/lib/types';
 
 interface LoginRequest {
   username: string;
   password: string;
 }
 
+/**
+ * Answer a locked-out attempt with 429 and when to try again
+ */
+function tooManyAttempts(retryAfter: number) {
+  return NextResponse.json<LoginResponse>(
+    { success: false, message: 'Too many failed attempts, try again later', retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
 /**
  * POST /api/auth/login
  * 
@@ -24,8 +45,13 @@ interface LoginRequest {
  * Response:
  * {
  *   success: boolean,
- *   message?: string
+ *   session?: AuthSession,
+ *   message?: string,
+ *   retryAfter?: number   // seconds, with status 429 and a Retry-After header
  * }
+ *
+ * Failed attempts are counted per client IP and per username; past a few
+ * of them each failure locks the next attempt out for twice as long.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -33,43 +59,73 @@ export async function POST(request: NextRequest) {
     const body: LoginRequest = await request.json();
     
     // Validate input
-    if (!body.username || !body.password) {
-      return NextResponse.json(
+    if (typeof body.username !== 'string' || typeof body.password !== 'string' || !body.username || !body.password) {
+      return NextResponse.json<LoginResponse>(
         { success: false, message: 'Username and password are required' },
         { status: 400 }
       );
     }
 
-    // Get credentials from environment variables
-    const validUsername = process.env.AUTH_USERNAME;
-    const validPassword = process.env.AUTH_PASSWORD;
-
-    // Check if credentials are configured
-    if (!validUsername || !validPassword) {
-      console.error('Authentication credentials not configured in environment variables');
-      return NextResponse.json(
+    // Sessions can't be signed without a secret
+    if (!isSessionConfigured()) {
+      console.error('SESSION_SECRET must be set in environment variables');
+      return NextResponse.json<LoginResponse>(
         { success: false, message: 'Authentication not configured' },
         { status: 500 }
       );
     }
 
+    const origin = getRequestOrigin(request);
+    const attempt = { ip: origin.ip, username: body.username };
+
+    // Refuse locked-out attempts without checking the password, and count
+    // the others as failed until the password is found to be right
+    const lockedFor = beginLoginAttempt(attempt);
+    if (lockedFor > 0) {
+      await writeAuditLog({
+        event: 'login_locked',
+        username: body.username,
+        ...origin,
+        detail: `retry after ${lockedFor}s`,
+      });
+      return tooManyAttempts(lockedFor);
+    }
+
     // Validate credentials
-    if (body.username === validUsername && body.password === validPassword) {
-      return NextResponse.json({ success: true });
+    const user = await authenticateUser(body.username, body.password);
+    if (user) {
+      recordLoginSuccess(attempt);
+      await writeAuditLog({ event: 'login_success', username: user.username, ...origin });
+
+      const { token, session } = await createSessionToken(user);
+      const response = NextResponse.json<LoginResponse>({ success: true, session });
+      response.cookies.set(SESSION_COOKIE_NAME, token, sessionCookieOptions());
+      return response;
+    }
+
+    // Invalid credentials, already counted when the attempt began
+    const lockout = getLockoutSeconds(attempt);
+    await writeAuditLog({
+      event: 'login_failure',
+      username: body.username,
+      ...origin,
+      ...(lockout > 0 && { detail: `locked out for ${lockout}s` }),
+    });
+
+    if (lockout > 0) {
+      return tooManyAttempts(lockout);
     }
 
-    // Invalid credentials
-    return NextResponse.json(
+    return NextResponse.json<LoginResponse>(
       { success: false, message: 'Invalid credentials' },
       { status: 401 }
     );
   } catch (error) {
     console.error('Error in /api/auth/login:', error);
     
-    return NextResponse.json(
+    return NextResponse.json<LoginResponse>(
       { success: false, message: 'An error occurred' },
       { status: 500 }
     );
   }
 }
-
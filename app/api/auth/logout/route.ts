@@ -0,0 +1,27 @@
+/**
+ * API Route: /api/auth/logout
+ *
+ * Ends the session by clearing the session cookie, and records it in the
+ * audit log.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestOrigin, writeAuditLog } from '@/lib/audit-log';
+import { SESSION_COOKIE_NAME, getSession, sessionCookieOptions } from '@/lib/session';
+
+/**
+ * POST /api/auth/logout
+ *
+ * Response:
+ * {
+ *   success: true
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const session = await getSession(request);
+  await writeAuditLog({ event: 'logout', username: session?.username ?? null, ...getRequestOrigin(request) });
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(SESSION_COOKIE_NAME, '', sessionCookieOptions(0));
+  return response;
+}
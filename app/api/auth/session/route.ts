@@ -0,0 +1,41 @@
+/**
+ * API Route: /api/auth/session
+ *
+ * Reports the session of the signed-in user, with their current role. The
+ * middleware answers 401 before this runs when there is no valid session
+ * cookie; a disabled or deleted account also gets 401.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getUser } from '@/lib/user-store';
+import type { SessionResponse } from '@/lib/types';
+
+/**
+ * GET /api/auth/session
+ *
+ * Response:
+ * {
+ *   authenticated: boolean,
+ *   session?: { userId, username, role, expiresAt }
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    const user = session ? await getUser(session.userId) : null;
+
+    if (!session || !user || user.disabled) {
+      return NextResponse.json<SessionResponse>({ authenticated: false }, { status: 401 });
+    }
+
+    return NextResponse.json<SessionResponse>({
+      authenticated: true,
+      session: { ...session, username: user.username, role: user.role },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/auth/session:', error);
+
+    return NextResponse.json<SessionResponse>({ authenticated: false }, { status: 500 });
+  }
+}
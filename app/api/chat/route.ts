@@ -0,0 +1,245 @@
+/**
+ * API Route: /api/chat
+ *
+ * The assistant chat about a stored document: each message is answered
+ * with the document and the editor's selection as context, the reply
+ * streamed back as NDJSON. Every user has their own conversation per
+ * document, stored along with the replies. Editors only, like the other AI
+ * endpoints.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeAIRequest } from '@/lib/ai-quota';
+import { trackAICall, type AICallTracker } from '@/lib/ai-usage';
+import { authorize } from '@/lib/auth';
+import { chatStream, createAIProvenance, type ChatConversation } from '@/lib/ai-service';
+import { getOpenDoc } from '@/lib/collab-authority';
+import {
+  addChatMessages,
+  clearChat,
+  createChatMessage,
+  listChatMessages,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_CHAT_SELECTION_LENGTH,
+} from '@/lib/chat-store';
+import { getDocument } from '@/lib/document-store';
+import { editorSchema } from '@/lib/editor-schema';
+import { serializeMarkdown } from '@/lib/markdown';
+import { AICallOutcome, AIProvenance, ChatMessage, ChatRequest, ChatStreamEvent, User } from '@/lib/types';
+
+/**
+ * Relay the AI's reply to the client as newline-delimited JSON events
+ *
+ * Like the stream of /api/continue, the upstream call is aborted as soon as
+ * the client disconnects. Whatever was written of the reply is stored, also
+ * when the client stopped it, and the call is logged once the stream ended.
+ */
+function createChatStreamResponse(
+  user: User,
+  documentId: string,
+  question: ChatMessage,
+  conversation: ChatConversation,
+  provenance: AIProvenance,
+  call: AICallTracker,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  signal.addEventListener('abort', () => upstream.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (upstream.signal.aborted) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      let outcome: AICallOutcome = 'success';
+      let reply = '';
+
+      try {
+        send({ type: 'start', message: question, ...provenance });
+
+        const options = { signal: upstream.signal, onUsage: call.onUsage };
+        for await (const delta of chatStream(conversation, options)) {
+          reply += delta;
+          send({ type: 'delta', text: delta });
+        }
+        if (!reply.trim()) {
+          throw new Error('The AI gave an empty reply');
+        }
+      } catch (error) {
+        outcome = upstream.signal.aborted ? 'cancelled' : 'error';
+        if (!upstream.signal.aborted) {
+          console.error('Error streaming /api/chat:', error);
+          send({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+          });
+        }
+      } finally {
+        await call.finish(outcome);
+        if (reply.trim()) {
+          const answer = createChatMessage('assistant', user.username, reply.trim(), { ai: provenance });
+          await addChatMessages(documentId, user.id, [answer]).catch((error) => {
+            console.error('Error storing the /api/chat reply:', error);
+          });
+          if (outcome === 'success') send({ type: 'done', message: answer });
+        }
+        if (!upstream.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+}
+
+/**
+ * GET /api/chat?documentId=...
+ *
+ * Response:
+ * {
+ *   messages: { id, role, content, author, createdAt, selection, ai }[]  // oldest first
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const documentId = request.nextUrl.searchParams.get('documentId') ?? '';
+    if (!(await getDocument(documentId))) return notFound();
+
+    const messages = await listChatMessages(documentId, user.id);
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error('Error in GET /api/chat:', error);
+
+    return NextResponse.json(
+      { messages: [], error: 'Failed to load the chat' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/chat
+ *
+ * Request body:
+ * {
+ *   documentId: string,
+ *   message: string,
+ *   selection?: string  // the text selected in the editor, as Markdown
+ * }
+ *
+ * Streaming response, one JSON object per line:
+ * { type: 'start', message: ChatMessage, requestId, model, requestedBy }, the stored user message, then
+ * { type: 'delta', text: string } | { type: 'done', message: ChatMessage } | { type: 'error', error: string }
+ * The reply in `done` carries its provenance in `ai`.
+ *
+ * Over the user's request rate or daily token budget the response is a 429
+ * with an `AIQuotaError` body, like /api/continue
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const body: ChatRequest = await request.json();
+
+    // Validate input
+    if (typeof body.documentId !== 'string' || typeof body.message !== 'string') {
+      return NextResponse.json(
+        { error: 'documentId and message are required strings' },
+        { status: 400 }
+      );
+    }
+
+    const message = body.message.trim();
+    if (!message || message.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Messages are 1-${MAX_CHAT_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (body.selection !== undefined && typeof body.selection !== 'string') {
+      return NextResponse.json(
+        { error: 'Selection must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const document = await getDocument(body.documentId);
+    if (!document) return notFound();
+
+    const limited = await consumeAIRequest(user);
+    if (limited) return limited;
+
+    const history = await listChatMessages(body.documentId, user.id);
+    const selection = body.selection?.trim().slice(0, MAX_CHAT_SELECTION_LENGTH) || null;
+    const question = createChatMessage('user', user.username, message, { selection });
+    await addChatMessages(body.documentId, user.id, [question]);
+
+    // An open document has edits the store doesn't have yet
+    const doc = (await getOpenDoc(body.documentId)) ?? editorSchema.nodeFromJSON(document.content);
+    const conversation: ChatConversation = {
+      document: serializeMarkdown(doc),
+      selection,
+      messages: [...history, question],
+    };
+
+    const provenance = createAIProvenance(user.username);
+    const call = trackAICall(user, 'chat', provenance, body.documentId);
+    return createChatStreamResponse(user, body.documentId, question, conversation, provenance, call, request.signal);
+  } catch (error) {
+    console.error('Error in POST /api/chat:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/chat?documentId=...
+ *
+ * Starts the user's conversation about the document over
+ *
+ * Response:
+ * { success: true }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const documentId = request.nextUrl.searchParams.get('documentId') ?? '';
+    if (!(await getDocument(documentId))) return notFound();
+
+    await clearChat(documentId, user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in DELETE /api/chat:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to clear the chat' },
+      { status: 500 }
+    );
+  }
+}
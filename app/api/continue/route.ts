@@ -1,57 +1,241 @@
 /**
  * API Route: /api/continue
  * 
- * Handles AI text continuation requests using OpenAI.
- * Accepts text input and returns AI-generated continuation.
+ * Handles AI text continuation requests using the configured AI provider.
+ * Accepts text input and returns AI-generated continuation, either as a
+ * single JSON response or as an NDJSON stream of deltas.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { continueWriting } from '@/lib/ai-service';
-import { ContinueWritingRequest } from '@/lib/types';
+import { getAllowedModels } from '@/lib/ai-providers';
+import { consumeAIRequest } from '@/lib/ai-quota';
+import { trackAICall, type AICallTracker } from '@/lib/ai-usage';
+import { authorize } from '@/lib/auth';
+import {
+  continueWriting,
+  continueWritingStream,
+  createAIProvenance,
+  isAIConfigured,
+  MAX_CONTINUE_CANDIDATES,
+} from '@/lib/ai-service';
+import { getDocument } from '@/lib/document-store';
+import { checkGenerationOptions } from '@/lib/generation-settings';
+import { getTemplateValues, renderTemplate } from '@/lib/prompt-templates';
+import { getTemplate } from '@/lib/template-store';
+import { isTransformTone } from '@/lib/transform-operations';
+import { AICallOutcome, AIProvenance, ContinueWritingRequest, ContinueStreamEvent } from '@/lib/types';
+
+/**
+ * Relay the AI stream to the client as newline-delimited JSON events
+ * 
+ * The upstream provider call is aborted as soon as the client disconnects
+ * or cancels the response body, so a stopped generation stops costing tokens.
+ * The call is logged once the stream has ended, however it ended.
+ */
+function createContinueStreamResponse(
+  body: ContinueWritingRequest,
+  templatePrompt: string | undefined,
+  provenance: AIProvenance,
+  call: AICallTracker,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+  signal.addEventListener('abort', () => upstream.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ContinueStreamEvent) => {
+        if (upstream.signal.aborted) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+
+      let outcome: AICallOutcome = 'success';
+
+      try {
+        send({ type: 'start', ...provenance });
+        const options = { signal: upstream.signal, onUsage: call.onUsage, templatePrompt };
+        for await (const delta of continueWritingStream(body, options)) {
+          send({ type: 'delta', text: delta });
+        }
+        send({ type: 'done' });
+      } catch (error) {
+        outcome = upstream.signal.aborted ? 'cancelled' : 'error';
+        if (!upstream.signal.aborted) {
+          console.error('Error streaming /api/continue:', error);
+          send({
+            type: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error occurred',
+          });
+        }
+      } finally {
+        await call.finish(outcome);
+        if (!upstream.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
 
 /**
  * POST /api/continue
  * 
  * Request body:
  * {
- *   text: string,
- *   maxTokens?: number
+ *   text?: string,      // continue from the end of this text
+ *   prefix?: string,    // or fill in at the cursor, between prefix...
+ *   suffix?: string,    // ...and suffix
+ *   maxTokens?: number,
+ *   n?: number,         // 1-5 alternative continuations, not with stream
+ *   stream?: boolean,
+ *   documentId?: string, // recorded in the usage log
+ *   model?: string,       // one of the allowed models, see GET
+ *   temperature?: number, // 0-1
+ *   systemPrompt?: string, // extra instructions for the model
+ *   templateId?: string,   // prompt template to use, rendered here
+ *   selection?: string,    // value of {{selection}}
+ *   tone?: string          // value of {{tone}}, one of the rewrite tones
  * }
  * 
  * Response:
  * {
  *   continuedText: string,
+ *   candidates: string[],
+ *   requestId?: string,  // identifies this request, set on success
+ *   model?: string,      // the model that wrote the continuation
+ *   requestedBy?: string, // username of the signed-in editor
  *   error?: string
  * }
+ * 
+ * Streaming response (when `stream` is true), one JSON object per line:
+ * { type: 'start', requestId: string, model: string, requestedBy: string }, then
+ * { type: 'delta', text: string } | { type: 'done' } | { type: 'error', error: string }
+ * 
+ * Over the user's request rate or daily token budget the response is a 429
+ * with a `Retry-After` header:
+ * {
+ *   error: string,
+ *   code: 'rate_limited' | 'quota_exceeded',
+ *   retryAfter: number,  // seconds
+ *   quota: AIQuota
+ * }
  */
 export async function POST(request: NextRequest) {
   try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
     // Parse request body
     const body: ContinueWritingRequest = await request.json();
     
     // Validate input
-    if (!body.text || typeof body.text !== 'string') {
+    const fields = [body.text, body.prefix, body.suffix];
+    if (fields.some((field) => field !== undefined && typeof field !== 'string')) {
       return NextResponse.json(
-        { error: 'Text is required and must be a string' },
+        { error: 'Text, prefix and suffix must be strings' },
         { status: 400 }
       );
     }
 
-    if (body.text.trim().length === 0) {
+    if (body.documentId !== undefined && typeof body.documentId !== 'string') {
+      return NextResponse.json(
+        { error: 'documentId must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const settingsError = checkGenerationOptions(body, getAllowedModels());
+    if (settingsError) {
+      return NextResponse.json(
+        { error: settingsError },
+        { status: 400 }
+      );
+    }
+
+    if (fields.every((field) => !field || field.trim().length === 0)) {
       return NextResponse.json(
         { error: 'Text cannot be empty' },
         { status: 400 }
       );
     }
 
-    // Call AI service (OpenAI)
-    const result = await continueWriting(body);
+    if (body.n !== undefined) {
+      if (!Number.isInteger(body.n) || body.n < 1 || body.n > MAX_CONTINUE_CANDIDATES) {
+        return NextResponse.json(
+          { error: `n must be an integer between 1 and ${MAX_CONTINUE_CANDIDATES}` },
+          { status: 400 }
+        );
+      }
+
+      if (body.stream && body.n > 1) {
+        return NextResponse.json(
+          { error: 'Streaming returns a single continuation, omit n or set it to 1' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Render the template here, so the client only ever picks one
+    let templatePrompt: string | undefined;
+    if (body.templateId !== undefined) {
+      if (body.selection !== undefined && typeof body.selection !== 'string') {
+        return NextResponse.json(
+          { error: 'Selection must be a string' },
+          { status: 400 }
+        );
+      }
+
+      if (body.tone !== undefined && !isTransformTone(body.tone)) {
+        return NextResponse.json(
+          { error: 'Unknown tone' },
+          { status: 400 }
+        );
+      }
+
+      const template = typeof body.templateId === 'string' ? await getTemplate(body.templateId) : null;
+      if (!template) {
+        return NextResponse.json(
+          { error: 'Prompt template not found' },
+          { status: 400 }
+        );
+      }
+
+      const document = body.documentId ? await getDocument(body.documentId) : null;
+      templatePrompt = renderTemplate(template.prompt, getTemplateValues(body, document?.title ?? ''));
+    }
+
+    const limited = await consumeAIRequest(user);
+    if (limited) return limited;
+
+    const provenance = createAIProvenance(user.username, body.model);
+    const call = trackAICall(user, 'continue', provenance, body.documentId ?? null);
+
+    // Relay deltas as they arrive when the client asked for a stream
+    if (body.stream) {
+      return createContinueStreamResponse(body, templatePrompt, provenance, call, request.signal);
+    }
+
+    // Call AI service
+    const result = await continueWriting(body, { signal: request.signal, onUsage: call.onUsage, templatePrompt });
+    await call.finish(result.error ? (request.signal.aborted ? 'cancelled' : 'error') : 'success');
 
     // Check if there was an error
     if (result.error) {
       return NextResponse.json(
         {
           continuedText: '',
+          candidates: [],
           error: result.error,
         },
         { status: 500 }
@@ -61,6 +245,8 @@ export async function POST(request: NextRequest) {
     // Return successful response
     return NextResponse.json({
       continuedText: result.continuedText,
+      candidates: result.candidates,
+      ...provenance,
     });
   } catch (error) {
     console.error('Error in /api/continue:', error);
@@ -68,6 +254,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       {
         continuedText: '',
+        candidates: [],
         error: error instanceof Error ? error.message : 'Unknown error occurred',
       },
       { status: 500 }
@@ -79,11 +266,18 @@ export async function POST(request: NextRequest) {
  * GET /api/continue
  * 
  * Health check endpoint
+ * Reports which provider and model are active and whether they are
+ * configured, and the models a request may pick
  */
 export async function GET() {
+  const { configured, message, provider, model } = isAIConfigured();
+
   return NextResponse.json({
-    status: 'ok',
-    message: 'AI continuation API is running',
-    provider: 'openai',
+    status: configured ? 'ok' : 'misconfigured',
+    message: configured ? 'AI continuation API is running' : message,
+    provider,
+    model,
+    // Unknown AI_PROVIDER, no models to offer
+    models: model ? getAllowedModels() : [],
   });
 }
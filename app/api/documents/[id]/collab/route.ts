@@ -0,0 +1,206 @@
+/**
+ * API Route: /api/documents/[id]/collab
+ *
+ * Real-time collaboration on a stored document (see `lib/collab-authority`).
+ * Each tab keeps a server-sent event stream open (any signed-in user) and
+ * posts its steps (editors) and selection to the same URL.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { CollabError, joinDocument, receiveSteps, updateSelection } from '@/lib/collab-authority';
+import { hasRole } from '@/lib/roles';
+import { CollabEvent, CollabUpdateRequest } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Tab ids are generated by the client, keep them short and printable
+ */
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Comment lines sent this often keep proxies from closing an idle stream
+ */
+const KEEP_ALIVE_MS = 25 * 1000;
+
+function notFound() {
+  return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+}
+
+function isVersion(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isSelection(value: unknown): boolean {
+  if (value === null) return true;
+  const { anchor, head } = (value ?? {}) as Record<string, unknown>;
+  return isVersion(anchor) && isVersion(head);
+}
+
+/**
+ * GET /api/documents/[id]/collab?clientId=...&session=...&version=...
+ *
+ * Opens the document in the tab `clientId`. A tab reconnecting sends the
+ * `session` and `version` it has, to be sent only the steps it missed.
+ *
+ * Response: a `text/event-stream`, one JSON event per message:
+ * { type: 'init', session, version, content, participants } |
+ * { type: 'steps', version, steps, clientIds } |
+ * { type: 'presence', version, participants } |
+ * { type: 'saved', version, document }
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize(request, 'viewer');
+    if (response) return response;
+
+    const { id } = await params;
+    const { searchParams } = request.nextUrl;
+
+    const clientId = searchParams.get('clientId');
+    if (!clientId || !CLIENT_ID_PATTERN.test(clientId)) {
+      return NextResponse.json(
+        { error: 'A clientId of up to 64 letters, digits, - or _ is required' },
+        { status: 400 }
+      );
+    }
+
+    const session = searchParams.get('session');
+    const version = Number(searchParams.get('version'));
+    const since = session && isVersion(version) ? { session, version } : undefined;
+
+    const encoder = new TextEncoder();
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    let keepAlive: ReturnType<typeof setInterval> | undefined;
+    let leave: (() => void) | null = null;
+
+    const close = () => {
+      clearInterval(keepAlive);
+      leave?.();
+      leave = null;
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        controller = streamController;
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    const send = (event: CollabEvent) => {
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+    };
+
+    leave = await joinDocument(id, { clientId, userId: user.id, username: user.username }, send, since);
+    if (!leave) return notFound();
+
+    keepAlive = setInterval(() => {
+      try {
+        controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      } catch {
+        close();
+      }
+    }, KEEP_ALIVE_MS);
+    request.signal.addEventListener('abort', close, { once: true });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/documents/[id]/collab:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to open document' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/collab
+ *
+ * Sends steps and/or the selection of a connected tab of the caller's own.
+ * Steps must be based on the current version, otherwise the answer is a
+ * 409 and the tab sends them again once it has caught up. Only editors may
+ * send steps.
+ *
+ * Request body:
+ * {
+ *   clientId: string,
+ *   version: number,    // the version the steps and selection are based on
+ *   steps?: ProseMirror step JSON[],
+ *   selection?: { anchor: number, head: number } | null
+ * }
+ *
+ * Response:
+ * {
+ *   version: number     // the version after the steps
+ * }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize(request, 'viewer');
+    if (response) return response;
+
+    const { id } = await params;
+    const body: CollabUpdateRequest = await request.json();
+
+    // Validate input
+    if (typeof body.clientId !== 'string' || !isVersion(body.version)) {
+      return NextResponse.json(
+        { error: 'clientId and version are required' },
+        { status: 400 }
+      );
+    }
+
+    if (body.steps !== undefined && !Array.isArray(body.steps)) {
+      return NextResponse.json(
+        { error: 'Steps must be an array' },
+        { status: 400 }
+      );
+    }
+
+    if (body.selection !== undefined && !isSelection(body.selection)) {
+      return NextResponse.json(
+        { error: 'Selection must be null or { anchor, head } positions' },
+        { status: 400 }
+      );
+    }
+
+    if (body.steps?.length && !hasRole(user.role, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to do this' },
+        { status: 403 }
+      );
+    }
+
+    let version = body.version;
+    if (body.steps?.length) {
+      version = await receiveSteps(id, body.clientId, user.id, body.version, body.steps);
+    }
+    if (body.selection !== undefined) {
+      await updateSelection(id, body.clientId, user.id, version, body.selection);
+    }
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    if (error instanceof CollabError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in POST /api/documents/[id]/collab:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to update document' },
+      { status: 500 }
+    );
+  }
+}
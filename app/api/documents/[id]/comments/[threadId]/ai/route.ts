@@ -0,0 +1,83 @@
+/**
+ * API Route: /api/documents/[id]/comments/[threadId]/ai
+ *
+ * Asks the AI about the passage of a review thread: it answers the thread's
+ * latest message, with the whole document as context, and its answer is
+ * posted into the thread. Editors only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeAIRequest } from '@/lib/ai-quota';
+import { trackAICall } from '@/lib/ai-usage';
+import { authorize } from '@/lib/auth';
+import { answerComment, createAIProvenance } from '@/lib/ai-service';
+import { getOpenDoc } from '@/lib/collab-authority';
+import { addAIReply, getThread } from '@/lib/comment-store';
+import { getDocument } from '@/lib/document-store';
+import { editorSchema } from '@/lib/editor-schema';
+import { serializeMarkdown } from '@/lib/markdown';
+
+interface RouteContext {
+  params: Promise<{ id: string; threadId: string }>;
+}
+
+/**
+ * POST /api/documents/[id]/comments/[threadId]/ai
+ *
+ * Response:
+ * {
+ *   thread: { id, documentId, quote, messages, resolved, resolvedBy, resolvedAt, createdAt, createdBy }
+ * }
+ * The AI's message carries its provenance in `ai`.
+ *
+ * Over the user's request rate or daily token budget the response is a 429
+ * with an `AIQuotaError` body, like /api/continue
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const { id, threadId } = await params;
+    const document = await getDocument(id);
+    const thread = document && await getThread(id, threadId);
+    if (!document || !thread) {
+      return NextResponse.json({ error: 'Comment thread not found' }, { status: 404 });
+    }
+
+    const limited = await consumeAIRequest(user);
+    if (limited) return limited;
+
+    // An open document has edits the store doesn't have yet
+    const doc = (await getOpenDoc(id)) ?? editorSchema.nodeFromJSON(document.content);
+    const provenance = createAIProvenance(user.username);
+    const call = trackAICall(user, 'comment', provenance, id);
+    const result = await answerComment(
+      {
+        document: serializeMarkdown(doc),
+        quote: thread.quote,
+        messages: thread.messages,
+      },
+      { signal: request.signal, onUsage: call.onUsage }
+    );
+    await call.finish(result.error ? (request.signal.aborted ? 'cancelled' : 'error') : 'success');
+
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    const answered = await addAIReply(id, threadId, user.username, result.answer, provenance);
+    if (!answered) {
+      return NextResponse.json({ error: 'Comment thread not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ thread: answered });
+  } catch (error) {
+    console.error('Error in POST /api/documents/[id]/comments/[threadId]/ai:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
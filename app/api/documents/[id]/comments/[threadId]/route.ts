@@ -0,0 +1,74 @@
+/**
+ * API Route: /api/documents/[id]/comments/[threadId]
+ *
+ * Replies to, resolves and reopens a review thread. Editors only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { CommentStoreError, updateThread } from '@/lib/comment-store';
+import { UpdateCommentThreadRequest } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string; threadId: string }>;
+}
+
+/**
+ * PATCH /api/documents/[id]/comments/[threadId]
+ *
+ * Request body (at least one field):
+ * {
+ *   reply?: string,
+ *   resolved?: boolean   // false reopens the thread
+ * }
+ *
+ * Response:
+ * {
+ *   thread: { id, documentId, quote, messages, resolved, resolvedBy, resolvedAt, createdAt, createdBy }
+ * }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const { id, threadId } = await params;
+    const body: UpdateCommentThreadRequest = await request.json();
+
+    // Validate input
+    if (body.reply === undefined && body.resolved === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update, send a reply or resolved' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (body.reply !== undefined && typeof body.reply !== 'string') ||
+      (body.resolved !== undefined && typeof body.resolved !== 'boolean')
+    ) {
+      return NextResponse.json(
+        { error: 'reply must be a string and resolved a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const thread = await updateThread(id, threadId, user.username, { reply: body.reply, resolved: body.resolved });
+    if (!thread) {
+      return NextResponse.json({ error: 'Comment thread not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ thread });
+  } catch (error) {
+    if (error instanceof CommentStoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in PATCH /api/documents/[id]/comments/[threadId]:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
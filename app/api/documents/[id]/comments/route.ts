@@ -0,0 +1,99 @@
+/**
+ * API Route: /api/documents/[id]/comments
+ *
+ * Lists (any signed-in user) and starts (editors) the review threads of a
+ * stored document. The client marks the commented text with the thread id
+ * itself, through the collaboration steps.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDocument } from '@/lib/document-store';
+import { CommentStoreError, createThread, listThreads } from '@/lib/comment-store';
+import { CreateCommentThreadRequest } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+}
+
+/**
+ * GET /api/documents/[id]/comments
+ *
+ * Response:
+ * {
+ *   threads: { id, documentId, quote, messages, resolved, resolvedBy, resolvedAt, createdAt, createdBy }[]
+ * }
+ * Oldest first, resolved threads included.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize(request, 'viewer');
+    if (response) return response;
+
+    const { id } = await params;
+    if (!(await getDocument(id))) return notFound();
+
+    const threads = await listThreads(id);
+    return NextResponse.json({ threads });
+  } catch (error) {
+    console.error('Error in GET /api/documents/[id]/comments:', error);
+
+    return NextResponse.json(
+      { threads: [], error: 'Failed to list comments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/comments
+ *
+ * Request body:
+ * {
+ *   id: string,     // a new UUID, the `threadId` of the thread's comment marks
+ *   quote: string,  // the commented text
+ *   body: string    // the first message
+ * }
+ *
+ * Response (201):
+ * {
+ *   thread: { id, documentId, quote, messages, resolved, resolvedBy, resolvedAt, createdAt, createdBy }
+ * }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const { id } = await params;
+    const body: CreateCommentThreadRequest = await request.json();
+
+    // Validate input
+    if (typeof body.id !== 'string' || typeof body.quote !== 'string' || typeof body.body !== 'string') {
+      return NextResponse.json(
+        { error: 'id, quote and body are required strings' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getDocument(id))) return notFound();
+
+    const thread = await createThread(id, user.username, { id: body.id, quote: body.quote, body: body.body });
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CommentStoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error in POST /api/documents/[id]/comments:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * API Route: /api/documents/[id]
+ *
+ * Reads (any signed-in user), saves, renames, changes the generation
+ * settings of and deletes (editors) a single stored document. Saving
+ * content also records a periodic autosave version snapshot; while the
+ * document is open for collaboration its content only changes through steps.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { closeDocument, isDocumentOpen } from '@/lib/collab-authority';
+import {
+  deleteDocument,
+  getDocument,
+  isDocumentContent,
+  updateDocument,
+} from '@/lib/document-store';
+import { getAllowedModels } from '@/lib/ai-providers';
+import { checkGenerationSettings } from '@/lib/generation-settings';
+import { createVersion, deleteVersions } from '@/lib/version-store';
+import { deleteChats } from '@/lib/chat-store';
+import { deleteThreads } from '@/lib/comment-store';
+import { UpdateDocumentRequest } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+}
+
+/**
+ * GET /api/documents/[id]
+ *
+ * Response:
+ * {
+ *   document: { id, title, createdAt, updatedAt, createdBy, updatedBy, content, settings? }
+ * }
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize(request, 'viewer');
+    if (response) return response;
+
+    const { id } = await params;
+    const document = await getDocument(id);
+    if (!document) return notFound();
+
+    return NextResponse.json({ document });
+  } catch (error) {
+    console.error('Error in GET /api/documents/[id]:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to load document' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/documents/[id]
+ *
+ * Saves content, renames, changes the generation settings, or any combination.
+ *
+ * Request body:
+ * {
+ *   title?: string,
+ *   content?: ProseMirror document JSON,
+ *   settings?: { preset, model, temperature, maxTokens, systemPrompt }
+ * }
+ *
+ * Response:
+ * {
+ *   document: { id, title, createdAt, updatedAt, createdBy, updatedBy, content, settings? }
+ * }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const { id } = await params;
+    const body: UpdateDocumentRequest = await request.json();
+
+    // Validate input
+    if (body.title === undefined && body.content === undefined && body.settings === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update, send a title, content or settings' },
+        { status: 400 }
+      );
+    }
+
+    if (body.title !== undefined && typeof body.title !== 'string') {
+      return NextResponse.json(
+        { error: 'Title must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (body.content !== undefined && !isDocumentContent(body.content)) {
+      return NextResponse.json(
+        { error: 'Content is not a valid document' },
+        { status: 400 }
+      );
+    }
+
+    // The open document would overwrite the content with its next save
+    if (body.content !== undefined && isDocumentOpen(id)) {
+      return NextResponse.json(
+        { error: 'The document is open for editing, change its content there' },
+        { status: 409 }
+      );
+    }
+
+    if (body.settings !== undefined) {
+      const settingsError = checkGenerationSettings(body.settings, getAllowedModels());
+      if (settingsError) {
+        return NextResponse.json(
+          { error: settingsError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Store only the known settings fields
+    const settings = body.settings && {
+      preset: body.settings.preset,
+      model: body.settings.model,
+      temperature: body.settings.temperature,
+      maxTokens: body.settings.maxTokens,
+      systemPrompt: body.settings.systemPrompt,
+    };
+
+    const document = await updateDocument(id, user.username, { title: body.title, content: body.content, settings });
+    if (!document) return notFound();
+
+    // A failed snapshot must not fail the save itself
+    if (body.content !== undefined) {
+      await createVersion(id, {
+        trigger: 'autosave',
+        content: document.content,
+        createdBy: user.username,
+      }).catch((error) => {
+        console.error('Error recording autosave version:', error);
+      });
+    }
+
+    return NextResponse.json({ document });
+  } catch (error) {
+    console.error('Error in PATCH /api/documents/[id]:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]
+ *
+ * Response:
+ * {
+ *   success: true
+ * }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const { id } = await params;
+    if (!(await deleteDocument(id))) return notFound();
+    await closeDocument(id);
+    await deleteVersions(id);
+    await deleteThreads(id);
+    await deleteChats(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in DELETE /api/documents/[id]:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to delete document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * API Route: /api/documents/[id]/versions/[versionId]
+ *
+ * Loads a single version snapshot with its content, e.g. to diff or restore it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getVersion } from '@/lib/version-store';
+
+interface RouteContext {
+  params: Promise<{ id: string; versionId: string }>;
+}
+
+/**
+ * GET /api/documents/[id]/versions/[versionId]
+ *
+ * Response:
+ * {
+ *   version: { id, documentId, name, trigger, createdAt, createdBy, content }
+ * }
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize(request, 'viewer');
+    if (response) return response;
+
+    const { id, versionId } = await params;
+    const version = await getVersion(id, versionId);
+
+    if (!version) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ version });
+  } catch (error) {
+    console.error('Error in GET /api/documents/[id]/versions/[versionId]:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to load version' },
+      { status: 500 }
+    );
+  }
+}
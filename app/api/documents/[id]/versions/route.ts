@@ -0,0 +1,121 @@
+/**
+ * API Route: /api/documents/[id]/versions
+ *
+ * Lists (any signed-in user) and records (editors) version snapshots of a
+ * stored document. Autosave snapshots are recorded by PATCH
+ * /api/documents/[id] itself.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getDocument, isDocumentContent } from '@/lib/document-store';
+import { createVersion, listVersions } from '@/lib/version-store';
+import { CreateVersionRequest } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const CLIENT_TRIGGERS = ['manual', 'ai', 'restore'];
+
+function notFound() {
+  return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+}
+
+/**
+ * GET /api/documents/[id]/versions
+ *
+ * Response:
+ * {
+ *   versions: { id, documentId, name, trigger, createdAt, createdBy }[]
+ * }
+ * Newest first.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize(request, 'viewer');
+    if (response) return response;
+
+    const { id } = await params;
+    if (!(await getDocument(id))) return notFound();
+
+    const versions = await listVersions(id);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error in GET /api/documents/[id]/versions:', error);
+
+    return NextResponse.json(
+      { versions: [], error: 'Failed to list versions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/versions
+ *
+ * Request body:
+ * {
+ *   name?: string,
+ *   trigger?: 'manual' | 'ai' | 'restore',   // default 'manual'
+ *   content?: ProseMirror document JSON       // default: the stored content
+ * }
+ *
+ * Response:
+ * {
+ *   version: { id, documentId, name, trigger, createdAt, createdBy, content } | null
+ * }
+ * `version` is null (status 200) when an automatic snapshot was skipped
+ * because nothing changed since the last one.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const { id } = await params;
+    const body: CreateVersionRequest = await request.json().catch(() => ({}));
+    const trigger = body.trigger ?? 'manual';
+
+    // Validate input
+    if (!CLIENT_TRIGGERS.includes(trigger)) {
+      return NextResponse.json(
+        { error: 'Unknown version trigger' },
+        { status: 400 }
+      );
+    }
+
+    if (body.name !== undefined && typeof body.name !== 'string') {
+      return NextResponse.json(
+        { error: 'Name must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (body.content !== undefined && !isDocumentContent(body.content)) {
+      return NextResponse.json(
+        { error: 'Content is not a valid document' },
+        { status: 400 }
+      );
+    }
+
+    const document = await getDocument(id);
+    if (!document) return notFound();
+
+    const version = await createVersion(id, {
+      trigger,
+      name: body.name,
+      content: body.content ?? document.content,
+      createdBy: user.username,
+    });
+
+    return NextResponse.json({ version }, { status: version ? 201 : 200 });
+  } catch (error) {
+    console.error('Error in POST /api/documents/[id]/versions:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
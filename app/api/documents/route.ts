@@ -0,0 +1,84 @@
+/**
+ * API Route: /api/documents
+ *
+ * Lists stored documents (any signed-in user) and creates new ones (editors).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { createDocument, isDocumentContent, listDocuments } from '@/lib/document-store';
+import { CreateDocumentRequest } from '@/lib/types';
+
+/**
+ * GET /api/documents
+ *
+ * Response:
+ * {
+ *   documents: { id, title, createdAt, updatedAt, createdBy, updatedBy }[]
+ * }
+ * Most recently updated first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorize(request, 'viewer');
+    if (response) return response;
+
+    const documents = await listDocuments();
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error('Error in GET /api/documents:', error);
+
+    return NextResponse.json(
+      { documents: [], error: 'Failed to list documents' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents
+ *
+ * Request body (all optional):
+ * {
+ *   title?: string,
+ *   content?: ProseMirror document JSON
+ * }
+ *
+ * Response (201):
+ * {
+ *   document: { id, title, createdAt, updatedAt, createdBy, updatedBy, content }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    // An empty body creates an empty, untitled document
+    const body: CreateDocumentRequest = await request.json().catch(() => ({}));
+
+    if (body.title !== undefined && typeof body.title !== 'string') {
+      return NextResponse.json(
+        { error: 'Title must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (body.content !== undefined && !isDocumentContent(body.content)) {
+      return NextResponse.json(
+        { error: 'Content is not a valid document' },
+        { status: 400 }
+      );
+    }
+
+    const document = await createDocument(user.username, body);
+    return NextResponse.json({ document }, { status: 201 });
+  } catch (error) {
+    console.error('Error in POST /api/documents:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
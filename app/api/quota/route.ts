@@ -0,0 +1,38 @@
+/**
+ * API Route: /api/quota
+ *
+ * Reports the signed-in user's AI limits and what is left of them today.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAIQuota } from '@/lib/ai-quota';
+import { authorize } from '@/lib/auth';
+import type { AIQuota } from '@/lib/types';
+
+/**
+ * GET /api/quota
+ *
+ * Response:
+ * {
+ *   quota: {
+ *     requestsPerMinute: number | null,  // null when unlimited
+ *     requestsRemaining: number | null,
+ *     dailyTokenBudget: number | null,
+ *     tokensUsedToday: number,
+ *     tokensRemaining: number | null,
+ *     resetsAt: string                   // next midnight UTC
+ *   }
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    return NextResponse.json<{ quota: AIQuota }>({ quota: await getAIQuota(user.id) });
+  } catch (error) {
+    console.error('Error in GET /api/quota:', error);
+
+    return NextResponse.json({ error: 'Failed to load quota' }, { status: 500 });
+  }
+}
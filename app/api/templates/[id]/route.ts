@@ -0,0 +1,103 @@
+/**
+ * API Route: /api/templates/[id]
+ *
+ * Renames, changes the prompt of and deletes a prompt template. Editors only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { deleteTemplate, TemplateStoreError, updateTemplate } from '@/lib/template-store';
+import { UpdatePromptTemplateRequest } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+}
+
+/**
+ * PATCH /api/templates/[id]
+ *
+ * Request body (at least one field):
+ * {
+ *   name?: string,
+ *   prompt?: string
+ * }
+ *
+ * Response:
+ * {
+ *   template: { id, name, prompt, createdAt, updatedAt, createdBy, updatedBy }
+ * }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const { id } = await params;
+    const body: UpdatePromptTemplateRequest = await request.json();
+
+    // Validate input
+    if (body.name === undefined && body.prompt === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update, send a name or prompt' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (body.name !== undefined && typeof body.name !== 'string') ||
+      (body.prompt !== undefined && typeof body.prompt !== 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'Name and prompt must be strings' },
+        { status: 400 }
+      );
+    }
+
+    const template = await updateTemplate(id, user.username, { name: body.name, prompt: body.prompt });
+    if (!template) return notFound();
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    if (error instanceof TemplateStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error in PATCH /api/templates/[id]:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/templates/[id]
+ *
+ * Response:
+ * {
+ *   success: true
+ * }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const { id } = await params;
+    if (!(await deleteTemplate(id))) return notFound();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in DELETE /api/templates/[id]:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to delete template' },
+      { status: 500 }
+    );
+  }
+}
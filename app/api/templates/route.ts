@@ -0,0 +1,80 @@
+/**
+ * API Route: /api/templates
+ *
+ * Lists (any signed-in user) and creates (editors) prompt templates.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { createTemplate, listTemplates, TemplateStoreError } from '@/lib/template-store';
+import { CreatePromptTemplateRequest } from '@/lib/types';
+
+/**
+ * GET /api/templates
+ *
+ * Response:
+ * {
+ *   templates: { id, name, prompt, createdAt, updatedAt, createdBy, updatedBy }[]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorize(request, 'viewer');
+    if (response) return response;
+
+    const templates = await listTemplates();
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('Error in GET /api/templates:', error);
+
+    return NextResponse.json(
+      { templates: [], error: 'Failed to list templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/templates
+ *
+ * Request body:
+ * {
+ *   name: string,
+ *   prompt: string  // may use {{document}}, {{before}}, {{after}}, {{selection}}, {{title}}, {{tone}}
+ * }
+ *
+ * Response (201):
+ * {
+ *   template: { id, name, prompt, createdAt, updatedAt, createdBy, updatedBy }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    const body: CreatePromptTemplateRequest = await request.json();
+
+    // Validate input
+    if (typeof body.name !== 'string' || typeof body.prompt !== 'string') {
+      return NextResponse.json(
+        { error: 'Name and prompt are required' },
+        { status: 400 }
+      );
+    }
+
+    const template = await createTemplate(user.username, { name: body.name, prompt: body.prompt });
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TemplateStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error in POST /api/templates:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * API Route: /api/transform
+ *
+ * Handles AI rewrite requests for a selected range of text
+ * (rephrase, shorten, expand, fix grammar, change tone), and the slash
+ * commands that write from a paragraph or section (summarize, make list,
+ * translate, brainstorm).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeAIRequest } from '@/lib/ai-quota';
+import { trackAICall } from '@/lib/ai-usage';
+import { authorize } from '@/lib/auth';
+import { createAIProvenance, transformText } from '@/lib/ai-service';
+import { isTransformLanguage, isTransformOperation, isTransformTone } from '@/lib/transform-operations';
+import { TransformRequest } from '@/lib/types';
+
+/**
+ * POST /api/transform
+ *
+ * Request body:
+ * {
+ *   text: string,
+ *   operation: 'rephrase' | 'shorten' | 'expand' | 'fix-grammar' | 'change-tone'
+ *     | 'summarize' | 'make-list' | 'translate' | 'brainstorm',
+ *   tone?: 'formal' | 'casual' | 'friendly' | 'confident' | 'persuasive',
+ *   language?: 'English' | 'Spanish' | 'French' | 'German' | 'Portuguese' | 'Japanese' | 'Chinese',
+ *   documentId?: string // recorded in the usage log
+ * }
+ *
+ * Response:
+ * {
+ *   transformedText: string,
+ *   requestId?: string,  // identifies this request, set on success
+ *   model?: string,      // the model that wrote the rewrite
+ *   requestedBy?: string, // username of the signed-in editor
+ *   error?: string
+ * }
+ *
+ * Over the user's request rate or daily token budget the response is a 429
+ * with an `AIQuotaError` body, like /api/continue
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user, response } = await authorize(request, 'editor');
+    if (response) return response;
+
+    // Parse request body
+    const body: TransformRequest = await request.json();
+
+    // Validate input
+    if (!body.text || typeof body.text !== 'string' || body.text.trim().length === 0) {
+      return NextResponse.json(
+        { transformedText: '', error: 'Text is required and must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (!isTransformOperation(body.operation)) {
+      return NextResponse.json(
+        { transformedText: '', error: 'Unknown transform operation' },
+        { status: 400 }
+      );
+    }
+
+    if (body.operation === 'change-tone' && !isTransformTone(body.tone)) {
+      return NextResponse.json(
+        { transformedText: '', error: 'A valid tone is required for change-tone' },
+        { status: 400 }
+      );
+    }
+
+    if (body.operation === 'translate' && !isTransformLanguage(body.language)) {
+      return NextResponse.json(
+        { transformedText: '', error: 'A valid language is required for translate' },
+        { status: 400 }
+      );
+    }
+
+    if (body.documentId !== undefined && typeof body.documentId !== 'string') {
+      return NextResponse.json(
+        { transformedText: '', error: 'documentId must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const limited = await consumeAIRequest(user);
+    if (limited) return limited;
+
+    // Call AI service
+    const provenance = createAIProvenance(user.username);
+    const call = trackAICall(user, 'transform', provenance, body.documentId ?? null);
+    const result = await transformText(body, { signal: request.signal, onUsage: call.onUsage });
+    await call.finish(result.error ? (request.signal.aborted ? 'cancelled' : 'error') : 'success');
+
+    // Check if there was an error
+    if (result.error) {
+      return NextResponse.json(
+        {
+          transformedText: '',
+          error: result.error,
+        },
+        { status: 500 }
+      );
+    }
+
+    // Return successful response
+    return NextResponse.json({
+      transformedText: result.transformedText,
+      ...provenance,
+    });
+  } catch (error) {
+    console.error('Error in /api/transform:', error);
+
+    return NextResponse.json(
+      {
+        transformedText: '',
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+      },
+      { status: 500 }
+    );
+  }
+}
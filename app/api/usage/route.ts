@@ -0,0 +1,73 @@
+/**
+ * API Route: /api/usage
+ *
+ * AI usage and estimated cost, added up by day, user and model. Admins only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { summarizeUsage, usageDay } from '@/lib/usage-store';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isDay(value: string): boolean {
+  return DAY_PATTERN.test(value) && usageDay(new Date(`${value}T00:00:00Z`)) === value;
+}
+
+/**
+ * GET /api/usage?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Both days are UTC and inclusive; by default the last 30 days up to today.
+ *
+ * Response:
+ * {
+ *   from: string,
+ *   to: string,
+ *   totals: UsageTotals,
+ *   byDay: { day, ...UsageTotals }[],                // every day in the range
+ *   byUser: { userId, username, ...UsageTotals }[],  // highest cost first
+ *   byModel: { provider, model, ...UsageTotals }[]   // highest cost first
+ * }
+ *
+ * UsageTotals:
+ * {
+ *   calls, failedCalls, promptTokens, completionTokens,
+ *   costUsd,          // estimated, priced calls only
+ *   unpricedCalls,    // calls to models without a known price
+ *   averageLatencyMs  // null without calls
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorize(request, 'admin');
+    if (response) return response;
+
+    const params = request.nextUrl.searchParams;
+    const to = params.get('to') ?? usageDay();
+    if (!isDay(to)) {
+      return NextResponse.json({ error: 'to must be a date like 2024-01-31' }, { status: 400 });
+    }
+
+    const from = params.get('from') ?? usageDay(new Date(Date.parse(to) - (DEFAULT_DAYS - 1) * DAY_MS));
+    if (!isDay(from)) {
+      return NextResponse.json({ error: 'from must be a date like 2024-01-31' }, { status: 400 });
+    }
+
+    const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+    if (days < 1 || days > MAX_DAYS) {
+      return NextResponse.json(
+        { error: `from must be on or before to, at most ${MAX_DAYS} days apart` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await summarizeUsage(from, to));
+  } catch (error) {
+    console.error('Error in GET /api/usage:', error);
+
+    return NextResponse.json({ error: 'Failed to load usage' }, { status: 500 });
+  }
+}
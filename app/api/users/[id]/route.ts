@@ -0,0 +1,84 @@
+/**
+ * API Route: /api/users/[id]
+ *
+ * Changes a user's role, disables or re-enables them, or resets their
+ * password. Admins only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { isUserRole } from '@/lib/roles';
+import { updateUser, UserStoreError } from '@/lib/user-store';
+import { UpdateUserRequest } from '@/lib/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/users/[id]
+ *
+ * Request body (at least one field):
+ * {
+ *   role?: 'admin' | 'editor' | 'viewer',
+ *   disabled?: boolean,
+ *   password?: string
+ * }
+ *
+ * Response:
+ * {
+ *   user: { id, username, role, disabled, createdAt, updatedAt }
+ * }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { user: admin, response } = await authorize(request, 'admin');
+    if (response) return response;
+
+    const { id } = await params;
+    const body: UpdateUserRequest = await request.json();
+
+    // Validate input
+    if (body.role === undefined && body.disabled === undefined && body.password === undefined) {
+      return NextResponse.json(
+        { error: 'Nothing to update, send a role, disabled or password' },
+        { status: 400 }
+      );
+    }
+
+    if (body.role !== undefined && !isUserRole(body.role)) {
+      return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+    }
+
+    if (body.disabled !== undefined && typeof body.disabled !== 'boolean') {
+      return NextResponse.json({ error: 'Disabled must be a boolean' }, { status: 400 });
+    }
+
+    if (body.password !== undefined && typeof body.password !== 'string') {
+      return NextResponse.json({ error: 'Password must be a string' }, { status: 400 });
+    }
+
+    // Admins can't lock themselves out
+    if (id === admin.id && body.disabled) {
+      return NextResponse.json({ error: 'You cannot disable your own account' }, { status: 400 });
+    }
+
+    const user = await updateUser(id, { role: body.role, disabled: body.disabled, password: body.password });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof UserStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error in PATCH /api/users/[id]:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * API Route: /api/users
+ *
+ * Lists and creates user accounts. Admins only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { isUserRole } from '@/lib/roles';
+import { createUser, listUsers, UserStoreError } from '@/lib/user-store';
+import { CreateUserRequest } from '@/lib/types';
+
+/**
+ * GET /api/users
+ *
+ * Response:
+ * {
+ *   users: { id, username, role, disabled, createdAt, updatedAt }[]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { response } = await authorize(request, 'admin');
+    if (response) return response;
+
+    const users = await listUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error in GET /api/users:', error);
+
+    return NextResponse.json(
+      { users: [], error: 'Failed to list users' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users
+ *
+ * Request body:
+ * {
+ *   username: string,
+ *   password: string,
+ *   role: 'admin' | 'editor' | 'viewer'
+ * }
+ *
+ * Response (201):
+ * {
+ *   user: { id, username, role, disabled, createdAt, updatedAt }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { response } = await authorize(request, 'admin');
+    if (response) return response;
+
+    const body: CreateUserRequest = await request.json();
+
+    // Validate input
+    if (typeof body.username !== 'string' || typeof body.password !== 'string') {
+      return NextResponse.json(
+        { error: 'Username and password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isUserRole(body.role)) {
+      return NextResponse.json(
+        { error: 'Unknown role' },
+        { status: 400 }
+      );
+    }
+
+    const user = await createUser({ username: body.username, password: body.password, role: body.role });
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UserStoreError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error in POST /api/users:', error);
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
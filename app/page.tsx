@@ -3,16 +3,84 @@
  * 
  * Main page of the AI Writing Assistant application.
  * Protected with authentication - shows login or editor based on auth state.
+ * A sidebar lists the stored documents; the selected one opens in the editor,
+ * read-only for viewers.
  */
 
 'use client';
 
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
+import { hasRole } from '@/lib/roles';
+import { useDocuments } from '@/lib/use-documents';
 import Editor from '@/components/editor/editor';
 import LoginForm from '@/components/auth/login-form';
+import DocumentSidebar from '@/components/documents/document-sidebar';
 
 export default function Home() {
-  const { isAuthenticated, isLoading, login, logout } = useAuth();
+  const { isAuthenticated, isLoading, session, login, logout } = useAuth();
+  const canEdit = session !== null && hasRole(session.role, 'editor');
+  const {
+    documents,
+    isLoading: isLoadingDocuments,
+    error: documentsError,
+    createDocument,
+    renameDocument,
+    deleteDocument,
+    documentSaved,
+  } = useDocuments(isAuthenticated);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Only create the first document once, even if the effect below runs twice
+  const hasAutoCreatedRef = useRef(false);
+
+  /**
+   * Run a document action, showing its error in the sidebar
+   */
+  const runAction = useCallback(async (action: () => Promise<void>) => {
+    try {
+      setActionError(null);
+      await action();
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  }, []);
+
+  const handleCreate = useCallback(() => runAction(async () => {
+    const document = await createDocument();
+    setActiveDocumentId(document.id);
+  }), [runAction, createDocument]);
+
+  const handleRename = useCallback((id: string) => {
+    const current = documents.find((document) => document.id === id);
+    const title = window.prompt('Document title', current?.title)?.trim();
+    if (!title) return;
+    runAction(() => renameDocument(id, title));
+  }, [documents, runAction, renameDocument]);
+
+  const handleDelete = useCallback((id: string) => {
+    const current = documents.find((document) => document.id === id);
+    if (!window.confirm(`Delete "${current?.title ?? 'this document'}"? This cannot be undone.`)) return;
+    runAction(async () => {
+      await deleteDocument(id);
+      if (id === activeDocumentId) setActiveDocumentId(null);
+    });
+  }, [documents, activeDocumentId, runAction, deleteDocument]);
+
+  /**
+   * Open the most recent document once the list has loaded, creating one for a fresh store
+   */
+  useEffect(() => {
+    if (!isAuthenticated || isLoadingDocuments || documentsError || activeDocumentId) return;
+
+    if (documents.length > 0) {
+      setActiveDocumentId(documents[0].id);
+    } else if (canEdit && !hasAutoCreatedRef.current) {
+      hasAutoCreatedRef.current = true;
+      handleCreate();
+    }
+  }, [isAuthenticated, isLoadingDocuments, documentsError, activeDocumentId, documents, canEdit, handleCreate]);
 
   // Show loading state while checking authentication
   if (isLoading) {
@@ -42,7 +110,26 @@ export default function Home() {
             <h1 className="text-4xl sm:text-5xl font-bold text-gray-900 dark:text-white flex-1">
               AI Writing Assistant
             </h1>
-            <div className="flex-1 flex justify-end">
+            <div className="flex-1 flex justify-end items-center gap-3">
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                {session?.username} <span className="text-gray-400 dark:text-gray-500">({session?.role})</span>
+              </span>
+              {session?.role === 'admin' && (
+                <>
+                  <Link
+                    href="/admin/users"
+                    className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    Users
+                  </Link>
+                  <Link
+                    href="/admin/usage"
+                    className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                  >
+                    Usage
+                  </Link>
+                </>
+              )}
               <button
                 onClick={logout}
                 className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center gap-2"
@@ -72,8 +159,29 @@ export default function Home() {
         </header>
 
         {/* Main Editor Section */}
-        <section className="mb-12">
-          <Editor />
+        <section className="mb-12 flex flex-col lg:flex-row gap-6 items-start">
+          <DocumentSidebar
+            documents={documents}
+            activeId={activeDocumentId}
+            isLoading={isLoadingDocuments}
+            error={actionError ?? documentsError}
+            onSelect={setActiveDocumentId}
+            onCreate={handleCreate}
+            onRename={handleRename}
+            onDelete={handleDelete}
+            readOnly={!canEdit}
+          />
+          <div className="flex-1 min-w-0">
+            {activeDocumentId && (
+              <Editor
+                key={activeDocumentId}
+                documentId={activeDocumentId}
+                onSaved={documentSaved}
+                readOnly={!canEdit}
+                author={session?.username}
+              />
+            )}
+          </div>
         </section>
 
         {/* Features Section */}
@@ -0,0 +1,274 @@
+/**
+ * Usage Dashboard Component
+ *
+ * Charts AI calls, tokens and estimated cost per day, with totals and
+ * breakdowns by user and by model for the chosen period.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { UsageSummary, UsageTotals } from '@/lib/types';
+
+/**
+ * Periods offered, in days up to and including today
+ */
+const PERIOD_OPTIONS = [7, 30, 90];
+
+type ChartMetric = 'cost' | 'tokens' | 'calls';
+
+const CHART_METRICS: { metric: ChartMetric; label: string }[] = [
+  { metric: 'cost', label: 'Cost' },
+  { metric: 'tokens', label: 'Tokens' },
+  { metric: 'calls', label: 'Calls' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString();
+}
+
+function formatLatency(ms: number | null): string {
+  if (ms === null) return '-';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function metricValue(totals: UsageTotals, metric: ChartMetric): number {
+  if (metric === 'cost') return totals.costUsd;
+  if (metric === 'tokens') return totals.promptTokens + totals.completionTokens;
+  return totals.calls;
+}
+
+function formatMetric(value: number, metric: ChartMetric): string {
+  return metric === 'cost' ? formatCost(value) : formatNumber(value);
+}
+
+/**
+ * Cost cell, noting calls to models without a known price
+ */
+function CostCell({ totals }: { totals: UsageTotals }) {
+  return (
+    <td className="px-4 py-2 text-right tabular-nums">
+      {formatCost(totals.costUsd)}
+      {totals.unpricedCalls > 0 && (
+        <span className="ml-1 text-gray-400" title={`${totals.unpricedCalls} calls to models without a known price`}>
+          *
+        </span>
+      )}
+    </td>
+  );
+}
+
+/**
+ * A table of usage rows with the same columns for users and models
+ */
+function UsageTable<T extends UsageTotals>({
+  title,
+  rows,
+  getKey,
+  renderName,
+}: {
+  title: string;
+  rows: T[];
+  getKey: (row: T) => string;
+  renderName: (row: T) => React.ReactNode;
+}) {
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm overflow-x-auto">
+      <h2 className="px-4 pt-4 pb-2 text-sm font-semibold text-gray-900 dark:text-gray-100">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="px-4 pb-4 text-sm text-gray-500 dark:text-gray-400">No AI calls in this period.</p>
+      ) : (
+        <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+          <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <tr>
+              <th className="px-4 py-2 font-medium">{title.replace(/^By /, '')}</th>
+              <th className="px-4 py-2 font-medium text-right">Calls</th>
+              <th className="px-4 py-2 font-medium text-right">Failed</th>
+              <th className="px-4 py-2 font-medium text-right">Prompt tokens</th>
+              <th className="px-4 py-2 font-medium text-right">Completion tokens</th>
+              <th className="px-4 py-2 font-medium text-right">Avg latency</th>
+              <th className="px-4 py-2 font-medium text-right">Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={getKey(row)} className="border-b last:border-0 border-gray-100 dark:border-gray-700">
+                <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">{renderName(row)}</td>
+                <td className="px-4 py-2 text-right tabular-nums">{formatNumber(row.calls)}</td>
+                <td className="px-4 py-2 text-right tabular-nums">{formatNumber(row.failedCalls)}</td>
+                <td className="px-4 py-2 text-right tabular-nums">{formatNumber(row.promptTokens)}</td>
+                <td className="px-4 py-2 text-right tabular-nums">{formatNumber(row.completionTokens)}</td>
+                <td className="px-4 py-2 text-right tabular-nums">{formatLatency(row.averageLatencyMs)}</td>
+                <CostCell totals={row} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Usage totals, a daily chart and per-user and per-model tables
+ */
+export default function UsageDashboard() {
+  const [days, setDays] = useState(30);
+  const [metric, setMetric] = useState<ChartMetric>('cost');
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the summary whenever the period changes
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+    const from = new Date(Date.now() - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+    setIsLoading(true);
+
+    fetch(`/api/usage?from=${from}`, { signal: controller.signal })
+      .then(async (response) => {
+        const data = await response.json().catch(() => null);
+        if (!response.ok) throw new Error(data?.error || 'Failed to load usage');
+        setSummary(data as UsageSummary);
+        setError(null);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        setError(error instanceof Error ? error.message : 'Failed to load usage');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [days]);
+
+  const chartMax = summary ? Math.max(...summary.byDay.map((day) => metricValue(day, metric)), 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <p className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </p>
+      )}
+
+      {/* Period */}
+      <div className="flex items-center gap-2">
+        {PERIOD_OPTIONS.map((option) => (
+          <button
+            key={option}
+            onClick={() => setDays(option)}
+            aria-pressed={days === option}
+            className={`px-3 py-1.5 text-sm font-medium border rounded-lg transition-colors ${
+              days === option
+                ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            Last {option} days
+          </button>
+        ))}
+        {isLoading && <span className="text-sm text-gray-500 dark:text-gray-400">Loading...</span>}
+      </div>
+
+      {summary && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            {[
+              { label: 'Calls', value: formatNumber(summary.totals.calls), detail: `${formatNumber(summary.totals.failedCalls)} failed` },
+              {
+                label: 'Tokens',
+                value: formatNumber(summary.totals.promptTokens + summary.totals.completionTokens),
+                detail: `${formatNumber(summary.totals.completionTokens)} generated`,
+              },
+              {
+                label: 'Estimated cost',
+                value: formatCost(summary.totals.costUsd),
+                detail: summary.totals.unpricedCalls > 0 ? `${formatNumber(summary.totals.unpricedCalls)} calls unpriced` : 'All calls priced',
+              },
+              { label: 'Average latency', value: formatLatency(summary.totals.averageLatencyMs), detail: `${summary.from} to ${summary.to}` },
+            ].map(({ label, value, detail }) => (
+              <div key={label} className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+                <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+                <p className="text-2xl font-semibold text-gray-900 dark:text-white tabular-nums">{value}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{detail}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily chart */}
+          <section className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Per day (UTC)</h2>
+              <div className="flex gap-1">
+                {CHART_METRICS.map((option) => (
+                  <button
+                    key={option.metric}
+                    onClick={() => setMetric(option.metric)}
+                    aria-pressed={metric === option.metric}
+                    className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+                      metric === option.metric
+                        ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+                        : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-end gap-px h-40" role="img" aria-label={`${metric} per day`}>
+              {summary.byDay.map((day) => {
+                const value = metricValue(day, metric);
+                return (
+                  <div
+                    key={day.day}
+                    className="flex-1 h-full flex items-end"
+                    title={`${day.day}: ${formatMetric(value, metric)}`}
+                  >
+                    <div
+                      className="w-full rounded-t bg-gradient-to-t from-blue-500 to-purple-600"
+                      style={{ height: chartMax > 0 ? `${(value / chartMax) * 100}%` : 0 }}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>{summary.from}</span>
+              <span>Peak {formatMetric(chartMax, metric)}</span>
+              <span>{summary.to}</span>
+            </div>
+          </section>
+
+          <UsageTable
+            title="By user"
+            rows={summary.byUser}
+            getKey={(row) => row.userId}
+            renderName={(row) => row.username}
+          />
+          <UsageTable
+            title="By model"
+            rows={summary.byModel}
+            getKey={(row) => `${row.provider}/${row.model}`}
+            renderName={(row) => (
+              <>
+                {row.model} <span className="text-gray-400 font-normal">({row.provider})</span>
+              </>
+            )}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+/**
+ * User Management Component
+ *
+ * Lets admins create users, change their roles, disable or re-enable them
+ * and reset their passwords.
+ */
+
+'use client';
+
+import React, { FormEvent, useCallback, useEffect, useState } from 'react';
+import { USER_ROLES } from '@/lib/roles';
+import type { UpdateUserRequest, User, UserRole } from '@/lib/types';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+interface UserManagementProps {
+  /** The signed-in admin, who can't disable themselves */
+  currentUserId: string;
+}
+
+/**
+ * Read the JSON body of an API response, throwing its error message on failure
+ */
+async function readResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || fallbackError);
+  }
+  return data as T;
+}
+
+/**
+ * User list with a form to add users
+ */
+export default function UserManagement({ currentUserId }: UserManagementProps) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // New user form
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('editor');
+  const [isCreating, setIsCreating] = useState(false);
+
+  /**
+   * Load the user list
+   */
+  useEffect(() => {
+    fetch('/api/users')
+      .then((response) => readResponse<{ users: User[] }>(response, 'Failed to load users'))
+      .then((data) => setUsers(data.users))
+      .catch((error) => setError(error instanceof Error ? error.message : 'Failed to load users'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleCreate = useCallback(async (event: FormEvent) => {
+    event.preventDefault();
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password, role }),
+      });
+      const { user } = await readResponse<{ user: User }>(response, 'Failed to create user');
+      setUsers((current) => [...current, user]);
+      setUsername('');
+      setPassword('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create user');
+    } finally {
+      setIsCreating(false);
+    }
+  }, [username, password, role]);
+
+  /**
+   * Apply a change to one user and replace it in the list
+   */
+  const updateUser = useCallback(async (id: string, changes: UpdateUserRequest) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/users/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const { user } = await readResponse<{ user: User }>(response, 'Failed to update user');
+      setUsers((current) => current.map((candidate) => (candidate.id === id ? user : candidate)));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update user');
+    }
+  }, []);
+
+  const handleResetPassword = useCallback((user: User) => {
+    const newPassword = window.prompt(`New password for ${user.username}`);
+    if (newPassword) updateUser(user.id, { password: newPassword });
+  }, [updateUser]);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <p className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </p>
+      )}
+
+      {/* New User */}
+      <form
+        onSubmit={handleCreate}
+        className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm flex flex-wrap items-end gap-3"
+      >
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Username
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+            className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300">
+          Role
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as UserRole)}
+            className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          >
+            {USER_ROLES.map((option) => (
+              <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+        >
+          {isCreating ? 'Adding...' : 'Add user'}
+        </button>
+      </form>
+
+      {/* User List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm overflow-x-auto">
+        {isLoading ? (
+          <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+              <tr>
+                <th className="px-4 py-2 font-medium">Username</th>
+                <th className="px-4 py-2 font-medium">Role</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2 font-medium sr-only">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((user) => (
+                <tr key={user.id} className="border-b last:border-0 border-gray-100 dark:border-gray-700">
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-gray-100">
+                    {user.username}
+                    {user.id === currentUserId && <span className="ml-1 text-gray-400">(you)</span>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={user.role}
+                      onChange={(e) => updateUser(user.id, { role: e.target.value as UserRole })}
+                      aria-label={`Role of ${user.username}`}
+                      className="px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+                    >
+                      {USER_ROLES.map((option) => (
+                        <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={user.disabled ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}>
+                      {user.disabled ? 'Disabled' : 'Active'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => handleResetPassword(user)}
+                        className="px-2 py-1 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        Reset password
+                      </button>
+                      <button
+                        onClick={() => updateUser(user.id, { disabled: !user.disabled })}
+                        disabled={user.id === currentUserId}
+                        className="px-2 py-1 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {user.disabled ? 'Enable' : 'Disable'}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
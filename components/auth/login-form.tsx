@@ -2,14 +2,23 @@
  * Login Form Component
  * 
  * Simple login form for authentication.
+ * After too many failed attempts it counts down the lockout the server reports.
  */
 
 'use client';
 
-import React, { useState, useCallback, FormEvent } from 'react';
+import React, { useState, useCallback, useEffect, FormEvent } from 'react';
+import type { LoginResponse } from '@/lib/types';
 
 interface LoginFormProps {
-  onLogin: (username: string, password: string) => Promise<boolean>;
+  onLogin: (username: string, password: string) => Promise<LoginResponse>;
+}
+
+/**
+ * Format a number of seconds as m:ss
+ */
+function formatRemaining(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
 }
 
 export default function LoginForm({ onLogin }: LoginFormProps) {
@@ -17,6 +26,30 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  // When the server accepts attempts again, and the seconds left until then
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [lockoutRemaining, setLockoutRemaining] = useState(0);
+  const isLockedOut = lockoutRemaining > 0;
+
+  /**
+   * Count the lockout down once a second
+   */
+  useEffect(() => {
+    if (lockedUntil === null) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+      setLockoutRemaining(remaining);
+      if (remaining === 0) {
+        setLockedUntil(null);
+        setError('');
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
 
   /**
    * Handle form submission
@@ -27,10 +60,16 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
     setIsLoading(true);
 
     try {
-      const success = await onLogin(username, password);
+      const result = await onLogin(username, password);
       
-      if (!success) {
-        setError('Invalid username or password');
+      if (result.retryAfter) {
+        setLockedUntil(Date.now() + result.retryAfter * 1000);
+        setError('Too many failed attempts.');
+      } else if (!result.success) {
+        // Wrong credentials in plain words, anything else as the server says it
+        setError(result.message && result.message !== 'Invalid credentials'
+          ? result.message
+          : 'Invalid username or password');
       }
     } catch (err) {
       setError('An error occurred. Please try again.');
@@ -122,7 +161,10 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
                     clipRule="evenodd"
                   />
                 </svg>
-                <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+                <p className="text-sm text-red-700 dark:text-red-300">
+                  {error}
+                  {isLockedOut && ` Try again in ${formatRemaining(lockoutRemaining)}.`}
+                </p>
               </div>
             </div>
           )}
@@ -131,7 +173,7 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
           <div>
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || isLockedOut}
               className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-semibold rounded-lg text-white bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
             >
               {isLoading ? (
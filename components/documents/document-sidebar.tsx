@@ -0,0 +1,135 @@
+/**
+ * Document Sidebar Component
+ *
+ * Lists the stored documents, most recently updated first, with who last
+ * saved them, and lets the user open, create, rename and delete them.
+ */
+
+'use client';
+
+import React from 'react';
+import type { DocumentSummary } from '@/lib/types';
+
+interface DocumentSidebarProps {
+  documents: DocumentSummary[];
+  activeId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string) => void;
+  onDelete: (id: string) => void;
+  /** Only list and open documents, e.g. for viewers */
+  readOnly?: boolean;
+}
+
+/**
+ * Format an ISO timestamp as a short local date and time
+ */
+function formatUpdatedAt(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Sidebar listing the user's documents
+ */
+export default function DocumentSidebar({
+  documents,
+  activeId,
+  isLoading,
+  error,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  readOnly = false,
+}: DocumentSidebarProps) {
+  return (
+    <aside className="w-full lg:w-64 flex-shrink-0 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Documents</h2>
+        {!readOnly && (
+          <button
+            onClick={onCreate}
+            className="px-2 py-1 text-sm font-medium text-white bg-blue-500 rounded-md hover:bg-blue-600 transition-colors"
+            title="New document"
+          >
+            + New
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {isLoading && documents.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : (
+        <ul className="space-y-1">
+          {documents.map((document) => {
+            const isActive = document.id === activeId;
+            return (
+              <li key={document.id} className="group flex items-center gap-1">
+                <button
+                  onClick={() => onSelect(document.id)}
+                  aria-current={isActive ? 'page' : undefined}
+                  className={`flex-1 min-w-0 text-left px-2 py-1.5 rounded-md transition-colors ${
+                    isActive
+                      ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className="block truncate text-sm font-medium">{document.title}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {formatUpdatedAt(document.updatedAt)}
+                    {document.updatedBy && ` · ${document.updatedBy}`}
+                  </span>
+                </button>
+                {!readOnly && (
+                  <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => onRename(document.id)}
+                      className="p-1 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                      title="Rename"
+                      aria-label={`Rename ${document.title}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                        />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => onDelete(document.id)}
+                      className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400"
+                      title="Delete"
+                      aria-label={`Delete ${document.title}`}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                        />
+                      </svg>
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Version History Component
+ *
+ * Lists the version snapshots of a document and shows a word diff of the
+ * selected one against the current content, with an option to restore it.
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { diffWords } from 'diff';
+import { editorSchema } from '@/lib/editor-schema';
+import { serializeMarkdown } from '@/lib/markdown';
+import type { DocumentVersion, DocumentVersionSummary, VersionTrigger } from '@/lib/types';
+
+const TRIGGER_LABELS: Record<VersionTrigger, string> = {
+  manual: 'Saved version',
+  autosave: 'Autosave',
+  ai: 'After AI edit',
+  restore: 'Before restore',
+};
+
+interface VersionHistoryProps {
+  documentId: string;
+  /** The document's current content as Markdown, the right side of the diff */
+  currentContent: string;
+  /** Change it to reload the list, e.g. after a version was recorded */
+  refreshKey: number;
+  /** Record a version, the button is hidden when not given */
+  onSaveVersion?: () => void;
+  /** Restore a version, the button is hidden when not given */
+  onRestore?: (version: DocumentVersion) => void;
+  onClose: () => void;
+}
+
+/**
+ * Format an ISO timestamp as a local date and time
+ */
+function formatCreatedAt(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+/**
+ * Version history panel with diff and restore
+ */
+export default function VersionHistory({
+  documentId,
+  currentContent,
+  refreshKey,
+  onSaveVersion,
+  onRestore,
+  onClose,
+}: VersionHistoryProps) {
+  const [versions, setVersions] = useState<DocumentVersionSummary[]>([]);
+  const [selected, setSelected] = useState<DocumentVersion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the version list
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/documents/${documentId}/versions`, { signal: controller.signal })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load versions');
+        setVersions(data.versions);
+        setError(null);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          setError(error instanceof Error ? error.message : 'Failed to load versions');
+        }
+      });
+
+    return () => controller.abort();
+  }, [documentId, refreshKey]);
+
+  /**
+   * Load a version's content to diff it
+   */
+  const handleSelect = async (versionId: string) => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/versions/${versionId}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load version');
+      setSelected(data.version);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load version');
+    }
+  };
+
+  // What changed from the selected version to the current content
+  const changes = useMemo(() => {
+    if (!selected) return null;
+    const versionContent = serializeMarkdown(editorSchema.nodeFromJSON(selected.content));
+    return diffWords(versionContent, currentContent);
+  }, [selected, currentContent]);
+
+  return (
+    <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Version history</h3>
+        <div className="flex items-center gap-2">
+          {onSaveVersion && (
+            <button
+              onClick={onSaveVersion}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              Save version
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <ul className="space-y-1 max-h-80 overflow-y-auto">
+          {versions.length === 0 && (
+            <li className="text-sm text-gray-500 dark:text-gray-400">No versions yet</li>
+          )}
+          {versions.map((version) => (
+            <li key={version.id}>
+              <button
+                onClick={() => handleSelect(version.id)}
+                aria-pressed={selected?.id === version.id}
+                className={`w-full text-left px-2 py-1.5 rounded-md transition-colors ${
+                  selected?.id === version.id
+                    ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                <span className="block truncate text-sm font-medium">
+                  {version.name ?? TRIGGER_LABELS[version.trigger]}
+                </span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {formatCreatedAt(version.createdAt)}
+                  {version.createdBy && ` · ${version.createdBy}`}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="md:col-span-2">
+          {selected && changes ? (
+            <>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Changes since this version:{' '}
+                  <span className="text-red-700 dark:text-red-400 line-through">removed</span>,{' '}
+                  <span className="text-green-700 dark:text-green-400">added</span>
+                </p>
+                {onRestore && (
+                  <button
+                    onClick={() => onRestore(selected)}
+                    className="px-3 py-1 text-sm font-medium text-blue-700 dark:text-blue-300 border border-blue-300 dark:border-blue-700 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+                  >
+                    Restore this version
+                  </button>
+                )}
+              </div>
+              <div className="p-3 max-h-80 overflow-y-auto rounded-md bg-gray-50 dark:bg-gray-900 text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap font-mono">
+                {changes.map((change, index) => (
+                  <span
+                    key={index}
+                    className={
+                      change.added
+                        ? 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-300'
+                        : change.removed
+                          ? 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-300 line-through'
+                          : undefined
+                    }
+                  >
+                    {change.value}
+                  </span>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Select a version to compare it with the current document.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Candidate Panel Component
+ * 
+ * Lists alternative AI continuations so the user can pick the one shown
+ * as ghost text, as an alternative to cycling with Alt+[ / Alt+].
+ */
+
+'use client';
+
+import React, { MouseEvent } from 'react';
+
+interface CandidatePanelProps {
+  candidates: string[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onAccept: () => void;
+}
+
+/**
+ * Keep the editor focused when a candidate is clicked
+ */
+function preventFocusLoss(event: MouseEvent) {
+  event.preventDefault();
+}
+
+/**
+ * Panel listing the alternative continuations
+ */
+export default function CandidatePanel({
+  candidates,
+  selectedIndex,
+  onSelect,
+  onAccept,
+}: CandidatePanelProps) {
+  return (
+    <div
+      className="mt-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm"
+      onMouseDown={preventFocusLoss}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          Suggestion {selectedIndex + 1} of {candidates.length}
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Alt+[ / Alt+] to cycle, Tab to accept
+          </span>
+          <button
+            onClick={onAccept}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            Accept
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {candidates.map((candidate, index) => (
+          <li key={index}>
+            <button
+              onClick={() => onSelect(index)}
+              aria-pressed={index === selectedIndex}
+              className={`w-full p-3 text-left text-sm rounded-lg border transition-colors ${
+                index === selectedIndex
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-gray-900 dark:text-gray-100'
+                  : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {candidate.trim()}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
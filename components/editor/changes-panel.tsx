@@ -0,0 +1,135 @@
+/**
+ * Changes Panel Component
+ *
+ * Lists the suggested changes in the document, each with who made it, and
+ * lets editors accept or reject them one by one or all at once. Selecting
+ * a change selects its text in the editor.
+ */
+
+'use client';
+
+import React from 'react';
+import type { TrackedChange } from '@/lib/track-changes';
+
+interface ChangesPanelProps {
+  changes: TrackedChange[];
+  onSelect: (changeId: string) => void;
+  /** Accept or reject the given change, or all changes when none is given */
+  onAccept: (changeId?: string) => void;
+  onReject: (changeId?: string) => void;
+  /** Hide accepting and rejecting, e.g. for viewers */
+  readOnly?: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Who made a change: the user, or the AI and who asked it
+ */
+function describeAuthor(change: TrackedChange): string {
+  const author = change.author ?? 'Unknown';
+  if (!change.ai) return author;
+  const ai = change.model ? `AI (${change.model})` : 'AI';
+  return change.author ? `${ai} for ${author}` : ai;
+}
+
+/**
+ * Format an ISO timestamp as a local date and time
+ */
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Tracked changes panel
+ */
+export default function ChangesPanel({
+  changes,
+  onSelect,
+  onAccept,
+  onReject,
+  readOnly = false,
+  onClose,
+}: ChangesPanelProps) {
+  const buttonClassName =
+    'px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const primaryButtonClassName =
+    'px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          Suggested changes{changes.length > 0 && ` (${changes.length})`}
+        </h3>
+        <div className="flex gap-2">
+          {!readOnly && changes.length > 0 && (
+            <>
+              <button onClick={() => onAccept()} className={primaryButtonClassName}>
+                Accept all
+              </button>
+              <button onClick={() => onReject()} className={buttonClassName}>
+                Reject all
+              </button>
+            </>
+          )}
+          <button onClick={onClose} className={buttonClassName}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No suggested changes. Turn on track changes to keep edits as suggestions.
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {changes.map((change) => (
+            <li
+              key={change.id}
+              className="flex items-start justify-between gap-3 p-2 rounded-md border border-gray-200 dark:border-gray-700"
+            >
+              <button
+                onClick={() => onSelect(change.id)}
+                className="min-w-0 flex-1 text-left"
+                title="Show in document"
+              >
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  <span className={change.ai ? 'text-purple-700 dark:text-purple-300' : 'font-medium text-gray-700 dark:text-gray-300'}>
+                    {describeAuthor(change)}
+                  </span>
+                  {change.timestamp && ` · ${formatTimestamp(change.timestamp)}`}
+                </p>
+                {change.deleted && (
+                  <p className="text-sm line-clamp-2">
+                    <del className="tracked-deletion">{change.deleted}</del>
+                  </p>
+                )}
+                {change.inserted && (
+                  <p className="text-sm line-clamp-2">
+                    <ins className="tracked-insertion">{change.inserted}</ins>
+                  </p>
+                )}
+              </button>
+              {!readOnly && (
+                <div className="flex shrink-0 gap-2">
+                  <button onClick={() => onAccept(change.id)} className={primaryButtonClassName}>
+                    Accept
+                  </button>
+                  <button onClick={() => onReject(change.id)} className={buttonClassName}>
+                    Reject
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Chat Panel Component
+ *
+ * Side panel for chatting with the AI about the open document. Each message
+ * is sent with the document and the selected text as context; replies can
+ * be inserted at the cursor or replace the selection.
+ */
+
+'use client';
+
+import React, { useEffect, useRef, useState, KeyboardEvent } from 'react';
+import type { ChatMessage } from '@/lib/types';
+
+interface ChatPanelProps {
+  /** Oldest first */
+  messages: ChatMessage[];
+  /** The reply streaming in, null while none is */
+  reply: string | null;
+  isSending: boolean;
+  error?: string | null;
+  /** The text selected in the editor, sent along with a message */
+  selection: string;
+  onSend: (message: string) => Promise<void>;
+  onStop: () => void;
+  onClear: () => Promise<void>;
+  /** Put a reply into the document at the cursor, or in place of the selection */
+  onInsert: (message: ChatMessage) => void;
+  onReplace: (message: ChatMessage) => void;
+  onClose: () => void;
+}
+
+/**
+ * Format an ISO timestamp as a local time
+ */
+function formatCreatedAt(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Document chat panel
+ */
+export default function ChatPanel({
+  messages,
+  reply,
+  isSending,
+  error = null,
+  selection,
+  onSend,
+  onStop,
+  onClear,
+  onInsert,
+  onReplace,
+  onClose,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages, reply]);
+
+  const handleSend = async () => {
+    const message = draft.trim();
+    if (!message || isSending) return;
+    setDraft('');
+    await onSend(message);
+  };
+
+  // Enter sends, Shift+Enter starts a new line
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await onClear();
+      setActionError(null);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Something went wrong');
+    }
+  };
+
+  const buttonClassName =
+    'px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const primaryButtonClassName =
+    'px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <aside className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Chat</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={handleClear}
+            disabled={isSending || messages.length === 0}
+            className={buttonClassName}
+            title="Start the conversation over"
+          >
+            Clear
+          </button>
+          <button onClick={onClose} className={buttonClassName}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      {(actionError || error) && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">{actionError || error}</p>
+      )}
+
+      {messages.length === 0 && reply === null && (
+        <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+          Ask about the document, or for text to add to it. The document and your selection are sent along.
+        </p>
+      )}
+
+      <ul ref={listRef} className="space-y-3 max-h-[28rem] overflow-y-auto">
+        {messages.map((message) => (
+          <li
+            key={message.id}
+            className={`p-2 rounded-md ${
+              message.role === 'user'
+                ? 'ml-6 bg-blue-50 dark:bg-blue-900/20'
+                : 'mr-6 bg-gray-50 dark:bg-gray-900/40'
+            }`}
+          >
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              <span className={message.ai ? 'text-purple-700 dark:text-purple-300' : 'font-medium text-gray-700 dark:text-gray-300'}>
+                {message.ai ? `AI (${message.ai.model})` : message.author}
+              </span>
+              {' · '}
+              {formatCreatedAt(message.createdAt)}
+            </p>
+            {message.selection && (
+              <blockquote className="mt-1 pl-2 border-l-2 border-blue-300 text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+                {message.selection}
+              </blockquote>
+            )}
+            <p className="mt-1 text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{message.content}</p>
+            {message.role === 'assistant' && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                <button onClick={() => onInsert(message)} className={buttonClassName} title="Insert the reply at the cursor">
+                  Insert at cursor
+                </button>
+                <button
+                  onClick={() => onReplace(message)}
+                  disabled={!selection}
+                  className={buttonClassName}
+                  title={selection ? 'Replace the selected text with the reply' : 'Select text in the document first'}
+                >
+                  Replace selection
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+        {reply !== null && (
+          <li className="mr-6 p-2 rounded-md bg-gray-50 dark:bg-gray-900/40">
+            <p className="text-xs text-purple-700 dark:text-purple-300">AI is typing...</p>
+            <p className="mt-1 text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{reply}</p>
+          </li>
+        )}
+      </ul>
+
+      <div className="mt-3 space-y-2">
+        {selection && (
+          <blockquote
+            className="pl-2 border-l-2 border-blue-300 text-xs text-gray-600 dark:text-gray-400 line-clamp-2"
+            title="The selected text is sent with your message"
+          >
+            {selection}
+          </blockquote>
+        )}
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={3}
+          placeholder={selection ? 'Ask about the selection' : 'Ask about the document'}
+          className="w-full px-2 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+        />
+        <div className="flex gap-2">
+          {isSending ? (
+            <button onClick={onStop} className={buttonClassName}>
+              Stop
+            </button>
+          ) : (
+            <button onClick={handleSend} disabled={!draft.trim()} className={primaryButtonClassName}>
+              Send
+            </button>
+          )}
+        </div>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Comments Panel Component
+ *
+ * Side panel with the review threads of a document: start a thread on the
+ * selected text, reply, resolve and reopen threads, and ask the AI about
+ * the commented passage. Selecting a thread selects its text in the editor.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import type { CommentMessage, CommentThread } from '@/lib/types';
+
+interface CommentsPanelProps {
+  threads: CommentThread[];
+  /** Ids of the threads whose text is still in the document */
+  anchoredThreadIds: string[];
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+  /** The selected text a new thread is being started on, null when none is */
+  draftQuote: string | null;
+  onCreate: (body: string) => Promise<void>;
+  onCancelDraft: () => void;
+  onReply: (threadId: string, body: string) => Promise<void>;
+  onResolve: (threadId: string, resolved: boolean) => Promise<void>;
+  onAskAI: (threadId: string) => Promise<void>;
+  /** Hide replying, resolving and asking the AI, e.g. for viewers */
+  readOnly?: boolean;
+  error?: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Format an ISO timestamp as a local date and time
+ */
+function formatCreatedAt(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Who wrote a message: the user, or the AI and who asked it
+ */
+function describeAuthor(message: CommentMessage): string {
+  if (!message.ai) return message.author;
+  return `AI (${message.ai.model}) for ${message.author}`;
+}
+
+/**
+ * Comment threads panel
+ */
+export default function CommentsPanel({
+  threads,
+  anchoredThreadIds,
+  activeThreadId,
+  onSelect,
+  draftQuote,
+  onCreate,
+  onCancelDraft,
+  onReply,
+  onResolve,
+  onAskAI,
+  readOnly = false,
+  error = null,
+  onClose,
+}: CommentsPanelProps) {
+  const [showResolved, setShowResolved] = useState(false);
+  const [draftBody, setDraftBody] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  // The thread waiting for a server response, '' for the new thread
+  const [pendingThreadId, setPendingThreadId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const visibleThreads = threads.filter((thread) => showResolved || !thread.resolved);
+  const resolvedCount = threads.filter((thread) => thread.resolved).length;
+
+  /**
+   * Run a server action for a thread, showing its error in the panel
+   */
+  const run = async (threadId: string, action: () => Promise<void>): Promise<boolean> => {
+    setPendingThreadId(threadId);
+    try {
+      await action();
+      setActionError(null);
+      return true;
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : 'Something went wrong');
+      return false;
+    } finally {
+      setPendingThreadId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (await run('', () => onCreate(draftBody))) setDraftBody('');
+  };
+
+  const handleReply = async (threadId: string) => {
+    if (await run(threadId, () => onReply(threadId, replies[threadId] ?? ''))) {
+      setReplies((current) => ({ ...current, [threadId]: '' }));
+    }
+  };
+
+  const buttonClassName =
+    'px-2 py-1 text-xs font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const primaryButtonClassName =
+    'px-2 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const textareaClassName =
+    'w-full px-2 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white';
+
+  return (
+    <aside className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Comments</h3>
+        <button onClick={onClose} className={buttonClassName}>
+          Close
+        </button>
+      </div>
+
+      {(actionError || error) && (
+        <p className="mb-2 text-sm text-red-600 dark:text-red-400">{actionError || error}</p>
+      )}
+
+      {/* New thread on the selected text */}
+      {draftQuote !== null && !readOnly && (
+        <div className="mb-3 p-2 space-y-2 rounded-md border border-blue-300 dark:border-blue-700">
+          <blockquote className="pl-2 border-l-2 border-yellow-400 text-xs text-gray-600 dark:text-gray-400 line-clamp-3">
+            {draftQuote}
+          </blockquote>
+          <textarea
+            value={draftBody}
+            onChange={(e) => setDraftBody(e.target.value)}
+            rows={3}
+            placeholder="Add a comment"
+            autoFocus
+            className={textareaClassName}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleCreate}
+              disabled={pendingThreadId !== null || !draftBody.trim()}
+              className={primaryButtonClassName}
+            >
+              {pendingThreadId === '' ? 'Saving...' : 'Comment'}
+            </button>
+            <button onClick={onCancelDraft} disabled={pendingThreadId === ''} className={buttonClassName}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {visibleThreads.length === 0 && draftQuote === null && (
+        <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
+          {readOnly ? 'No open comments.' : 'No open comments. Select some text and choose Comment to start one.'}
+        </p>
+      )}
+
+      <ul className="space-y-3 max-h-[32rem] overflow-y-auto">
+        {visibleThreads.map((thread) => {
+          const isActive = thread.id === activeThreadId;
+          const isAnchored = anchoredThreadIds.includes(thread.id);
+          const isPending = pendingThreadId === thread.id;
+          const reply = replies[thread.id] ?? '';
+
+          return (
+            <li
+              key={thread.id}
+              className={`p-2 rounded-md border transition-colors ${
+                isActive
+                  ? 'border-yellow-400 dark:border-yellow-600 bg-yellow-50 dark:bg-yellow-900/20'
+                  : 'border-gray-200 dark:border-gray-700'
+              } ${thread.resolved ? 'opacity-70' : ''}`}
+            >
+              <button
+                onClick={() => onSelect(thread.id)}
+                disabled={!isAnchored}
+                className="w-full text-left"
+                title={isAnchored ? 'Show in document' : undefined}
+              >
+                <blockquote className="pl-2 border-l-2 border-yellow-400 text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+                  {thread.quote}
+                </blockquote>
+                {!isAnchored && (
+                  <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    The commented text was removed
+                  </span>
+                )}
+              </button>
+
+              <ul className="mt-2 space-y-2">
+                {thread.messages.map((message) => (
+                  <li key={message.id}>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      <span className={message.ai ? 'text-purple-700 dark:text-purple-300' : 'font-medium text-gray-700 dark:text-gray-300'}>
+                        {describeAuthor(message)}
+                      </span>
+                      {' · '}
+                      {formatCreatedAt(message.createdAt)}
+                    </p>
+                    <p className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{message.body}</p>
+                  </li>
+                ))}
+              </ul>
+
+              {thread.resolved && thread.resolvedBy && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Resolved by {thread.resolvedBy}
+                </p>
+              )}
+
+              {!readOnly && (
+                <div className="mt-2 space-y-2">
+                  {!thread.resolved && (
+                    <textarea
+                      value={reply}
+                      onChange={(e) => setReplies((current) => ({ ...current, [thread.id]: e.target.value }))}
+                                rows={2}
+                      placeholder="Reply"
+                      className={textareaClassName}
+                    />
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {!thread.resolved && (
+                      <>
+                        <button
+                          onClick={() => handleReply(thread.id)}
+                          disabled={isPending || !reply.trim()}
+                          className={primaryButtonClassName}
+                        >
+                          Reply
+                        </button>
+                        <button
+                          onClick={() => run(thread.id, () => onAskAI(thread.id))}
+                          disabled={isPending}
+                          className={buttonClassName}
+                          title="Post an AI answer to this thread"
+                        >
+                          {isPending ? 'Working...' : 'Ask AI about this'}
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => run(thread.id, () => onResolve(thread.id, !thread.resolved))}
+                      disabled={isPending}
+                      className={buttonClassName}
+                    >
+                      {thread.resolved ? 'Reopen' : 'Resolve'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {resolvedCount > 0 && (
+        <label className="mt-3 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={showResolved}
+            onChange={(e) => setShowResolved(e.target.checked)}
+          />
+          Show {resolvedCount} resolved
+        </label>
+      )}
+    </aside>
+  );
+}
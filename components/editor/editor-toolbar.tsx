@@ -1,16 +1,141 @@
 /**
  * Editor Toolbar Component
  * 
- * Provides UI controls for the editor, including the "Continue Writing" button.
+ * Provides UI controls for the editor, including the "Continue Writing" and "Stop" buttons,
+ * Markdown import/export, version history, comments, the document chat, tracked changes, generation settings,
+ * prompt templates, AI text highlighting, the remaining AI quota and a row of formatting buttons that reflect the marks and blocks at the selection.
  */
 
 'use client';
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useRef, ChangeEvent, MouseEvent } from 'react';
+import type { ActiveFormats, FormatAction } from '@/lib/formatting';
+import { findTemplateVariables } from '@/lib/prompt-templates';
+import { TRANSFORM_TONES } from '@/lib/transform-operations';
+import type { TrackChangesMode } from '@/lib/track-changes';
+import type { AIQuota, PromptTemplate, TransformTone } from '@/lib/types';
+
+/**
+ * Choices offered for the number of alternative continuations
+ */
+const CANDIDATE_COUNT_OPTIONS = [1, 2, 3];
+
+/**
+ * Files offered by the Import picker
+ */
+const MARKDOWN_FILE_TYPES = '.md,.markdown,text/markdown,text/plain';
+
+/**
+ * Choices offered for which edits become tracked changes
+ */
+const TRACK_CHANGES_OPTIONS: { mode: TrackChangesMode; label: string }[] = [
+  { mode: 'off', label: 'Edit directly' },
+  { mode: 'ai', label: 'Suggest AI edits' },
+  { mode: 'all', label: 'Suggest all edits' },
+];
+
+/**
+ * Formatting buttons, grouped: inline marks, block types, wrappers
+ */
+const FORMAT_BUTTON_GROUPS: { action: FormatAction; label: string; title: string; className?: string }[][] = [
+  [
+    { action: 'strong', label: 'B', title: 'Bold (Mod-B)', className: 'font-bold' },
+    { action: 'em', label: 'I', title: 'Italic (Mod-I)', className: 'italic' },
+    { action: 'code', label: '</>', title: 'Inline code (Mod-`)', className: 'font-mono' },
+    { action: 'link', label: 'Link', title: 'Add or remove link', className: 'underline' },
+  ],
+  [
+    { action: 'paragraph', label: 'P', title: 'Paragraph (Shift-Ctrl-0)' },
+    { action: 'heading1', label: 'H1', title: 'Heading 1 (Shift-Ctrl-1)' },
+    { action: 'heading2', label: 'H2', title: 'Heading 2 (Shift-Ctrl-2)' },
+    { action: 'heading3', label: 'H3', title: 'Heading 3 (Shift-Ctrl-3)' },
+  ],
+  [
+    { action: 'bullet_list', label: '• List', title: 'Bullet list (Shift-Ctrl-8)' },
+    { action: 'ordered_list', label: '1. List', title: 'Numbered list (Shift-Ctrl-9)' },
+    { action: 'blockquote', label: 'Quote', title: 'Blockquote (Ctrl->)' },
+    { action: 'code_block', label: 'Code', title: 'Code block (Shift-Ctrl-\\)', className: 'font-mono' },
+  ],
+];
+
+/**
+ * Describe the remaining quota, or null when nothing is limited
+ */
+function describeQuota(quota: AIQuota): { label: string; title: string } | null {
+  if (quota.tokensRemaining === null && quota.requestsPerMinute === null) return null;
+
+  const label = quota.tokensRemaining === null
+    ? 'Unlimited AI tokens today'
+    : `${quota.tokensRemaining.toLocaleString()} AI tokens left today`;
+  const title = [
+    quota.dailyTokenBudget !== null &&
+      `${quota.tokensUsedToday.toLocaleString()} of ${quota.dailyTokenBudget.toLocaleString()} tokens used, resets at ${new Date(quota.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+    quota.requestsPerMinute !== null && `Up to ${quota.requestsPerMinute} requests per minute`,
+  ].filter(Boolean).join('\n');
+
+  return { label, title };
+}
+
+/**
+ * Keep the editor selection when a formatting button is pressed
+ */
+function preventFocusLoss(event: MouseEvent) {
+  event.preventDefault();
+}
 
 interface EditorToolbarProps {
   onContinueWriting: () => void;
   onReset: () => void;
+  onStop: () => void;
+  /** Load a Markdown file into the editor, replacing the document */
+  onImport: (file: File) => void;
+  /** Download the document as a Markdown file */
+  onExport: () => void;
+  /** Show or hide version history, the button is hidden when not given */
+  onToggleHistory?: () => void;
+  isHistoryOpen?: boolean;
+  /** Show or hide the comments panel, the button is hidden when not given */
+  onToggleComments?: () => void;
+  isCommentsOpen?: boolean;
+  /** Open comment threads, counted on the Comments button */
+  openCommentCount?: number;
+  /** Show or hide the chat panel, the button is hidden when not given */
+  onToggleChat?: () => void;
+  isChatOpen?: boolean;
+  /** Show or hide the tracked changes panel */
+  onToggleChanges: () => void;
+  isChangesOpen: boolean;
+  /** Pending tracked changes, counted on the Changes button */
+  changeCount: number;
+  /** Which edits are tracked as suggestions */
+  trackChangesMode: TrackChangesMode;
+  onTrackChangesModeChange: (mode: TrackChangesMode) => void;
+  /** Show or hide the generation settings */
+  onToggleSettings: () => void;
+  isSettingsOpen: boolean;
+  /** Prompt templates offered next to Continue, null for the plain continuation */
+  templates: PromptTemplate[];
+  templateId: string | null;
+  onTemplateChange: (templateId: string | null) => void;
+  /** Value of {{tone}}, picked when the chosen template uses it */
+  tone: TransformTone;
+  onToneChange: (tone: TransformTone) => void;
+  /** Show or hide the template library */
+  onToggleTemplates: () => void;
+  isTemplatesOpen: boolean;
+  /** Hide the editing, import and AI controls, e.g. for viewers */
+  readOnly?: boolean;
+  /** Whether AI-written text is highlighted in the editor */
+  showAIHighlights: boolean;
+  onToggleAIHighlights: () => void;
+  /** How many alternative continuations to request */
+  candidateCount: number;
+  onCandidateCountChange: (count: number) => void;
+  /** The user's AI quota, shown under the title when loaded */
+  quota?: AIQuota | null;
+  /** Formatting at the selection, null before the editor is ready */
+  activeFormats: ActiveFormats | null;
+  onFormat: (action: FormatAction) => void;
   isLoading: boolean;
   disabled: boolean;
 }
@@ -21,6 +146,38 @@ interface EditorToolbarProps {
 export default function EditorToolbar({
   onContinueWriting,
   onReset,
+  onStop,
+  onImport,
+  onExport,
+  onToggleHistory,
+  isHistoryOpen = false,
+  onToggleComments,
+  isCommentsOpen = false,
+  openCommentCount = 0,
+  onToggleChat,
+  isChatOpen = false,
+  onToggleChanges,
+  isChangesOpen,
+  changeCount,
+  trackChangesMode,
+  onTrackChangesModeChange,
+  onToggleSettings,
+  isSettingsOpen,
+  templates,
+  templateId,
+  onTemplateChange,
+  tone,
+  onToneChange,
+  onToggleTemplates,
+  isTemplatesOpen,
+  readOnly = false,
+  showAIHighlights,
+  onToggleAIHighlights,
+  candidateCount,
+  onCandidateCountChange,
+  quota = null,
+  activeFormats,
+  onFormat,
   isLoading,
   disabled,
 }: EditorToolbarProps) {
@@ -39,99 +196,369 @@ export default function EditorToolbar({
     onReset();
   }, [onReset]);
 
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Hand the picked file to the editor
+   * The input is cleared so picking the same file again still fires a change
+   */
+  const handleFileChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImport(file);
+  }, [onImport]);
+
+  const quotaInfo = !readOnly && quota ? describeQuota(quota) : null;
+
+  const template = templates.find((candidate) => candidate.id === templateId);
+  const usesTone = template ? findTemplateVariables(template.prompt).includes('tone') : false;
+
   return (
-    <div className="mb-4 flex items-center justify-between gap-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-      <div className="flex items-center gap-2">
-        {/* AI Icon */}
-        <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
-          <svg
-            className="w-5 h-5 text-white"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M13 10V3L4 14h7v7l9-11h-7z"
-            />
-          </svg>
-        </div>
-        <div>
-          <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-            AI Writing Assistant
-          </h2>
-          <p className="text-xs text-gray-500 dark:text-gray-400">
-            Type your text and let AI continue
-          </p>
+    <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          {/* AI Icon */}
+          <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+            <svg
+              className="w-5 h-5 text-white"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M13 10V3L4 14h7v7l9-11h-7z"
+              />
+            </svg>
+          </div>
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+              AI Writing Assistant
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {readOnly ? 'Read-only, you can view and export' : 'Tab accepts a suggestion, Esc dismisses it'}
+            </p>
+            {quotaInfo && (
+              <p
+                className={`text-xs ${
+                  quota?.tokensRemaining === 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                }`}
+                title={quotaInfo.title}
+              >
+                {quotaInfo.label}
+              </p>
+            )}
+          </div>
         </div>
-      </div>
 
-      <div className="flex items-center gap-2">
-        {/* Reset Button */}
-        <button
-          onClick={handleResetClick}
-          disabled={isLoading}
-          className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          title="Clear editor"
-          aria-label="Clear editor"
-        >
-          <svg
-            className="w-4 h-4"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-            />
-          </svg>
-        </button>
-
-        {/* Continue Writing Button */}
-        <button
-          onClick={handleContinueClick}
-          disabled={disabled}
-          className={`
-            px-6 py-2 text-sm font-semibold text-white rounded-lg
-            transition-all duration-200 flex items-center gap-2
-            ${
-              disabled
-                ? 'bg-gray-400 dark:bg-gray-600 cursor-not-allowed'
-                : 'bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 shadow-md hover:shadow-lg'
-            }
-          `}
-          aria-label="Continue writing with AI"
-        >
-          {isLoading ? (
+        <div className="flex items-center gap-2">
+          {/* Markdown Import / Export */}
+          {!readOnly && (
             <>
-              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              <span>Generating...</span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={MARKDOWN_FILE_TYPES}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isLoading}
+                className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Import a Markdown file"
+              >
+                Import
+              </button>
             </>
-          ) : (
+          )}
+          <button
+            onClick={onExport}
+            disabled={isLoading}
+            className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Download as Markdown"
+          >
+            Export
+          </button>
+          {onToggleHistory && (
+            <button
+              onClick={onToggleHistory}
+              aria-pressed={isHistoryOpen}
+              className={`px-3 py-2 text-sm font-medium border rounded-lg transition-colors ${
+                isHistoryOpen
+                  ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                  : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+              }`}
+              title="Version history"
+            >
+              History
+            </button>
+          )}
+          {onToggleComments && (
+            <button
+              onClick={onToggleComments}
+              aria-pressed={isCommentsOpen}
+              className={`px-3 py-2 text-sm font-medium border rounded-lg transition-colors ${
+                isCommentsOpen
+                  ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                  : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+              }`}
+              title="Comment threads"
+            >
+              Comments{openCommentCount > 0 && ` (${openCommentCount})`}
+            </button>
+          )}
+          {onToggleChat && (
+            <button
+              onClick={onToggleChat}
+              aria-pressed={isChatOpen}
+              className={`px-3 py-2 text-sm font-medium border rounded-lg transition-colors ${
+                isChatOpen
+                  ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                  : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+              }`}
+              title="Chat with the AI about the document"
+            >
+              Chat
+            </button>
+          )}
+          <button
+            onClick={onToggleChanges}
+            aria-pressed={isChangesOpen}
+            className={`px-3 py-2 text-sm font-medium border rounded-lg transition-colors ${
+              isChangesOpen
+                ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+            }`}
+            title="Suggested changes"
+          >
+            Changes{changeCount > 0 && ` (${changeCount})`}
+          </button>
+          <button
+            onClick={onToggleAIHighlights}
+            aria-pressed={showAIHighlights}
+            className={`px-3 py-2 text-sm font-medium border rounded-lg transition-colors ${
+              showAIHighlights
+                ? 'bg-purple-100 dark:bg-purple-900/40 border-purple-300 dark:border-purple-700 text-purple-700 dark:text-purple-300'
+                : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+            }`}
+            title="Highlight text written by AI"
+          >
+            AI text
+          </button>
+
+          {/* Editing and AI controls, hidden for viewers */}
+          {!readOnly && (
             <>
-              <svg
-                className="w-4 h-4"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+              {/* Which edits become suggestions */}
+              <select
+                value={trackChangesMode}
+                onChange={(e) => onTrackChangesModeChange(e.target.value as TrackChangesMode)}
+                className="px-2 py-2 text-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg"
+                title="Track changes: keep edits as suggestions to accept or reject"
+                aria-label="Track changes"
+              >
+                {TRACK_CHANGES_OPTIONS.map((option) => (
+                  <option key={option.mode} value={option.mode}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={onToggleSettings}
+                aria-pressed={isSettingsOpen}
+                className={`px-3 py-2 text-sm font-medium border rounded-lg transition-colors ${
+                  isSettingsOpen
+                    ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                    : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+                }`}
+                title="Model, temperature, length and instructions"
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
-                />
-              </svg>
-              <span>Continue Writing</span>
+                Settings
+              </button>
+              <button
+                onClick={onToggleTemplates}
+                aria-pressed={isTemplatesOpen}
+                className={`px-3 py-2 text-sm font-medium border rounded-lg transition-colors ${
+                  isTemplatesOpen
+                    ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                    : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+                }`}
+                title="Manage prompt templates"
+              >
+                Templates
+              </button>
+
+              {/* Reset Button */}
+              <button
+                onClick={handleResetClick}
+                disabled={isLoading}
+                className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Clear editor"
+                aria-label="Clear editor"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+
+              {/* Stop Button - only while generating */}
+              {isLoading && (
+                <button
+                  onClick={onStop}
+                  className="px-3 py-2 text-sm font-medium text-red-700 dark:text-red-300 bg-white dark:bg-gray-700 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors flex items-center gap-2"
+                  title="Stop generating (Esc)"
+                  aria-label="Stop generating"
+                >
+                  <svg
+                    className="w-4 h-4"
+                    fill="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <rect x="6" y="6" width="12" height="12" rx="1" />
+                  </svg>
+                  <span>Stop</span>
+                </button>
+              )}
+
+              {/* Number of alternatives to generate */}
+              <select
+                value={candidateCount}
+                onChange={(e) => onCandidateCountChange(Number(e.target.value))}
+                disabled={isLoading}
+                className="px-2 py-2 text-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg disabled:opacity-50"
+                title="Number of suggestions (Alt+[ / Alt+] to cycle)"
+                aria-label="Number of suggestions"
+              >
+                {CANDIDATE_COUNT_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? '1 suggestion' : `${count} suggestions`}
+                  </option>
+                ))}
+              </select>
+
+              {/* Prompt template, and its tone when it has one */}
+              <select
+                value={templateId ?? ''}
+                onChange={(e) => onTemplateChange(e.target.value || null)}
+                disabled={isLoading}
+                className="max-w-[12rem] px-2 py-2 text-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg disabled:opacity-50"
+                title="Prompt template"
+                aria-label="Prompt template"
+              >
+                <option value="">Continue</option>
+                {templates.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.name}
+                  </option>
+                ))}
+              </select>
+              {usesTone && (
+                <select
+                  value={tone}
+                  onChange={(e) => onToneChange(e.target.value as TransformTone)}
+                  disabled={isLoading}
+                  className="px-2 py-2 text-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg capitalize disabled:opacity-50"
+                  title="Tone"
+                  aria-label="Tone"
+                >
+                  {TRANSFORM_TONES.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              {/* Continue Writing Button */}
+              <button
+                onClick={handleContinueClick}
+                disabled={disabled}
+                className={`
+                  px-6 py-2 text-sm font-semibold text-white rounded-lg
+                  transition-all duration-200 flex items-center gap-2
+                  ${
+                    disabled
+                      ? 'bg-gray-400 dark:bg-gray-600 cursor-not-allowed'
+                      : 'bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 shadow-md hover:shadow-lg'
+                  }
+                `}
+                aria-label="Continue writing with AI"
+              >
+                {isLoading ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    <span>Generating...</span>
+                  </>
+                ) : (
+                  <>
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                      />
+                    </svg>
+                    <span>Continue Writing</span>
+                  </>
+                )}
+              </button>
             </>
           )}
-        </button>
+        </div>
       </div>
+
+      {/* Formatting Buttons */}
+      {!readOnly && (
+        <div
+          className="mt-3 pt-3 flex flex-wrap items-center gap-3 border-t border-gray-200 dark:border-gray-700"
+          role="toolbar"
+          aria-label="Formatting"
+        >
+          {FORMAT_BUTTON_GROUPS.map((group, groupIndex) => (
+            <div key={groupIndex} className="flex items-center gap-1">
+              {group.map(({ action, label, title, className = '' }) => {
+                const isActive = activeFormats?.[action] ?? false;
+                return (
+                  <button
+                    key={action}
+                    onMouseDown={preventFocusLoss}
+                    onClick={() => onFormat(action)}
+                    disabled={!activeFormats}
+                    aria-pressed={isActive}
+                    title={title}
+                    className={`px-2 py-1 text-sm rounded-md border transition-colors disabled:opacity-50 ${className} ${
+                      isActive
+                        ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                        : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -2,7 +2,10 @@
  * ProseMirror Editor Component
  * 
  * React wrapper for ProseMirror editor with AI continuation capabilities.
- * Integrates with XState machine for state management.
+ * Integrates with XState machine for state management. When given a
+ * `documentId` it opens that stored document for real-time collaboration:
+ * changes are sent to the server as ProseMirror steps, which stores them
+ * and relays them to everyone else who has the document open.
  */
 
 'use client';
@@ -14,16 +17,149 @@ import { editorMachine } from '@/lib/editor-machine';
 import { 
   createEditorState, 
   createEditorView, 
-  insertTextWithTypingEffect,
-  getTextContent 
+  getTextContent,
+  getCursorContext,
+  getGhostText,
+  startGhostText,
+  appendGhostText,
+  acceptGhostText,
+  dismissGhostText,
+  getRangeText,
+  replaceRangeText,
+  setGhostCandidates,
+  setGhostProvenance,
+  selectGhostCandidate,
+  setMarkdownContent,
+  getDocumentJSON,
+  setDocumentContent,
+  addCommentMark,
+  removeCommentMark,
+  getCommentRanges,
+  getCommentThreadsAt,
+  selectCommentThread,
+  setCommentHighlights,
+  type CommentHighlights,
+  type GhostText,
 } from '@/lib/prosemirror-setup';
-import type { ContinueWritingResponse } from '@/lib/types';
+import { readNdjson } from '@/lib/ndjson';
+import { getActiveFormats, getFormatCommand, type ActiveFormats, type FormatAction } from '@/lib/formatting';
+import { getAIAuthorship, type AIAuthorship } from '@/lib/provenance';
+import { withoutDeletions } from '@/lib/markdown';
+import {
+  acceptChanges,
+  getTrackedChanges,
+  rejectChanges,
+  selectTrackedChange,
+  setTrackChanges,
+  type TrackChangesMode,
+  type TrackChangesState,
+  type TrackedChange,
+} from '@/lib/track-changes';
+import { runSlashCommand, setSlashMenuGroups, type SlashMenu } from '@/lib/slash-menu';
+import type { SlashCommand, SlashCommandGroup, SlashTransformRequest } from '@/lib/slash-commands';
+import {
+  createClientId,
+  getParticipantColor,
+  getSendableSteps,
+  getSyncedVersion,
+  isShared,
+  loadSharedDocument,
+  receiveSteps,
+  showParticipants,
+} from '@/lib/collab';
+import { useAIQuota } from '@/lib/use-ai-quota';
+import { usePromptTemplates } from '@/lib/use-prompt-templates';
+import { useComments } from '@/lib/use-comments';
+import { useChat } from '@/lib/use-chat';
+import { DEFAULT_GENERATION_SETTINGS } from '@/lib/generation-settings';
+import type {
+  AIProvenance,
+  ChatMessage,
+  CollabEvent,
+  CollabParticipant,
+  CollabSelection,
+  CollabUpdateRequest,
+  ContinueStreamEvent,
+  ContinueWritingResponse,
+  DocumentSummary,
+  DocumentVersion,
+  GenerationSettings,
+  StoredDocument,
+  TransformOperation,
+  TransformResponse,
+  TransformTone,
+  VersionTrigger,
+} from '@/lib/types';
 import EditorToolbar from './editor-toolbar';
+import SelectionBubbleMenu from './selection-bubble-menu';
+import TransformReview from './transform-review';
+import CandidatePanel from './candidate-panel';
+import GenerationSettingsPanel from './generation-settings-panel';
+import TemplateLibrary from './template-library';
+import CommentsPanel from './comments-panel';
+import ChangesPanel from './changes-panel';
+import ChatPanel from './chat-panel';
+import SlashCommandMenu from './slash-command-menu';
+import VersionHistory from '@/components/documents/version-history';
+
+/**
+ * Delay between the last cursor move and telling the others where it is
+ */
+const SELECTION_SEND_DELAY_MS = 150;
+
+/**
+ * Delay before reconnecting after the collaboration stream broke
+ */
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Delay between the last settings change and saving the settings
+ */
+const SETTINGS_SAVE_DELAY_MS = 500;
+
+/**
+ * Persistence state of the open document
+ */
+type SaveStatus = 'loading' | 'saved' | 'saving' | 'offline' | 'error' | 'deleted';
+
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  loading: 'Loading...',
+  saved: 'All changes saved',
+  saving: 'Saving...',
+  offline: 'Reconnecting...',
+  error: 'Could not save',
+  deleted: 'This document was deleted',
+};
+
+function sameSelection(a: CollabSelection | null, b: CollabSelection | null): boolean {
+  return a?.anchor === b?.anchor && a?.head === b?.head;
+}
+
+/**
+ * The provenance of an AI response, null when the server didn't report one
+ */
+function toProvenance(response: { requestId?: string; model?: string; requestedBy?: string }): AIProvenance | null {
+  return response.requestId && response.model
+    ? { requestId: response.requestId, model: response.model, requestedBy: response.requestedBy }
+    : null;
+}
+
+interface EditorProps {
+  /** Stored document to load and autosave to, none for a scratch editor */
+  documentId?: string;
+  /** Called after each successful save */
+  onSaved?: (document: DocumentSummary) => void;
+  /** Show the document without editing or AI controls, e.g. for viewers */
+  readOnly?: boolean;
+  /** The signed-in user, who tracked edits are attributed to */
+  author?: string;
+}
 
 /**
  * Main Editor Component
+ * Remount it (e.g. with `key={documentId}`) to open another document.
  */
-export default function Editor() {
+export default function Editor({ documentId, onSaved, readOnly = false, author }: EditorProps) {
   // XState machine for managing editor state
   const [state, send] = useMachine(editorMachine);
   
@@ -33,9 +169,96 @@ export default function Editor() {
   
   // Local state for editor content
   const [editorContent, setEditorContent] = useState('');
-  
-  // Track if typing animation is in progress
-  const [isTyping, setIsTyping] = useState(false);
+  // Characters of the text as it reads with the suggestions accepted
+  const [characterCount, setCharacterCount] = useState(0);
+
+  // Abort controller for the in-flight AI request
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Position of the selection bubble menu, null when nothing is selected
+  const [bubblePosition, setBubblePosition] = useState<{ top: number; left: number } | null>(null);
+
+  // The `/` command menu and where it shows, the commands it offers, and a
+  // way for the view to run the picked command with the current handlers
+  const [slashMenu, setSlashMenu] = useState<{ menu: SlashMenu; position: { top: number; left: number } } | null>(null);
+  const slashMenuGroupsRef = useRef<SlashCommandGroup[] | null>(null);
+  const runSlashCommandRef = useRef<(command: SlashCommand) => void>(() => {});
+
+  // Number of alternative continuations to request, and the suggestion currently shown
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [ghost, setGhost] = useState<GhostText | null>(null);
+
+  // Marks and blocks active at the selection, reflected by the formatting buttons
+  const [activeFormats, setActiveFormats] = useState<ActiveFormats | null>(null);
+
+  // How much of the document the AI wrote, and whether AI-written text is highlighted
+  const [authorship, setAuthorship] = useState<AIAuthorship | null>(null);
+  const [showAIHighlights, setShowAIHighlights] = useState(false);
+
+  // The user's remaining AI quota, shown in the toolbar
+  const { quota, refresh: refreshQuota } = useAIQuota();
+
+  // How continuations are generated, saved with the document once it has loaded
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const lastSavedSettingsRef = useRef<string | null>(null);
+
+  // Prompt template used by Continue (null for the plain continuation) and the tone it may ask for
+  const { templates, createTemplate, updateTemplate, deleteTemplate } = usePromptTemplates();
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [templateTone, setTemplateTone] = useState<TransformTone>('formal');
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+
+  // Collaboration: whether changes are stored, who else has the document open,
+  // and ways to send changes as they are made and right away when the editor
+  // unmounts or the page unloads
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>(documentId ? 'loading' : 'saved');
+  const [participants, setParticipants] = useState<CollabParticipant[]>([]);
+  const syncRef = useRef<() => void>(() => {});
+  const flushSyncRef = useRef<() => void>(() => {});
+  const onSavedRef = useRef(onSaved);
+
+  // Review threads: the side panel, the thread at the cursor or picked in
+  // the panel, the thread being started and which threads still have text
+  const {
+    threads,
+    error: commentsError,
+    refresh: refreshComments,
+    createThread,
+    updateThread,
+    askAI,
+  } = useComments(documentId);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [commentDraft, setCommentDraft] = useState<{ threadId: string; quote: string } | null>(null);
+  const [anchoredThreadIds, setAnchoredThreadIds] = useState<string[]>([]);
+  const commentHighlightsRef = useRef<CommentHighlights>({ open: [], active: null });
+  const unknownThreadIdsRef = useRef('');
+
+  // Tracked changes: which edits become suggestions, and the pending ones
+  const [trackChangesMode, setTrackChangesMode] = useState<TrackChangesMode>('off');
+  const [trackedChanges, setTrackedChanges] = useState<TrackedChange[]>([]);
+  const [isChangesOpen, setIsChangesOpen] = useState(false);
+  const trackChangesRef = useRef<TrackChangesState>({ mode: 'off', author: null });
+
+  // Chat with the AI about the document, the selection sent along as context
+  const {
+    messages: chatMessages,
+    reply: chatReply,
+    isSending: isChatSending,
+    error: chatError,
+    send: sendChatMessage,
+    stop: stopChat,
+    clear: clearChat,
+  } = useChat(documentId);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [selectedText, setSelectedText] = useState('');
+
+  // Version history panel, reloaded whenever a version is recorded
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [versionsRefreshKey, setVersionsRefreshKey] = useState(0);
+  const recordVersionRef = useRef<(trigger: VersionTrigger) => void>(() => {});
 
   /**
    * Initialize ProseMirror editor on mount
@@ -48,23 +271,582 @@ export default function Editor() {
       setEditorContent(text);
     };
 
+    // Send the change to the other tabs, track active formatting and the
+    // comment thread at the cursor, and place the bubble menu just above a
+    // non-empty selection
+    const handleSelectionChange = (view: EditorView) => {
+      syncRef.current();
+      setActiveFormats(getActiveFormats(view.state));
+      setAuthorship(getAIAuthorship(view.state.doc));
+      setCharacterCount(withoutDeletions(view.state.doc).textContent.length);
+      setAnchoredThreadIds(Array.from(getCommentRanges(view.state.doc).keys()));
+      setTrackedChanges(getTrackedChanges(view.state.doc));
+
+      const [threadId] = getCommentThreadsAt(view.state);
+      if (threadId) setActiveThreadId(threadId);
+
+      const { from, to, empty } = view.state.selection;
+      setSelectedText(empty ? '' : getRangeText(view.state, from, to).trim());
+
+      const container = editorRef.current?.parentElement;
+      if (empty || !container) {
+        setBubblePosition(null);
+        return;
+      }
+
+      const coords = view.coordsAtPos(from);
+      const rect = container.getBoundingClientRect();
+      setBubblePosition({
+        top: Math.max(coords.top - rect.top - 44, 0),
+        left: Math.max(coords.left - rect.left, 0),
+      });
+    };
+
+    // Mirror the suggestion into React, and the chosen alternative into the machine
+    const handleGhostTextChange = (ghost: GhostText | null) => {
+      setGhost(ghost);
+      if (ghost && ghost.candidates.length > 1) {
+        send({ type: 'SELECT_CANDIDATE', index: ghost.index });
+      }
+    };
+
+    // Snapshot the document each time AI text is accepted into it
+    const handleAIInsertion = () => {
+      recordVersionRef.current('ai');
+    };
+
+    // Place the `/` menu just below the typed command
+    const handleSlashMenuChange = (menu: SlashMenu | null) => {
+      const container = editorRef.current?.parentElement;
+      if (!menu || !container) {
+        setSlashMenu(null);
+        return;
+      }
+
+      const coords = view.coordsAtPos(menu.from);
+      const rect = container.getBoundingClientRect();
+      setSlashMenu({
+        menu,
+        position: {
+          top: coords.bottom - rect.top + 4,
+          left: Math.max(coords.left - rect.left, 0),
+        },
+      });
+    };
+
     // Create editor state and view
     const state = createEditorState('', handleUpdate);
     const view = createEditorView({
       state,
       mount: editorRef.current,
-      onUpdate: handleUpdate,
+      onSelectionChange: handleSelectionChange,
+      onGhostTextChange: handleGhostTextChange,
+      onAIInsertion: handleAIInsertion,
+      onSlashMenuChange: handleSlashMenuChange,
+      onSlashCommand: (command) => runSlashCommandRef.current(command),
     });
 
     viewRef.current = view;
+    setActiveFormats(getActiveFormats(view.state));
+    setAuthorship(getAIAuthorship(view.state.doc));
 
     // Cleanup on unmount
     return () => {
+      abortControllerRef.current?.abort();
+      flushSyncRef.current();
       view.destroy();
       viewRef.current = null;
     };
+  }, [send]);
+
+  /**
+   * Keep the view's editability in sync with `readOnly`
+   */
+  useEffect(() => {
+    viewRef.current?.setProps({ editable: () => !readOnly });
+  }, [readOnly]);
+
+  useEffect(() => {
+    onSavedRef.current = onSaved;
+  }, [onSaved]);
+
+  /**
+   * Load the generation settings of the stored document
+   * Its content comes with the collaboration stream.
+   */
+  useEffect(() => {
+    if (!documentId) return;
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/documents/${documentId}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load document');
+        }
+
+        const stored = data.document as StoredDocument;
+        const settings = stored.settings ?? DEFAULT_GENERATION_SETTINGS;
+        setGenerationSettings(settings);
+        lastSavedSettingsRef.current = JSON.stringify(settings);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error loading document:', error);
+        setSaveStatus('error');
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [documentId]);
+
+  /**
+   * Open the stored document for collaboration and keep it in sync
+   *
+   * The server streams the document, then every step it accepts (ours
+   * included, which confirms them), where everyone's cursor is and when it
+   * stored the document. Our steps are posted as they are made, one request
+   * at a time; steps based on an outdated version are refused, and sent
+   * again rebased once the steps they missed have arrived.
+   */
+  useEffect(() => {
+    if (!documentId) return;
+
+    const clientId = createClientId();
+    const url = `/api/documents/${documentId}/collab`;
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let selectionTimer: ReturnType<typeof setTimeout> | undefined;
+    // The stream we are in sync with, and the version the server last stored
+    let session: string | null = null;
+    let savedVersion = 0;
+    let isSending = false;
+    let sentSelection: CollabSelection | null = null;
+
+    const getSelection = (view: EditorView): CollabSelection => ({
+      anchor: view.state.selection.anchor,
+      head: view.state.selection.head,
+    });
+
+    const post = (body: Omit<CollabUpdateRequest, 'clientId'>, keepalive = false) =>
+      fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ clientId, ...body }),
+        keepalive,
+      });
+
+    const updateStatus = (view: EditorView) => {
+      const isStored = !getSendableSteps(view.state) && savedVersion >= getSyncedVersion(view.state);
+      setSaveStatus(isStored ? 'saved' : 'saving');
+    };
+
+    // Tell the others where our cursor is, once it stopped moving
+    const sendSelection = () => {
+      const view = viewRef.current;
+      if (!view || !isShared(view.state) || isSending || getSendableSteps(view.state)) return;
+
+      const selection = getSelection(view);
+      if (sameSelection(selection, sentSelection)) return;
+
+      sentSelection = selection;
+      post({ version: getSyncedVersion(view.state), selection }).catch((error) => {
+        console.error('Error sending selection:', error);
+      });
+    };
+
+    // Send our unconfirmed steps with the selection after them
+    const sync = async () => {
+      const view = viewRef.current;
+      if (!view || !isShared(view.state) || isSending) return;
+      updateStatus(view);
+
+      const sendable = getSendableSteps(view.state);
+      if (!sendable) {
+        clearTimeout(selectionTimer);
+        selectionTimer = setTimeout(sendSelection, SELECTION_SEND_DELAY_MS);
+        return;
+      }
+
+      isSending = true;
+      try {
+        const selection = getSelection(view);
+        const response = await post({ ...sendable, selection });
+
+        // A 409 means someone else's steps came first, ours are rebased on them when they arrive
+        if (!response.ok && response.status !== 409) {
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.error || 'Failed to send changes');
+        }
+        if (response.ok) sentSelection = selection;
+      } catch (error) {
+        console.error('Error sending changes:', error);
+        setSaveStatus('error');
+        return;
+      } finally {
+        isSending = false;
+      }
+
+      // Steps that arrived in the meantime let us send what is left
+      if (viewRef.current && getSyncedVersion(viewRef.current.state) !== sendable.version) sync();
+    };
+
+    const handleEvent = (event: CollabEvent) => {
+      const view = viewRef.current;
+      if (!view) return;
+
+      // Nothing is left to send changes to or reconnect to
+      if (event.type === 'deleted') {
+        source?.close();
+        source = null;
+        clearTimeout(reconnectTimer);
+        syncRef.current = () => {};
+        flushSyncRef.current = () => {};
+        setSaveStatus('deleted');
+        return;
+      }
+
+      if (event.type === 'init') {
+        // Starting over drops changes the server never confirmed
+        session = event.session;
+        savedVersion = event.version;
+        sentSelection = null;
+        loadSharedDocument(view, event.content, event.version, clientId);
+        setCommentHighlights(view, commentHighlightsRef.current);
+        setTrackChanges(view, trackChangesRef.current);
+        setSlashMenuGroups(view, slashMenuGroupsRef.current);
+        setAnchoredThreadIds(Array.from(getCommentRanges(view.state.doc).keys()));
+        setTrackedChanges(getTrackedChanges(view.state.doc));
+        setEditorContent(getTextContent(view));
+        setActiveFormats(getActiveFormats(view.state));
+        setAuthorship(getAIAuthorship(view.state.doc));
+        setCharacterCount(withoutDeletions(view.state.doc).textContent.length);
+      }
+
+      if (event.type === 'steps') {
+        // The server maps our cursor through the steps just like we do
+        const isSelectionSent = sameSelection(getSelection(view), sentSelection);
+        if (!receiveSteps(view, event)) {
+          reconnect(true);
+          return;
+        }
+        if (isSelectionSent) sentSelection = getSelection(view);
+      }
+
+      if (event.type === 'saved') {
+        savedVersion = Math.max(savedVersion, event.version);
+        onSavedRef.current?.(event.document);
+      }
+
+      if (event.type === 'init' || event.type === 'presence') {
+        showParticipants(view, event, clientId);
+        setParticipants(event.participants.filter((participant) => participant.clientId !== clientId));
+      }
+
+      updateStatus(view);
+      if (event.type === 'steps') sync();
+    };
+
+    // Reconnect by hand rather than through EventSource, to say which version we have
+    const connect = () => {
+      const view = viewRef.current;
+      const params = new URLSearchParams({ clientId });
+      if (session && view && isShared(view.state)) {
+        params.set('session', session);
+        params.set('version', String(getSyncedVersion(view.state)));
+      }
+
+      source = new EventSource(`${url}?${params}`);
+      source.onmessage = (message) => handleEvent(JSON.parse(message.data) as CollabEvent);
+      source.onerror = () => reconnect(false);
+    };
+
+    const reconnect = (startOver: boolean) => {
+      source?.close();
+      source = null;
+      if (startOver) {
+        session = null;
+      } else {
+        setSaveStatus('offline');
+      }
+      clearTimeout(reconnectTimer);
+      reconnectTimer = setTimeout(connect, startOver ? 0 : RECONNECT_DELAY_MS);
+    };
+
+    syncRef.current = sync;
+    flushSyncRef.current = () => {
+      const view = viewRef.current;
+      const sendable = view && isShared(view.state) ? getSendableSteps(view.state) : null;
+      if (sendable && !isSending) post(sendable, true).catch(() => {});
+    };
+
+    const handleBeforeUnload = () => flushSyncRef.current();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    connect();
+
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      clearTimeout(reconnectTimer);
+      clearTimeout(selectionTimer);
+      source?.close();
+      syncRef.current = () => {};
+      flushSyncRef.current = () => {};
+    };
+  }, [documentId]);
+
+  /**
+   * Save the generation settings a moment after they stop changing
+   */
+  useEffect(() => {
+    const serialized = JSON.stringify(generationSettings);
+    if (!documentId || readOnly || lastSavedSettingsRef.current === null || serialized === lastSavedSettingsRef.current) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/documents/${documentId}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ settings: generationSettings }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to save settings');
+        }
+
+        lastSavedSettingsRef.current = serialized;
+        setSettingsError(null);
+        onSaved?.(data.document);
+      } catch (error) {
+        console.error('Error saving generation settings:', error);
+        setSettingsError(error instanceof Error ? error.message : 'Failed to save settings');
+      }
+    }, SETTINGS_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [documentId, readOnly, generationSettings, onSaved]);
+
+  /**
+   * Record a version snapshot of the current content
+   */
+  const recordVersion = useCallback(async (trigger: VersionTrigger, name?: string) => {
+    const view = viewRef.current;
+    if (!view || !documentId) return;
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/versions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ trigger, name, content: getDocumentJSON(view) }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to save version');
+      }
+      setVersionsRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error recording version:', error);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    recordVersionRef.current = recordVersion;
+  }, [recordVersion]);
+
+  /**
+   * Save a named version from the history panel
+   */
+  const handleSaveVersion = useCallback(() => {
+    const name = window.prompt('Version name')?.trim();
+    if (name) recordVersion('manual', name);
+  }, [recordVersion]);
+
+  /**
+   * Replace the content with an older version
+   * The current content is snapshotted first, and the restore itself can be undone
+   */
+  const handleRestoreVersion = useCallback(async (version: DocumentVersion) => {
+    if (!viewRef.current) return;
+
+    await recordVersion('restore');
+    if (!viewRef.current) return;
+
+    setDocumentContent(viewRef.current, version.content);
+    viewRef.current.focus();
+  }, [recordVersion]);
+
+  /**
+   * Highlight the open threads, the one being started included, and the
+   * active thread while the panel is open
+   */
+  useEffect(() => {
+    const highlights: CommentHighlights = {
+      open: [
+        ...threads.filter((thread) => !thread.resolved).map((thread) => thread.id),
+        ...(commentDraft ? [commentDraft.threadId] : []),
+      ],
+      active: isCommentsOpen ? activeThreadId : null,
+    };
+    commentHighlightsRef.current = highlights;
+    if (viewRef.current) setCommentHighlights(viewRef.current, highlights);
+  }, [threads, commentDraft, activeThreadId, isCommentsOpen]);
+
+  /**
+   * Reload the threads when someone else anchored one we don't know yet
+   * Anchors of threads still being written elsewhere stay unknown, so each
+   * set of unknown anchors is only looked up once.
+   */
+  useEffect(() => {
+    const unknown = anchoredThreadIds
+      .filter((id) => id !== commentDraft?.threadId && !threads.some((thread) => thread.id === id))
+      .join(',');
+    if (unknown && unknown !== unknownThreadIdsRef.current) refreshComments();
+    unknownThreadIdsRef.current = unknown;
+  }, [anchoredThreadIds, threads, commentDraft, refreshComments]);
+
+  /**
+   * Start a thread on the selection
+   * The text is marked right away, so the anchor follows edits while the
+   * first message is written; cancelling removes the mark again.
+   */
+  const handleStartComment = useCallback(() => {
+    const view = viewRef.current;
+    if (!view || view.state.selection.empty) return;
+
+    if (commentDraft) removeCommentMark(view, commentDraft.threadId);
+
+    const { from, to } = view.state.selection;
+    const threadId = crypto.randomUUID();
+    addCommentMark(view, from, to, threadId);
+    setCommentDraft({ threadId, quote: getRangeText(view.state, from, to).trim() });
+    setActiveThreadId(threadId);
+    setIsCommentsOpen(true);
+    setBubblePosition(null);
+  }, [commentDraft]);
+
+  /**
+   * Store the thread being started with its first message
+   */
+  const handleCreateComment = useCallback(async (body: string) => {
+    if (!commentDraft) return;
+    await createThread({ id: commentDraft.threadId, quote: commentDraft.quote, body });
+    setCommentDraft(null);
+  }, [commentDraft, createThread]);
+
+  /**
+   * Drop the thread being started, unmarking its text
+   */
+  const handleCancelComment = useCallback(() => {
+    if (commentDraft && viewRef.current) removeCommentMark(viewRef.current, commentDraft.threadId);
+    setCommentDraft(null);
+  }, [commentDraft]);
+
+  /**
+   * Open or close the comments panel, dropping a thread being started on close
+   */
+  const handleToggleComments = useCallback(() => {
+    if (isCommentsOpen) handleCancelComment();
+    setIsCommentsOpen(!isCommentsOpen);
+  }, [isCommentsOpen, handleCancelComment]);
+
+  /**
+   * Select the text of a thread picked in the panel
+   */
+  const handleSelectThread = useCallback((threadId: string) => {
+    setActiveThreadId(threadId);
+    if (viewRef.current && selectCommentThread(viewRef.current, threadId)) {
+      viewRef.current.focus();
+    }
+  }, []);
+
+  /**
+   * Track edits as chosen, never for viewers, attributing them to the user
+   */
+  useEffect(() => {
+    const trackChanges: TrackChangesState = {
+      mode: readOnly ? 'off' : trackChangesMode,
+      author: author ?? null,
+    };
+    trackChangesRef.current = trackChanges;
+    if (viewRef.current) setTrackChanges(viewRef.current, trackChanges);
+  }, [trackChangesMode, author, readOnly]);
+
+  /**
+   * Accept one tracked change, or all of them
+   */
+  const handleAcceptChange = useCallback((changeId?: string) => {
+    if (viewRef.current) acceptChanges(viewRef.current, changeId ? [changeId] : undefined);
+  }, []);
+
+  /**
+   * Reject one tracked change, or all of them
+   */
+  const handleRejectChange = useCallback((changeId?: string) => {
+    if (viewRef.current) rejectChanges(viewRef.current, changeId ? [changeId] : undefined);
+  }, []);
+
+  /**
+   * Select the text of a change picked in the panel
+   */
+  const handleSelectChange = useCallback((changeId: string) => {
+    if (viewRef.current) selectTrackedChange(viewRef.current, changeId);
+  }, []);
+
+  /**
+   * Send a chat message with the current selection
+   */
+  const handleSendChat = useCallback((message: string) => {
+    return sendChatMessage(message, selectedText);
+  }, [sendChatMessage, selectedText]);
+
+  /**
+   * Insert a chat reply at the cursor, as AI text
+   */
+  const handleInsertChatReply = useCallback((message: ChatMessage) => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    const { to } = view.state.selection;
+    replaceRangeText(view, to, to, '', message.content, message.ai);
+    view.focus();
+  }, []);
+
+  /**
+   * Replace the selection with a chat reply, as AI text
+   */
+  const handleReplaceWithChatReply = useCallback((message: ChatMessage) => {
+    const view = viewRef.current;
+    if (!view || view.state.selection.empty) return;
+
+    const { from, to } = view.state.selection;
+    replaceRangeText(view, from, to, getRangeText(view.state, from, to), message.content, message.ai);
+    view.focus();
   }, []);
 
+  /**
+   * Stop the in-flight AI request
+   * Aborting the fetch closes the stream, which makes the server abort its upstream call
+   */
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    send({ type: 'CANCEL' });
+
+    // Nothing to keep when the suggestion is empty or was already dismissed (e.g. by Escape)
+    const view = viewRef.current;
+    if (!view || !getGhostText(view.state)?.text) {
+      if (view) dismissGhostText(view.state, view.dispatch);
+      send({ type: 'ROLLBACK_PARTIAL' });
+    }
+  }, [send]);
+
   /**
    * Handle "Continue Writing" button click
    * Sends event to XState machine and makes API call
@@ -79,55 +861,315 @@ export default function Editor() {
       return;
     }
 
+    // Continue at the caret, sending the text on both sides of it
+    const { prefix, suffix, pos } = getCursorContext(viewRef.current.state);
+    const { from, to } = viewRef.current.state.selection;
+
     // Send event to state machine
     send({ type: 'CONTINUE_WRITING', text: currentText });
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Show chunks as ghost text at the caret, the document only changes on acceptance.
+    // Editing before the stream starts dismisses the (still empty) suggestion.
+    startGhostText(viewRef.current, pos);
+    viewRef.current.focus();
+
     try {
-      // Call the API to get AI continuation
+      // Several alternatives arrive in one buffered response, a single one is streamed
+      const wantsCandidates = candidateCount > 1;
+
       const response = await fetch('/api/continue', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          text: currentText,
-          maxTokens: 150,
+          prefix,
+          suffix,
+          documentId,
+          maxTokens: generationSettings.maxTokens,
+          temperature: generationSettings.temperature,
+          ...(generationSettings.model ? { model: generationSettings.model } : {}),
+          ...(generationSettings.systemPrompt.trim() ? { systemPrompt: generationSettings.systemPrompt } : {}),
+          ...(wantsCandidates ? { n: candidateCount } : { stream: true }),
+          ...(templateId ? { templateId, selection: getRangeText(viewRef.current.state, from, to), tone: templateTone } : {}),
         }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
-        throw new Error('Failed to get AI response');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to get AI response');
+      }
+
+      if (wantsCandidates) {
+        const data: ContinueWritingResponse = await response.json();
+
+        // The user edited or moved the cursor while waiting: drop the stale result
+        if (!viewRef.current || !setGhostCandidates(viewRef.current, data.candidates, toProvenance(data))) {
+          handleStop();
+          return;
+        }
+
+        viewRef.current.focus();
+        send({ type: 'SUCCESS', generatedText: data.continuedText, candidates: data.candidates });
+        return;
       }
 
-      const data: ContinueWritingResponse = await response.json();
+      let generatedText = '';
 
-      if (data.error) {
-        throw new Error(data.error);
+      for await (const event of readNdjson<ContinueStreamEvent>(response)) {
+        if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+
+        // Tag the text of this request with the model that writes it
+        if (event.type === 'start' && viewRef.current) {
+          const { requestId, model, requestedBy } = event;
+          setGhostProvenance(viewRef.current, { requestId, model, requestedBy });
+        }
+
+        if (event.type === 'delta' && viewRef.current) {
+          // The user typed, moved the cursor or pressed Escape: stop generating
+          if (!appendGhostText(viewRef.current, event.text)) {
+            handleStop();
+            return;
+          }
+          generatedText += event.text;
+          send({ type: 'STREAM_CHUNK', text: event.text });
+        }
       }
 
-      // Start typing animation
-      setIsTyping(true);
-      
-      // Insert AI-generated text with typing effect
-      await insertTextWithTypingEffect(viewRef.current, data.continuedText, 30);
-      
-      // End typing animation
-      setIsTyping(false);
+      viewRef.current?.focus();
 
       // Send success event to state machine
-      send({ type: 'SUCCESS', generatedText: data.continuedText });
+      send({ type: 'SUCCESS', generatedText });
     } catch (error) {
+      // A cancelled request has already been reported via CANCEL
+      if (abortController.signal.aborted) return;
+
+      if (viewRef.current) {
+        dismissGhostText(viewRef.current.state, viewRef.current.dispatch);
+      }
       const errorMessage = error instanceof Error ? error.message : 'An error occurred';
-      setIsTyping(false); // Reset typing state on error
       send({ type: 'ERROR', error: errorMessage });
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
+  }, [send, handleStop, candidateCount, documentId, generationSettings, templateId, templateTone]);
+
+  /**
+   * Show the chosen alternative as ghost text
+   */
+  const handleSelectCandidate = useCallback((index: number) => {
+    if (viewRef.current && selectGhostCandidate(viewRef.current, index)) {
+      viewRef.current.focus();
+    }
+  }, []);
+
+  /**
+   * Accept the ghost text currently shown
+   */
+  const handleAcceptSuggestion = useCallback(() => {
+    if (viewRef.current) {
+      acceptGhostText(viewRef.current.state, viewRef.current.dispatch);
+      viewRef.current.focus();
+    }
+  }, []);
+
+  /**
+   * Keep the text that was streamed in before the user stopped
+   * Accepts the partial suggestion into the document as one undoable step
+   */
+  const handleKeepPartial = useCallback(() => {
+    if (viewRef.current) {
+      acceptGhostText(viewRef.current.state, viewRef.current.dispatch);
+      viewRef.current.focus();
+    }
+    send({ type: 'KEEP_PARTIAL' });
+  }, [send]);
+
+  /**
+   * Discard the text that was streamed in before the user stopped
+   */
+  const handleRollbackPartial = useCallback(() => {
+    if (viewRef.current) {
+      dismissGhostText(viewRef.current.state, viewRef.current.dispatch);
+      viewRef.current.focus();
+    }
+    send({ type: 'ROLLBACK_PARTIAL' });
   }, [send]);
 
+  /**
+   * Ask the AI to rewrite a range, or to write from it when `insertAt` is given
+   * The result is held as a proposal for review, the document is not touched yet
+   */
+  const requestTransform = useCallback(async (request: SlashTransformRequest) => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    const { operation, tone, language, from, to, insertAt } = request;
+    const text = getRangeText(view.state, from, to);
+    if (!text.trim()) return;
+
+    send({ type: 'TRANSFORM', operation, from, to, text, insertAt });
+    setBubblePosition(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const response = await fetch('/api/transform', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text, operation, tone, language, documentId }),
+        signal: abortController.signal,
+      });
+
+      const data: TransformResponse = await response.json();
+
+      if (!response.ok || data.error) {
+        throw new Error(data.error || 'Failed to get AI response');
+      }
+
+      send({ type: 'PROPOSAL_READY', proposed: data.transformedText, provenance: toProvenance(data) ?? undefined });
+    } catch (error) {
+      // A cancelled request has already been reported via CANCEL
+      if (abortController.signal.aborted) return;
+
+      const errorMessage = error instanceof Error ? error.message : 'An error occurred';
+      send({ type: 'ERROR', error: errorMessage });
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, [send, documentId]);
+
+  /**
+   * Ask the AI to rewrite the selected range, from the bubble menu
+   */
+  const handleTransform = useCallback((operation: TransformOperation, tone?: TransformTone) => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    const { from, to } = view.state.selection;
+    requestTransform({ operation, tone, from, to });
+  }, [requestTransform]);
+
+  /**
+   * Give commands picked from the `/` menu the current AI actions
+   */
+  useEffect(() => {
+    runSlashCommandRef.current = (command: SlashCommand) => {
+      const view = viewRef.current;
+      if (!view) return;
+      command.run({ view, continueWriting: handleContinueWriting, transform: requestTransform });
+      view.focus();
+    };
+  }, [handleContinueWriting, requestTransform]);
+
+  /**
+   * Run a command clicked in the `/` menu
+   */
+  const handleRunSlashCommand = useCallback((commandId: string) => {
+    if (viewRef.current) runSlashCommand(viewRef.current, commandId);
+  }, []);
+
+  /**
+   * Replace the original range with the proposed rewrite in one transaction
+   */
+  const handleAcceptProposal = useCallback(() => {
+    const view = viewRef.current;
+    const proposal = state.context.proposal;
+    if (!view || !proposal) return;
+
+    if (replaceRangeText(view, proposal.from, proposal.to, proposal.original, proposal.proposed, proposal.provenance ?? null)) {
+      view.focus();
+      send({ type: 'ACCEPT_PROPOSAL' });
+    } else {
+      send({ type: 'ERROR', error: 'The selected text changed during review, please select it again' });
+    }
+  }, [send, state.context.proposal]);
+
+  /**
+   * Discard the proposed rewrite, leaving the document untouched
+   */
+  const handleRejectProposal = useCallback(() => {
+    send({ type: 'REJECT_PROPOSAL' });
+    viewRef.current?.focus();
+  }, [send]);
+
+  /**
+   * Apply a formatting action from the toolbar
+   * Adding a link asks for the URL first
+   */
+  const handleFormat = useCallback((action: FormatAction) => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    let href: string | undefined;
+    if (action === 'link' && !getActiveFormats(view.state).link) {
+      href = window.prompt('Link URL')?.trim();
+      if (!href) return;
+    }
+
+    getFormatCommand(action, { href })(view.state, view.dispatch, view);
+    view.focus();
+  }, []);
+
+  /**
+   * Replace the document with an imported Markdown file
+   */
+  const handleImport = useCallback(async (file: File) => {
+    if (!viewRef.current) return;
+
+    try {
+      const markdown = await file.text();
+      if (!viewRef.current) return;
+
+      setMarkdownContent(viewRef.current, markdown);
+      viewRef.current.focus();
+      send({ type: 'RESET' });
+    } catch {
+      alert(`Could not read ${file.name}`);
+    }
+  }, [send]);
+
+  /**
+   * Download the document as a Markdown file
+   */
+  const handleExport = useCallback(() => {
+    if (!viewRef.current) return;
+
+    const blob = new Blob([getTextContent(viewRef.current)], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'document.md';
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
   /**
    * Handle reset button click
    */
-  const handleReset = useCallback(() => {
+  const handleReset = useCallback(async () => {
     if (!viewRef.current) return;
+
+    // A stored document is cleared for everyone who has it open, so ask
+    // first and keep a version to go back to
+    if (documentId) {
+      if (!window.confirm('Clear this document for everyone who has it open? A version is saved first.')) return;
+      await recordVersion('manual', 'Before clearing');
+      if (!viewRef.current) return;
+    }
     
     // Clear the editor content
     const { state } = viewRef.current;
@@ -136,12 +1178,55 @@ export default function Editor() {
     
     // Reset the state machine
     send({ type: 'RESET' });
-  }, [send]);
+  }, [send, documentId, recordVersion]);
 
   // Get current machine state
   const isLoading = state.matches('loading');
+  const isStreaming = state.matches('streaming');
+  const isCancelled = state.matches('cancelled');
+  const isTransforming = state.matches('transforming');
+  const isReviewing = state.matches('reviewing');
+  const isGenerating = isLoading || isStreaming || isTransforming;
   const isError = state.matches('error');
   const errorMessage = state.context.error;
+  const proposal = state.context.proposal;
+
+  /**
+   * Offer the AI commands in the `/` menu only while the AI is free to take them
+   */
+  const isIdle = state.matches('idle');
+  useEffect(() => {
+    const groups: SlashCommandGroup[] | null = isIdle ? null : ['format'];
+    slashMenuGroupsRef.current = groups;
+    if (viewRef.current) setSlashMenuGroups(viewRef.current, groups);
+  }, [isIdle]);
+
+  /**
+   * Load the quota, and reload it once each AI request has finished
+   */
+  useEffect(() => {
+    if (!readOnly && !isGenerating && !isChatSending) refreshQuota();
+  }, [readOnly, isGenerating, isChatSending, refreshQuota]);
+
+  /**
+   * Escape stops generation and discards the suggestion while a request is in flight
+   */
+  useEffect(() => {
+    if (!isGenerating) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        if (viewRef.current) {
+          dismissGhostText(viewRef.current.state, viewRef.current.dispatch);
+        }
+        handleStop();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isGenerating, handleStop]);
 
   return (
     <div className="w-full max-w-4xl mx-auto">
@@ -149,10 +1234,123 @@ export default function Editor() {
       <EditorToolbar
         onContinueWriting={handleContinueWriting}
         onReset={handleReset}
-        isLoading={isLoading || isTyping}
-        disabled={!editorContent.trim() || isLoading || isTyping}
+        onStop={handleStop}
+        onImport={handleImport}
+        onExport={handleExport}
+        onToggleHistory={documentId ? () => setIsHistoryOpen((open) => !open) : undefined}
+        isHistoryOpen={isHistoryOpen}
+        onToggleComments={documentId ? handleToggleComments : undefined}
+        isCommentsOpen={isCommentsOpen}
+        openCommentCount={threads.filter((thread) => !thread.resolved).length}
+        onToggleChat={documentId && !readOnly ? () => setIsChatOpen((open) => !open) : undefined}
+        isChatOpen={isChatOpen}
+        onToggleChanges={() => setIsChangesOpen((open) => !open)}
+        isChangesOpen={isChangesOpen}
+        changeCount={trackedChanges.length}
+        trackChangesMode={trackChangesMode}
+        onTrackChangesModeChange={setTrackChangesMode}
+        onToggleSettings={() => setIsSettingsOpen((open) => !open)}
+        isSettingsOpen={isSettingsOpen}
+        templates={templates}
+        templateId={templateId}
+        onTemplateChange={setTemplateId}
+        tone={templateTone}
+        onToneChange={setTemplateTone}
+        onToggleTemplates={() => setIsTemplatesOpen((open) => !open)}
+        isTemplatesOpen={isTemplatesOpen}
+        readOnly={readOnly}
+        showAIHighlights={showAIHighlights}
+        onToggleAIHighlights={() => setShowAIHighlights((show) => !show)}
+        candidateCount={candidateCount}
+        onCandidateCountChange={setCandidateCount}
+        quota={quota}
+        activeFormats={activeFormats}
+        onFormat={handleFormat}
+        isLoading={isGenerating}
+        disabled={!editorContent.trim() || isGenerating || isCancelled || isReviewing}
       />
 
+      {/* Model, temperature, length and instructions for continuations */}
+      {isSettingsOpen && !readOnly && (
+        <GenerationSettingsPanel
+          settings={generationSettings}
+          onChange={setGenerationSettings}
+          error={settingsError}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {/* Shared prompt templates */}
+      {isTemplatesOpen && !readOnly && (
+        <TemplateLibrary
+          templates={templates}
+          onCreate={createTemplate}
+          onUpdate={updateTemplate}
+          onDelete={async (id) => {
+            await deleteTemplate(id);
+            if (id === templateId) setTemplateId(null);
+          }}
+          onClose={() => setIsTemplatesOpen(false)}
+        />
+      )}
+
+      {/* Version snapshots with a diff against the current content */}
+      {documentId && isHistoryOpen && (
+        <VersionHistory
+          documentId={documentId}
+          currentContent={editorContent}
+          refreshKey={versionsRefreshKey}
+          onSaveVersion={readOnly ? undefined : handleSaveVersion}
+          onRestore={readOnly ? undefined : handleRestoreVersion}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* Suggested changes to accept or reject */}
+      {isChangesOpen && (
+        <ChangesPanel
+          changes={trackedChanges}
+          onSelect={handleSelectChange}
+          onAccept={handleAcceptChange}
+          onReject={handleRejectChange}
+          readOnly={readOnly}
+          onClose={() => setIsChangesOpen(false)}
+        />
+      )}
+
+      {/* Side-by-side review of a proposed rewrite */}
+      {proposal && (isTransforming || isReviewing) && (
+        <TransformReview
+          proposal={proposal}
+          isLoading={isTransforming}
+          onAccept={handleAcceptProposal}
+          onReject={isTransforming ? handleStop : handleRejectProposal}
+        />
+      )}
+
+      {/* Keep / Roll Back Prompt after a stopped stream */}
+      {isCancelled && (
+        <div className="mb-4 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg flex items-center justify-between gap-4">
+          <p className="text-sm text-amber-800 dark:text-amber-300">
+            Generation stopped. Keep the suggestion written so far?
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleRollbackPartial}
+              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleKeepPartial}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              Keep
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Error Message */}
       {isError && errorMessage && (
         <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
@@ -176,41 +1374,140 @@ export default function Editor() {
         </div>
       )}
 
-      {/* Editor Container */}
-      <div className="relative">
-        <div
-          ref={editorRef}
-          className="border-2 border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 shadow-sm transition-colors duration-200 focus-within:border-blue-500 dark:focus-within:border-blue-400 focus-within:ring-2 focus-within:ring-blue-500/20"
-        />
-        
-        {/* Loading Overlay */}
-        {isLoading && !isTyping && (
-          <div className="absolute inset-0 bg-white/50 dark:bg-gray-900/50 rounded-lg flex items-center justify-center backdrop-blur-sm">
-            <div className="flex flex-col items-center gap-3">
+      {/* Editor with the comments and chat panels beside it */}
+      <div className={documentId && (isCommentsOpen || isChatOpen) ? 'grid grid-cols-1 lg:grid-cols-[1fr_20rem] gap-4 items-start' : undefined}>
+        {/* Editor Container */}
+        <div className="relative">
+          {/* Commands typed after `/` */}
+          {slashMenu && !readOnly && (
+            <SlashCommandMenu
+              menu={slashMenu.menu}
+              position={slashMenu.position}
+              onRun={handleRunSlashCommand}
+            />
+          )}
+
+          {/* AI rewrite menu over the current selection */}
+          {bubblePosition && state.matches('idle') && !readOnly && (
+            <SelectionBubbleMenu
+              position={bubblePosition}
+              onTransform={handleTransform}
+              onComment={documentId ? handleStartComment : undefined}
+            />
+          )}
+
+          <div
+            ref={editorRef}
+            className={`${showAIHighlights ? 'show-ai-provenance ' : ''}border-2 border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 shadow-sm transition-colors duration-200 focus-within:border-blue-500 dark:focus-within:border-blue-400 focus-within:ring-2 focus-within:ring-blue-500/20`}
+          />
+          
+          {/* Document Loading Overlay */}
+          {saveStatus === 'loading' && (
+            <div className="absolute inset-0 bg-white/70 dark:bg-gray-900/70 rounded-lg flex items-center justify-center">
               <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
-              <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                AI is thinking...
-              </p>
             </div>
-          </div>
-        )}
-        
-        {/* Typing Indicator */}
-        {isTyping && (
-          <div className="absolute bottom-4 right-4 bg-blue-500 text-white px-3 py-2 rounded-lg shadow-lg flex items-center gap-2 animate-pulse">
-            <div className="flex gap-1">
-              <div className="w-2 h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
-              <div className="w-2 h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
-              <div className="w-2 h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+          )}
+
+          {/* Loading Overlay */}
+          {isLoading && (
+            <div className="absolute inset-0 bg-white/50 dark:bg-gray-900/50 rounded-lg flex items-center justify-center backdrop-blur-sm">
+              <div className="flex flex-col items-center gap-3">
+                <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  AI is thinking...
+                </p>
+              </div>
+            </div>
+          )}
+          
+          {/* Streaming Indicator */}
+          {isStreaming && (
+            <div className="absolute bottom-4 right-4 bg-blue-500 text-white px-3 py-2 rounded-lg shadow-lg flex items-center gap-2 animate-pulse">
+              <div className="flex gap-1">
+                <div className="w-2 h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+                <div className="w-2 h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+                <div className="w-2 h-2 bg-white rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+              </div>
+              <span className="text-sm font-medium">AI is typing...</span>
             </div>
-            <span className="text-sm font-medium">AI is typing...</span>
+          )}
+        </div>
+
+        {/* Side panels */}
+        {documentId && (isCommentsOpen || isChatOpen) && (
+          <div className="space-y-4">
+            {/* Review threads on the document's text */}
+            {isCommentsOpen && (
+              <CommentsPanel
+                threads={threads}
+                anchoredThreadIds={anchoredThreadIds}
+                activeThreadId={activeThreadId}
+                onSelect={handleSelectThread}
+                draftQuote={commentDraft?.quote ?? null}
+                onCreate={handleCreateComment}
+                onCancelDraft={handleCancelComment}
+                onReply={(threadId, reply) => updateThread(threadId, { reply })}
+                onResolve={(threadId, resolved) => updateThread(threadId, { resolved })}
+                onAskAI={askAI}
+                readOnly={readOnly}
+                error={commentsError}
+                onClose={handleToggleComments}
+              />
+            )}
+
+            {/* Chat with the AI about the document */}
+            {isChatOpen && (
+              <ChatPanel
+                messages={chatMessages}
+                reply={chatReply}
+                isSending={isChatSending}
+                error={chatError}
+                selection={selectedText}
+                onSend={handleSendChat}
+                onStop={stopChat}
+                onClear={clearChat}
+                onInsert={handleInsertChatReply}
+                onReplace={handleReplaceWithChatReply}
+                onClose={() => setIsChatOpen(false)}
+              />
+            )}
           </div>
         )}
       </div>
 
-      {/* Character Count */}
-      <div className="mt-2 text-right text-sm text-gray-500 dark:text-gray-400">
-        {editorContent.length} characters
+      {/* Alternative continuations to pick from */}
+      {ghost && ghost.candidates.length > 1 && (
+        <CandidatePanel
+          candidates={ghost.candidates}
+          selectedIndex={ghost.index}
+          onSelect={handleSelectCandidate}
+          onAccept={handleAcceptSuggestion}
+        />
+      )}
+
+      {/* Save Status and Character Count */}
+      <div className="mt-2 flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-3">
+          <span className={saveStatus === 'error' ? 'text-red-600 dark:text-red-400' : undefined}>
+            {documentId ? SAVE_STATUS_LABELS[saveStatus] : ''}
+          </span>
+          {/* Everyone else with the document open, once per person */}
+          {participants
+            .filter((participant, index) => participants.findIndex((other) => other.userId === participant.userId) === index)
+            .map((participant) => (
+              <span key={participant.userId} className="flex items-center gap-1" title={`${participant.username} is here`}>
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: getParticipantColor(participant.userId) }}
+                />
+                {participant.username}
+              </span>
+            ))}
+        </span>
+        <span>
+          {authorship && authorship.totalCharacters > 0 && `${authorship.percentage}% AI-written · `}
+          {characterCount} characters
+        </span>
       </div>
 
       {/* State Indicator (for debugging/demo) */}
@@ -218,7 +1515,7 @@ export default function Editor() {
         <div className="flex items-center justify-between text-sm">
           <span className="text-gray-600 dark:text-gray-400">Editor State:</span>
           <span className={`font-mono font-semibold ${
-            isLoading ? 'text-blue-600 dark:text-blue-400' :
+            isGenerating ? 'text-blue-600 dark:text-blue-400' :
             isError ? 'text-red-600 dark:text-red-400' :
             'text-green-600 dark:text-green-400'
           }`}>
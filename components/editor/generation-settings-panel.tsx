@@ -0,0 +1,169 @@
+/**
+ * Generation Settings Panel Component
+ *
+ * Lets editors pick a preset or set the model, temperature, length and
+ * extra system prompt instructions used to continue the document.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  GENERATION_PRESETS,
+  MAX_SYSTEM_PROMPT_LENGTH,
+  MAX_TOKENS_RANGE,
+  TEMPERATURE_RANGE,
+  applyGenerationPreset,
+} from '@/lib/generation-settings';
+import type { GenerationSettings } from '@/lib/types';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  /** Set when the settings could not be saved */
+  error?: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Settings panel shown above the editor
+ */
+export default function GenerationSettingsPanel({ settings, onChange, error, onClose }: GenerationSettingsPanelProps) {
+  // The configured model and the ones the server allows instead
+  const [defaultModel, setDefaultModel] = useState<string | null>(null);
+  const [models, setModels] = useState<string[]>([]);
+
+  /**
+   * Load the models offered by the server
+   */
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch('/api/continue', { signal: controller.signal })
+      .then((response) => response.json())
+      .then((data: { model: string | null; models?: string[] }) => {
+        setDefaultModel(data.model);
+        setModels(data.models ?? []);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error('Error loading models:', error);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  /**
+   * Change some values by hand, which leaves the preset
+   */
+  const update = (changes: Partial<GenerationSettings>) => {
+    onChange({ ...settings, ...changes, preset: null });
+  };
+
+  const labelClassName = 'flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300';
+  const inputClassName =
+    'px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white';
+
+  return (
+    <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Generation settings</h3>
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {/* Presets */}
+      <div className="flex flex-wrap items-center gap-2 mb-4" role="group" aria-label="Preset">
+        {GENERATION_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(applyGenerationPreset(settings, preset.id))}
+            aria-pressed={settings.preset === preset.id}
+            className={`px-3 py-1.5 text-sm font-medium border rounded-lg transition-colors ${
+              settings.preset === preset.id
+                ? 'bg-blue-100 dark:bg-blue-900/40 border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300'
+                : 'text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        {settings.preset === null && <span className="text-sm text-gray-500 dark:text-gray-400">Custom</span>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <label className={labelClassName}>
+          Model
+          <select
+            value={settings.model ?? ''}
+            onChange={(e) => update({ model: e.target.value || null })}
+            className={inputClassName}
+          >
+            <option value="">Default{defaultModel ? ` (${defaultModel})` : ''}</option>
+            {models
+              .filter((model) => model !== defaultModel)
+              .map((model) => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            {/* A saved model the server no longer offers */}
+            {models.length > 0 && settings.model && !models.includes(settings.model) && (
+              <option value={settings.model} disabled>{settings.model} (unavailable)</option>
+            )}
+          </select>
+        </label>
+
+        <label className={labelClassName}>
+          <span>
+            Temperature <span className="text-gray-500 dark:text-gray-400">{settings.temperature.toFixed(1)}</span>
+          </span>
+          <input
+            type="range"
+            min={TEMPERATURE_RANGE.min}
+            max={TEMPERATURE_RANGE.max}
+            step={TEMPERATURE_RANGE.step}
+            value={settings.temperature}
+            onChange={(e) => update({ temperature: Number(e.target.value) })}
+            className="mt-3"
+          />
+        </label>
+
+        <label className={labelClassName}>
+          <span>
+            Length <span className="text-gray-500 dark:text-gray-400">up to {settings.maxTokens} tokens</span>
+          </span>
+          <input
+            type="range"
+            min={MAX_TOKENS_RANGE.min}
+            max={MAX_TOKENS_RANGE.max}
+            step={MAX_TOKENS_RANGE.step}
+            value={settings.maxTokens}
+            onChange={(e) => update({ maxTokens: Number(e.target.value) })}
+            className="mt-3"
+          />
+        </label>
+      </div>
+
+      <label className={labelClassName}>
+        <span>
+          Instructions for the AI{' '}
+          <span className="text-gray-500 dark:text-gray-400">
+            ({settings.systemPrompt.length}/{MAX_SYSTEM_PROMPT_LENGTH})
+          </span>
+        </span>
+        <textarea
+          value={settings.systemPrompt}
+          onChange={(e) => update({ systemPrompt: e.target.value })}
+          maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+          rows={3}
+          placeholder="e.g. Write for a technical audience and keep British spelling"
+          className={inputClassName}
+        />
+      </label>
+    </div>
+  );
+}
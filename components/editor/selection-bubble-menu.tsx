@@ -0,0 +1,93 @@
+/**
+ * Selection Bubble Menu Component
+ * 
+ * Floating menu shown above a text selection, offering AI rewrite operations
+ * and starting a comment thread on the selection.
+ */
+
+'use client';
+
+import React, { useState, useCallback, MouseEvent } from 'react';
+import { TRANSFORM_OPERATIONS, TRANSFORM_TONES } from '@/lib/transform-operations';
+import type { TransformOperation, TransformTone } from '@/lib/types';
+
+interface SelectionBubbleMenuProps {
+  /** Position relative to the editor container */
+  position: { top: number; left: number };
+  onTransform: (operation: TransformOperation, tone?: TransformTone) => void;
+  /** Comment on the selection, the button is hidden when not given */
+  onComment?: () => void;
+}
+
+/**
+ * Keep the editor selection when a menu button is pressed
+ */
+function preventFocusLoss(event: MouseEvent) {
+  event.preventDefault();
+}
+
+/**
+ * Bubble menu with rewrite operations for the selected range
+ */
+export default function SelectionBubbleMenu({ position, onTransform, onComment }: SelectionBubbleMenuProps) {
+  const [showTones, setShowTones] = useState(false);
+
+  /**
+   * Run an operation, or open the tone list for 'change-tone'
+   */
+  const handleOperationClick = useCallback((operation: TransformOperation) => {
+    if (operation === 'change-tone') {
+      setShowTones((visible) => !visible);
+      return;
+    }
+    onTransform(operation);
+  }, [onTransform]);
+
+  return (
+    <div
+      className="absolute z-10 flex flex-col items-start gap-1"
+      style={{ top: position.top, left: position.left }}
+      onMouseDown={preventFocusLoss}
+      role="toolbar"
+      aria-label="Rewrite selection with AI"
+    >
+      <div className="flex items-center gap-1 p-1 bg-gray-900 dark:bg-gray-700 rounded-lg shadow-lg">
+        {TRANSFORM_OPERATIONS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => handleOperationClick(id)}
+            className={`px-2 py-1 text-xs font-medium rounded-md transition-colors ${
+              id === 'change-tone' && showTones
+                ? 'bg-white/20 text-white'
+                : 'text-gray-100 hover:bg-white/10'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        {onComment && (
+          <button
+            onClick={onComment}
+            className="px-2 py-1 text-xs font-medium text-gray-100 rounded-md border-l border-white/20 hover:bg-white/10 transition-colors"
+          >
+            Comment
+          </button>
+        )}
+      </div>
+
+      {showTones && (
+        <div className="flex items-center gap-1 p-1 bg-gray-900 dark:bg-gray-700 rounded-lg shadow-lg">
+          {TRANSFORM_TONES.map((tone) => (
+            <button
+              key={tone}
+              onClick={() => onTransform('change-tone', tone)}
+              className="px-2 py-1 text-xs font-medium text-gray-100 capitalize rounded-md hover:bg-white/10 transition-colors"
+            >
+              {tone}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Slash Command Menu Component
+ *
+ * Popup listing the commands matching what was typed after `/`, shown at
+ * the cursor. The keyboard is handled by the slash menu plugin; this only
+ * renders its state and runs a command when it is clicked.
+ */
+
+'use client';
+
+import React, { useEffect, useRef, MouseEvent } from 'react';
+import { SLASH_COMMAND_GROUPS } from '@/lib/slash-commands';
+import type { SlashMenu } from '@/lib/slash-menu';
+
+interface SlashCommandMenuProps {
+  menu: SlashMenu;
+  /** Position relative to the editor container */
+  position: { top: number; left: number };
+  onRun: (commandId: string) => void;
+}
+
+/**
+ * Keep the editor focused, and the menu open, when a command is clicked
+ */
+function preventFocusLoss(event: MouseEvent) {
+  event.preventDefault();
+}
+
+/**
+ * Menu of slash commands
+ */
+export default function SlashCommandMenu({ menu, position, onRun }: SlashCommandMenuProps) {
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Keep the highlighted command in view while moving through the list
+  useEffect(() => {
+    listRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [menu.selected]);
+
+  return (
+    <div
+      className="absolute z-20 w-72 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-lg"
+      style={{ top: position.top, left: position.left }}
+      onMouseDown={preventFocusLoss}
+    >
+      {menu.commands.length === 0 ? (
+        <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No matching commands</p>
+      ) : (
+        <ul ref={listRef} role="listbox" aria-label="Commands" className="py-1 max-h-72 overflow-y-auto">
+          {menu.commands.map((command, index) => {
+            const isGroupStart = index === 0 || menu.commands[index - 1].group !== command.group;
+            const groupLabel = SLASH_COMMAND_GROUPS.find((group) => group.id === command.group)?.label;
+
+            return (
+              <li key={command.id}>
+                {isGroupStart && (
+                  <p className="px-3 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                    {groupLabel}
+                  </p>
+                )}
+                <button
+                  role="option"
+                  aria-selected={index === menu.selected}
+                  onClick={() => onRun(command.id)}
+                  className={`w-full px-3 py-1.5 text-left transition-colors ${
+                    index === menu.selected
+                      ? 'bg-blue-50 dark:bg-blue-900/30'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <span className={`block text-sm font-medium ${command.group === 'ai' ? 'text-purple-700 dark:text-purple-300' : 'text-gray-900 dark:text-gray-100'}`}>
+                    {command.title}
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{command.description}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * Template Library Component
+ *
+ * Lists the shared prompt templates and lets editors create, edit and
+ * delete them. Templates are rendered by the server, this only edits text.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import {
+  MAX_TEMPLATE_NAME_LENGTH,
+  MAX_TEMPLATE_PROMPT_LENGTH,
+  TEMPLATE_VARIABLES,
+  findUnknownVariables,
+} from '@/lib/prompt-templates';
+import type { CreatePromptTemplateRequest, PromptTemplate, UpdatePromptTemplateRequest } from '@/lib/types';
+
+interface TemplateLibraryProps {
+  templates: PromptTemplate[];
+  onCreate: (input: CreatePromptTemplateRequest) => Promise<unknown>;
+  onUpdate: (id: string, changes: UpdatePromptTemplateRequest) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * The template being edited: an existing one by id, or a new one
+ */
+type Draft = { id: string | null; name: string; prompt: string };
+
+const EMPTY_DRAFT: Draft = { id: null, name: '', prompt: '' };
+
+/**
+ * Template library panel shown above the editor
+ */
+export default function TemplateLibrary({ templates, onCreate, onUpdate, onDelete, onClose }: TemplateLibraryProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unknownVariables = draft ? findUnknownVariables(draft.prompt) : [];
+
+  /**
+   * Save the draft as a new template or over the one it edits
+   */
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    try {
+      if (draft.id) {
+        await onUpdate(draft.id, { name: draft.name, prompt: draft.prompt });
+      } else {
+        await onCreate({ name: draft.name, prompt: draft.prompt });
+      }
+      setDraft(null);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!confirm(`Delete the template "${template.name}" for everyone?`)) return;
+
+    try {
+      await onDelete(template.id);
+      if (draft?.id === template.id) setDraft(null);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete template');
+    }
+  };
+
+  const buttonClassName =
+    'px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const labelClassName = 'flex flex-col gap-1 text-sm text-gray-700 dark:text-gray-300';
+  const inputClassName =
+    'px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white';
+
+  return (
+    <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Prompt templates</h3>
+        <div className="flex gap-2">
+          <button onClick={() => setDraft(EMPTY_DRAFT)} disabled={draft?.id === null} className={buttonClassName}>
+            New template
+          </button>
+          <button onClick={onClose} className={buttonClassName}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {/* Templates */}
+      {templates.length === 0 ? (
+        <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">No templates yet.</p>
+      ) : (
+        <ul className="mb-3 divide-y divide-gray-100 dark:divide-gray-700">
+          {templates.map((template) => (
+            <li key={template.id} className="py-2 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{template.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{template.prompt}</p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => setDraft({ id: template.id, name: template.name, prompt: template.prompt })}
+                  className={buttonClassName}
+                >
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(template)} className={buttonClassName}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* New or edited template */}
+      {draft && (
+        <div className="pt-3 space-y-3 border-t border-gray-200 dark:border-gray-700">
+          <label className={labelClassName}>
+            Name
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              maxLength={MAX_TEMPLATE_NAME_LENGTH}
+              placeholder="e.g. Continue as dialogue"
+              className={inputClassName}
+            />
+          </label>
+
+          <label className={labelClassName}>
+            <span>
+              Prompt{' '}
+              <span className="text-gray-500 dark:text-gray-400">
+                ({draft.prompt.length}/{MAX_TEMPLATE_PROMPT_LENGTH})
+              </span>
+            </span>
+            <textarea
+              value={draft.prompt}
+              onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+              maxLength={MAX_TEMPLATE_PROMPT_LENGTH}
+              rows={4}
+              placeholder="e.g. Rewrite {{selection}} in a {{tone}} tone."
+              className={`${inputClassName} font-mono`}
+            />
+          </label>
+
+          {/* Variables the server fills in */}
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+            {TEMPLATE_VARIABLES.map(({ name, description }) => (
+              <React.Fragment key={name}>
+                <dt className="font-mono text-gray-700 dark:text-gray-300">{`{{${name}}}`}</dt>
+                <dd>{description}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+
+          {unknownVariables.length > 0 && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              Unknown variables: {unknownVariables.map((name) => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft.name.trim() || !draft.prompt.trim() || unknownVariables.length > 0}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : draft.id ? 'Save changes' : 'Create template'}
+            </button>
+            <button onClick={() => setDraft(null)} disabled={isSaving} className={buttonClassName}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
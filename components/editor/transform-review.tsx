@@ -0,0 +1,96 @@
+/**
+ * Transform Review Component
+ * 
+ * Shows the original and AI-proposed text side by side so the user can
+ * accept or reject a rewrite before it touches the document.
+ */
+
+'use client';
+
+import React from 'react';
+import { getTransformOperationLabel } from '@/lib/transform-operations';
+import type { TransformProposal } from '@/lib/types';
+
+interface TransformReviewProps {
+  proposal: TransformProposal;
+  /** True while the rewrite is still being generated */
+  isLoading: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+/**
+ * Side-by-side review panel for a proposed rewrite
+ */
+export default function TransformReview({
+  proposal,
+  isLoading,
+  onAccept,
+  onReject,
+}: TransformReviewProps) {
+  const operationLabel = getTransformOperationLabel(proposal.operation);
+  // Summaries and the like are added at the cursor rather than replacing text
+  const isInsertion = proposal.basedOn !== undefined;
+
+  return (
+    <div className="mb-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-blue-200 dark:border-blue-800 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+          {operationLabel}
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onReject}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+          >
+            Reject
+          </button>
+          <button
+            onClick={onAccept}
+            disabled={isLoading}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Accept
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {isInsertion ? (
+          <div>
+            <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              Based on
+            </p>
+            <div className="p-3 max-h-64 overflow-y-auto text-sm whitespace-pre-wrap text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900/40 rounded-lg">
+              {proposal.basedOn}
+            </div>
+          </div>
+        ) : (
+          <div>
+            <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              Original
+            </p>
+            <div className="p-3 text-sm whitespace-pre-wrap text-gray-700 dark:text-gray-300 bg-red-50 dark:bg-red-900/10 rounded-lg">
+              {proposal.original}
+            </div>
+          </div>
+        )}
+        <div>
+          <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            {isInsertion ? 'To insert' : 'Proposed'}
+          </p>
+          <div className="p-3 text-sm whitespace-pre-wrap text-gray-700 dark:text-gray-300 bg-green-50 dark:bg-green-900/10 rounded-lg">
+            {isLoading ? (
+              <span className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+                <span className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                {isInsertion ? 'Writing...' : 'Rewriting...'}
+              </span>
+            ) : (
+              proposal.proposed
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
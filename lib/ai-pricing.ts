@@ -0,0 +1,79 @@
+/**
+ * AI Pricing
+ *
+ * List prices of the hosted models, used to estimate what each call cost.
+ * Local backends (`mock`, `openai-compatible`) are free. For a model that
+ * isn't listed, or when prices change, set `AI_PROMPT_PRICE` and
+ * `AI_COMPLETION_PRICE` (USD per million tokens) for the configured model;
+ * other models keep their listed price.
+ */
+
+import { getProviderInfo, type AIProviderId, type TokenUsage } from './ai-providers';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Prices by model name prefix, so dated snapshots (e.g. `gpt-4o-2024-08-06`)
+ * match too. The longest matching prefix wins.
+ */
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+  'claude-3-5-haiku': { prompt: 0.8, completion: 4 },
+  'claude-3-5-sonnet': { prompt: 3, completion: 15 },
+  'claude-3-7-sonnet': { prompt: 3, completion: 15 },
+  'claude-sonnet-4': { prompt: 3, completion: 15 },
+  'claude-opus-4': { prompt: 15, completion: 75 },
+};
+
+const FREE_PROVIDERS: AIProviderId[] = ['mock', 'openai-compatible'];
+
+/**
+ * Price set in the environment, or null when either variable is missing
+ * It is the price of the configured provider and model only, not of the
+ * other models users may pick.
+ */
+function getConfiguredPrice(provider: AIProviderId, model: string): ModelPrice | null {
+  const configured = getProviderInfo();
+  if (provider !== configured.provider || model !== configured.model) return null;
+
+  const prompt = Number(process.env.AI_PROMPT_PRICE);
+  const completion = Number(process.env.AI_COMPLETION_PRICE);
+  if (!process.env.AI_PROMPT_PRICE || !process.env.AI_COMPLETION_PRICE) return null;
+  if (!Number.isFinite(prompt) || !Number.isFinite(completion)) return null;
+  return { prompt, completion };
+}
+
+/**
+ * Price of a model, or null when it isn't known
+ */
+export function getModelPrice(provider: AIProviderId, model: string): ModelPrice | null {
+  const configured = getConfiguredPrice(provider, model);
+  if (configured) return configured;
+  if (FREE_PROVIDERS.includes(provider)) return { prompt: 0, completion: 0 };
+
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter((candidate) => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+/**
+ * Estimated cost of a call in USD, or null when the model's price isn't known
+ */
+export function estimateCost(provider: AIProviderId, model: string, usage: TokenUsage): number | null {
+  const price = getModelPrice(provider, model);
+  if (!price) return null;
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1_000_000;
+}
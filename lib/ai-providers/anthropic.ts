@@ -0,0 +1,125 @@
+/**
+ * Anthropic Provider
+ * 
+ * Talks to the Anthropic Messages API, or any server exposing the same shape.
+ */
+
+import type { AIProvider, CompletionParams, CompletionResult, TokenUsage } from './types';
+import { readServerSentEvents, throwProviderError } from './sse';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface AnthropicProviderConfig {
+  baseURL: string;
+  model: string;
+  apiKey: string;
+}
+
+/**
+ * Build the messages request body shared by the buffered and streaming calls
+ */
+function buildBody(model: string, params: CompletionParams, stream: boolean) {
+  return {
+    model,
+    system: params.system,
+    messages: params.messages,
+    max_tokens: params.maxTokens,
+    temperature: params.temperature,
+    stream,
+  };
+}
+
+/**
+ * Create a provider for the Anthropic Messages API
+ */
+export function createAnthropicProvider(config: AnthropicProviderConfig): AIProvider {
+  const url = `${config.baseURL.replace(/\/+$/, '')}/v1/messages`;
+  const headers = {
+    'Content-Type': 'application/json',
+    'x-api-key': config.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+
+  /**
+   * Generate a single buffered completion
+   */
+  async function completeOnce(params: CompletionParams): Promise<{ text: string; usage: TokenUsage }> {
+    const response = await fetch(url, {
+      method: 'POST',
+      signal: params.signal,
+      headers,
+      body: JSON.stringify(buildBody(params.model ?? config.model, params, false)),
+    });
+
+    if (!response.ok) {
+      await throwProviderError(response, 'Anthropic API request failed');
+    }
+
+    const data = await response.json();
+    const text = (data.content ?? [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+
+    return {
+      text: text.trim(),
+      usage: {
+        promptTokens: data.usage?.input_tokens ?? 0,
+        completionTokens: data.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+
+  return {
+    id: 'anthropic',
+    model: config.model,
+
+    async complete(params: CompletionParams): Promise<CompletionResult> {
+      // The Messages API has no `n`, so alternatives are separate calls
+      const results = await Promise.all(
+        Array.from({ length: Math.max(params.n ?? 1, 1) }, () => completeOnce(params))
+      );
+      params.onUsage?.({
+        promptTokens: results.reduce((sum, result) => sum + result.usage.promptTokens, 0),
+        completionTokens: results.reduce((sum, result) => sum + result.usage.completionTokens, 0),
+      });
+
+      const choices = results.map((result) => result.text);
+      return { text: choices[0], choices };
+    },
+
+    async *stream(params: CompletionParams): AsyncGenerator<string> {
+      const response = await fetch(url, {
+        method: 'POST',
+        signal: params.signal,
+        headers,
+        body: JSON.stringify(buildBody(params.model ?? config.model, params, true)),
+      });
+
+      if (!response.ok || !response.body) {
+        await throwProviderError(response, 'Anthropic API request failed');
+      }
+
+      // Input tokens come with `message_start`, the running output count
+      // with each `message_delta`
+      const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+      for await (const data of readServerSentEvents(response.body!)) {
+        const event = JSON.parse(data);
+
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield event.delta.text;
+        } else if (event.type === 'message_start') {
+          usage.promptTokens = event.message?.usage?.input_tokens ?? 0;
+        } else if (event.type === 'message_delta') {
+          usage.completionTokens = event.usage?.output_tokens ?? usage.completionTokens;
+        } else if (event.type === 'error') {
+          throw new Error(event.error?.message || 'Anthropic stream failed');
+        } else if (event.type === 'message_stop') {
+          params.onUsage?.(usage);
+          return;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * AI Provider Registry
+ * 
+ * Selects and configures the active text generation backend from environment
+ * variables:
+ * 
+ * - AI_PROVIDER: openai (default) | anthropic | openai-compatible | mock
+ * - AI_MODEL: model name, defaults depend on the provider
+ * - AI_ALLOWED_MODELS: comma-separated models users may pick instead of AI_MODEL
+ * - AI_BASE_URL: API base URL, required for openai-compatible
+ * - AI_API_KEY: API key for openai-compatible servers that need one
+ * - OPENAI_API_KEY / ANTHROPIC_API_KEY: keys for the hosted providers
+ * - MOCK_AI_DELAY_MS: delay between streamed words of the mock provider
+ */
+
+import type { AIProvider, AIProviderId } from './types';
+import { createOpenAIProvider } from './openai';
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+
+export type {
+  AIProvider,
+  AIProviderId,
+  ChatMessage,
+  CompletionParams,
+  CompletionResult,
+  TokenUsage,
+} from './types';
+
+const PROVIDER_IDS: AIProviderId[] = ['openai', 'anthropic', 'openai-compatible', 'mock'];
+
+const DEFAULT_MODELS: Record<AIProviderId, string> = {
+  'openai': 'gpt-3.5-turbo',
+  'anthropic': 'claude-3-5-haiku-latest',
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock-writer',
+};
+
+/**
+ * Which provider and model the environment selects, without validating keys
+ */
+export interface AIProviderInfo {
+  provider: AIProviderId;
+  model: string;
+}
+
+/**
+ * Resolve the configured provider id and model name
+ */
+export function getProviderInfo(): AIProviderInfo {
+  const requested = (process.env.AI_PROVIDER || 'openai').trim().toLowerCase();
+
+  if (!PROVIDER_IDS.includes(requested as AIProviderId)) {
+    throw new Error(
+      `Unknown AI_PROVIDER "${requested}". Expected one of: ${PROVIDER_IDS.join(', ')}`
+    );
+  }
+
+  const provider = requested as AIProviderId;
+  return {
+    provider,
+    model: process.env.AI_MODEL?.trim() || DEFAULT_MODELS[provider],
+  };
+}
+
+/**
+ * Models users may choose per document, the configured model first
+ */
+export function getAllowedModels(): string[] {
+  const extra = (process.env.AI_ALLOWED_MODELS ?? '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+  return Array.from(new Set([getProviderInfo().model, ...extra]));
+}
+
+/**
+ * Create the provider selected by the environment
+ * Throws a descriptive error when required configuration is missing
+ */
+export function getAIProvider(): AIProvider {
+  const { provider, model } = getProviderInfo();
+  const baseURL = process.env.AI_BASE_URL?.trim();
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured. Please add OPENAI_API_KEY to your .env.local file');
+      }
+      return createOpenAIProvider({
+        id: 'openai',
+        baseURL: baseURL || 'https://api.openai.com/v1',
+        model,
+        apiKey,
+      });
+    }
+
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error('Anthropic API key not configured. Please add ANTHROPIC_API_KEY to your .env.local file');
+      }
+      return createAnthropicProvider({
+        baseURL: baseURL || 'https://api.anthropic.com',
+        model,
+        apiKey,
+      });
+    }
+
+    case 'openai-compatible': {
+      if (!baseURL) {
+        throw new Error('AI_BASE_URL is required for the openai-compatible provider (e.g. http://localhost:11434/v1)');
+      }
+      return createOpenAIProvider({
+        id: 'openai-compatible',
+        baseURL,
+        model,
+        apiKey: process.env.AI_API_KEY,
+      });
+    }
+
+    case 'mock':
+      return createMockProvider({
+        model,
+        delayMs: Number(process.env.MOCK_AI_DELAY_MS ?? 30) || 0,
+      });
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Mock Provider
+ * 
+ * Deterministic offline backend for tests and demos. The same prompt always
+ * produces the same continuation, and no network access or API key is needed.
+ */
+
+import type { AIProvider, CompletionParams, CompletionResult, TokenUsage } from './types';
+
+const MOCK_SENTENCES = [
+  'The morning light spilled across the desk, catching the edges of forgotten notes.',
+  'Nobody in the room expected the answer to be so simple.',
+  'She paused, weighed the options once more, and chose the harder path.',
+  'Outside, the city carried on as if nothing had changed at all.',
+  'It was the kind of idea that seemed obvious only in hindsight.',
+  'A quiet hum filled the silence while everyone waited for the next move.',
+  'Somewhere between the first draft and the last, the story found its voice.',
+  'He wrote it down before the thought could slip away.',
+];
+
+export interface MockProviderConfig {
+  model: string;
+  /** Delay between streamed words, to make streaming visible in demos */
+  delayMs: number;
+}
+
+/**
+ * Small, stable string hash (FNV-1a) used to pick the canned sentences
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Build the deterministic continuation for a request
+ * Roughly one word per token, capped by `maxTokens`. Each `variant`
+ * starts from a different sentence so alternatives differ.
+ */
+function buildMockText(params: CompletionParams, variant: number = 0): string {
+  const prompt = params.messages.map((message) => message.content).join('\n');
+  const start = (hashString(prompt) + variant) % MOCK_SENTENCES.length;
+
+  const words: string[] = [];
+  for (let i = 0; words.length < params.maxTokens && i < MOCK_SENTENCES.length; i++) {
+    words.push(...MOCK_SENTENCES[(start + i) % MOCK_SENTENCES.length].split(' '));
+  }
+
+  return words.slice(0, Math.max(params.maxTokens, 1)).join(' ');
+}
+
+/**
+ * Count words, the mock's stand-in for tokens
+ */
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Mock token usage for a prompt and the text generated for it
+ */
+function mockUsage(params: CompletionParams, output: string[]): TokenUsage {
+  return {
+    promptTokens: countWords([params.system, ...params.messages.map((message) => message.content)].join(' ')),
+    completionTokens: output.reduce((sum, text) => sum + countWords(text), 0),
+  };
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted', 'AbortError'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Create the deterministic mock provider
+ */
+export function createMockProvider(config: MockProviderConfig): AIProvider {
+  return {
+    id: 'mock',
+    model: config.model,
+
+    async complete(params: CompletionParams): Promise<CompletionResult> {
+      const choices = Array.from({ length: Math.max(params.n ?? 1, 1) }, (_, variant) =>
+        buildMockText(params, variant)
+      );
+      params.onUsage?.(mockUsage(params, choices));
+      return { text: choices[0], choices };
+    },
+
+    async *stream(params: CompletionParams): AsyncGenerator<string> {
+      const words = buildMockText(params).split(' ');
+
+      for (let i = 0; i < words.length; i++) {
+        if (config.delayMs > 0) {
+          await sleep(config.delayMs, params.signal);
+        }
+        yield i === 0 ? words[i] : ' ' + words[i];
+      }
+      params.onUsage?.(mockUsage(params, words));
+    },
+  };
+}
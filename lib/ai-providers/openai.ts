@@ -0,0 +1,118 @@
+/**
+ * OpenAI Provider
+ * 
+ * Talks to the OpenAI chat completions API. The same implementation serves
+ * any OpenAI-compatible server (Ollama, llama.cpp server, vLLM) by pointing
+ * `baseURL` elsewhere.
+ */
+
+import type { AIProvider, AIProviderId, CompletionParams, CompletionResult, TokenUsage } from './types';
+import { readServerSentEvents, throwProviderError } from './sse';
+
+export interface OpenAIProviderConfig {
+  id: Extract<AIProviderId, 'openai' | 'openai-compatible'>;
+  baseURL: string;
+  model: string;
+  /** Optional for local servers that do not check authentication */
+  apiKey?: string;
+}
+
+/**
+ * Build the chat request body shared by the buffered and streaming calls
+ */
+function buildBody(model: string, params: CompletionParams, stream: boolean, includeStreamUsage: boolean) {
+  return {
+    model,
+    messages: [
+      { role: 'system', content: params.system },
+      ...params.messages,
+    ],
+    max_tokens: params.maxTokens,
+    temperature: params.temperature,
+    // Alternatives are only requested for buffered calls
+    ...(!stream && params.n && params.n > 1 ? { n: params.n } : {}),
+    stream,
+    // Ask for a final chunk with the token usage; OpenAI-compatible servers
+    // may not know the option, so only send it to OpenAI itself
+    ...(stream && includeStreamUsage ? { stream_options: { include_usage: true } } : {}),
+  };
+}
+
+/**
+ * Read the `usage` object of a response or final stream chunk
+ */
+function toTokenUsage(usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): TokenUsage | null {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return null;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 };
+}
+
+/**
+ * Create a provider for OpenAI or an OpenAI-compatible server
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig): AIProvider {
+  const url = `${config.baseURL.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  return {
+    id: config.id,
+    model: config.model,
+
+    async complete(params: CompletionParams): Promise<CompletionResult> {
+      const response = await fetch(url, {
+        method: 'POST',
+        signal: params.signal,
+        headers,
+        body: JSON.stringify(buildBody(params.model ?? config.model, params, false, false)),
+      });
+
+      if (!response.ok) {
+        await throwProviderError(response, 'OpenAI API request failed');
+      }
+
+      const data = await response.json();
+      const choices: string[] = (data.choices ?? []).map(
+        (choice: { message?: { content?: string } }) => choice.message?.content?.trim() || ''
+      );
+      if (choices.length === 0) choices.push('');
+
+      const usage = toTokenUsage(data.usage);
+      if (usage) params.onUsage?.(usage);
+
+      return {
+        text: choices[0],
+        choices,
+      };
+    },
+
+    async *stream(params: CompletionParams): AsyncGenerator<string> {
+      const response = await fetch(url, {
+        method: 'POST',
+        signal: params.signal,
+        headers,
+        body: JSON.stringify(buildBody(params.model ?? config.model, params, true, config.id === 'openai')),
+      });
+
+      if (!response.ok || !response.body) {
+        await throwProviderError(response, 'OpenAI API request failed');
+      }
+
+      for await (const data of readServerSentEvents(response.body!)) {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data);
+        const usage = toTokenUsage(chunk.usage);
+        if (usage) params.onUsage?.(usage);
+
+        const delta: string | undefined = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Server-Sent Events Reader
+ * 
+ * Shared by the providers whose streaming APIs speak SSE.
+ */
+
+/**
+ * Read a server-sent events body and yield the payload of each `data:` line
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      // The last element may be an incomplete line, keep it for the next read
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('data:')) {
+          yield trimmed.slice(5).trim();
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Throw a readable error for a failed provider response
+ */
+export async function throwProviderError(response: Response, fallbackMessage: string): Promise<never> {
+  const body = await response.json().catch(() => null);
+  // OpenAI and Anthropic nest the message, some local servers send a bare string
+  const message = typeof body?.error === 'string' ? body.error : body?.error?.message;
+  throw new Error(message || `${fallbackMessage} (HTTP ${response.status})`);
+}
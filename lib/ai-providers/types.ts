@@ -0,0 +1,76 @@
+/**
+ * AI Provider Types
+ * 
+ * The contract every text generation backend implements, so the AI service
+ * can stay agnostic of which vendor or local server answers the request.
+ */
+
+/**
+ * Identifiers of the supported provider implementations
+ */
+export type AIProviderId = 'openai' | 'anthropic' | 'openai-compatible' | 'mock';
+
+/**
+ * A single turn in the conversation sent to the model
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Tokens a call consumed, as reported by the backend
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Parameters for one completion call
+ */
+export interface CompletionParams {
+  system: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  /** Model for this call instead of the configured one, checked against `getAllowedModels` by the caller */
+  model?: string;
+  /** Number of alternative completions to generate (buffered calls only), defaults to 1 */
+  n?: number;
+  /** Aborts the upstream call, e.g. when the client disconnects */
+  signal?: AbortSignal;
+  /**
+   * Called with the tokens the call consumed, once the backend reports them
+   * Not called when the backend doesn't report usage or the call fails.
+   */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Result of a buffered (non-streaming) completion call
+ */
+export interface CompletionResult {
+  /** The first (preferred) completion */
+  text: string;
+  /** All generated alternatives, `text` included, at least one */
+  choices: string[];
+}
+
+/**
+ * A text generation backend
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  model: string;
+
+  /**
+   * Generate the full completion before returning
+   */
+  complete(params: CompletionParams): Promise<CompletionResult>;
+
+  /**
+   * Yield text deltas as the backend produces them
+   */
+  stream(params: CompletionParams): AsyncGenerator<string>;
+}
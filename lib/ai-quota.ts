@@ -0,0 +1,123 @@
+/**
+ * AI Quotas
+ *
+ * Per-user limits on the AI endpoints: a number of requests per minute
+ * (`AI_REQUESTS_PER_MINUTE`) and a daily token budget
+ * (`AI_DAILY_TOKEN_BUDGET`), both settable to 0 for no limit. Requests are
+ * counted in memory over a sliding minute; tokens come from the usage log
+ * (see `./ai-usage`) and the budget starts over at midnight UTC.
+ *
+ * A request that starts within the budget may finish past it, the next
+ * one is refused.
+ */
+
+import { NextResponse } from 'next/server';
+import { getTokensUsedToday } from './usage-store';
+import type { AIQuota, AIQuotaError, User } from './types';
+
+const DEFAULT_REQUESTS_PER_MINUTE = 20;
+const DEFAULT_DAILY_TOKEN_BUDGET = 100_000;
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * Read a limit from the environment, null when set to 0 (unlimited)
+ */
+function readLimit(name: string, fallback: number): number | null {
+  const value = Number(process.env[name] ?? fallback);
+  if (!Number.isFinite(value) || value < 0) return fallback;
+  return value === 0 ? null : Math.floor(value);
+}
+
+function getLimits() {
+  return {
+    requestsPerMinute: readLimit('AI_REQUESTS_PER_MINUTE', DEFAULT_REQUESTS_PER_MINUTE),
+    dailyTokenBudget: readLimit('AI_DAILY_TOKEN_BUDGET', DEFAULT_DAILY_TOKEN_BUDGET),
+  };
+}
+
+/**
+ * Start times of each user's requests within the last minute
+ */
+const recentRequests = new Map<string, number[]>();
+
+function getRecentRequests(userId: string, now: number): number[] {
+  const recent = (recentRequests.get(userId) ?? []).filter((time) => now - time < WINDOW_MS);
+  if (recent.length > 0) recentRequests.set(userId, recent);
+  else recentRequests.delete(userId);
+  return recent;
+}
+
+function nextUtcMidnight(now: number): Date {
+  const date = new Date(now);
+  date.setUTCHours(24, 0, 0, 0);
+  return date;
+}
+
+/**
+ * The limits of a user and what is left of them
+ */
+export async function getAIQuota(userId: string): Promise<AIQuota> {
+  const now = Date.now();
+  const { requestsPerMinute, dailyTokenBudget } = getLimits();
+  const tokensUsedToday = await getTokensUsedToday(userId);
+
+  return {
+    requestsPerMinute,
+    requestsRemaining:
+      requestsPerMinute === null
+        ? null
+        : Math.max(0, requestsPerMinute - getRecentRequests(userId, now).length),
+    dailyTokenBudget,
+    tokensUsedToday,
+    tokensRemaining: dailyTokenBudget === null ? null : Math.max(0, dailyTokenBudget - tokensUsedToday),
+    resetsAt: nextUtcMidnight(now).toISOString(),
+  };
+}
+
+function quotaErrorResponse(body: AIQuotaError): NextResponse {
+  return NextResponse.json(body, {
+    status: 429,
+    headers: { 'Retry-After': String(body.retryAfter) },
+  });
+}
+
+/**
+ * Count an AI request against the user's limits
+ *
+ * Returns the 429 response to send instead when a limit is reached, with
+ * an `AIQuotaError` body and a `Retry-After` header:
+ *
+ *   const limited = await consumeAIRequest(user);
+ *   if (limited) return limited;
+ */
+export async function consumeAIRequest(user: User): Promise<NextResponse | null> {
+  const now = Date.now();
+  const quota = await getAIQuota(user.id);
+
+  if (quota.tokensRemaining === 0) {
+    return quotaErrorResponse({
+      error: 'You have used up your AI token budget for today, it resets at midnight UTC',
+      code: 'quota_exceeded',
+      retryAfter: Math.ceil((Date.parse(quota.resetsAt) - now) / 1000),
+      quota,
+    });
+  }
+
+  // Re-read the window after the await, so concurrent requests see each other
+  const recent = getRecentRequests(user.id, now);
+  if (quota.requestsPerMinute !== null && recent.length >= quota.requestsPerMinute) {
+    const retryAfter = Math.max(1, Math.ceil((recent[0] + WINDOW_MS - now) / 1000));
+    return quotaErrorResponse({
+      error: `Too many AI requests, try again in ${retryAfter} seconds`,
+      code: 'rate_limited',
+      retryAfter,
+      quota,
+    });
+  }
+
+  if (quota.requestsPerMinute !== null) {
+    recentRequests.set(user.id, [...recent, now]);
+  }
+  return null;
+}
@@ -1,98 +1,480 @@
 /**
  * AI Service Module
  * 
- * Provides integration with OpenAI for text continuation functionality.
+ * Provides text continuation, rewrites, answers to comment threads and the
+ * document chat on top of the configured AI provider (see `lib/ai-providers`).
  */
 
-import { ContinueWritingRequest, ContinueWritingResponse } from './types';
+import { randomUUID } from 'crypto';
+import {
+  AIProvenance,
+  ChatMessage,
+  CommentMessage,
+  ContinueWritingRequest,
+  ContinueWritingResponse,
+  TransformOperation,
+  TransformRequest,
+  TransformResponse,
+} from './types';
+import { getAIProvider, getProviderInfo, type CompletionParams, type TokenUsage } from './ai-providers';
+import { DEFAULT_GENERATION_SETTINGS } from './generation-settings';
 
 /**
- * OpenAI API integration for text continuation
- * Uses GPT-3.5-turbo model for high-quality text generation
+ * Identify a new AI request: a fresh id, the model that will serve it
+ * (the configured one unless the request picks another) and the user who
+ * asked. Returned to the client so inserted text can record where it came from.
  */
-async function continueWithOpenAI(text: string, apiKey: string, maxTokens: number = 150): Promise<string> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
+export function createAIProvenance(requestedBy: string, model?: string): AIProvenance {
+  return { requestId: randomUUID(), model: model ?? getProviderInfo().model, requestedBy };
+}
+
+/**
+ * Tokens used by a call, see `AIRequestOptions.onUsage`
+ */
+export interface AIUsage extends TokenUsage {
+  /** The provider didn't report usage, so the counts are estimated from the text */
+  estimated: boolean;
+}
+
+/**
+ * Options that control a single AI call but are not part of the request body
+ */
+export interface AIRequestOptions {
+  /** Aborts the upstream provider call, e.g. when the client disconnects */
+  signal?: AbortSignal;
+  /**
+   * Called once with the tokens the call used: the provider's numbers when
+   * it reports them, an estimate otherwise (also for a stopped stream)
+   */
+  onUsage?: (usage: AIUsage) => void;
+  /**
+   * A prompt template rendered by the caller (see `./prompt-templates`),
+   * sent instead of the plain continuation prompt
+   */
+  templatePrompt?: string;
+}
+
+/**
+ * Rough token count for providers that don't report usage,
+ * about four characters per token
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Hand the provider's usage to `onUsage`, with `settle` to report an
+ * estimate instead when the call ended without it
+ */
+function trackUsage(params: CompletionParams, onUsage?: (usage: AIUsage) => void) {
+  let reported = false;
+
+  return {
+    params: {
+      ...params,
+      onUsage: (usage: TokenUsage) => {
+        reported = true;
+        onUsage?.({ ...usage, estimated: false });
+      },
     },
-    body: JSON.stringify({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful writing assistant. Continue the user\'s text naturally and coherently. Do not repeat what they wrote, just continue from where they left off.',
-        },
-        {
-          role: 'user',
-          content: `Continue writing this text naturally:\n\n${text}`,
-        },
-      ],
-      max_tokens: maxTokens,
-      temperature: 0.7,
-      stream: false,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || 'OpenAI API request failed');
+    settle(output: string[]) {
+      if (reported || !onUsage) return;
+      reported = true;
+      const prompt = [params.system, ...params.messages.map((message) => message.content)].join('\n');
+      onUsage({
+        promptTokens: estimateTokens(prompt),
+        completionTokens: output.reduce((sum, text) => sum + estimateTokens(text), 0),
+        estimated: true,
+      });
+    },
+  };
+}
+
+/**
+ * Upper bound for the `n` parameter of a continuation request
+ */
+export const MAX_CONTINUE_CANDIDATES = 5;
+
+const CONTINUE_SYSTEM_PROMPT =
+  'You are a helpful writing assistant. Continue the user\'s text naturally and coherently. Do not repeat what they wrote, just continue from where they left off. The text is Markdown; write your continuation in Markdown too, using headings, lists and emphasis only where they fit the document. Start with a blank line to begin a new paragraph.';
+
+const TEMPLATE_SYSTEM_PROMPT =
+  'You are a helpful writing assistant. Follow the user\'s instructions about their document. The text is Markdown; reply in Markdown with only the text to insert at the cursor, without commentary.';
+
+const CURSOR_MARKER = '<cursor/>';
+
+/**
+ * Build the user prompt, using fill-in-the-middle when there is text after the cursor
+ */
+function buildContinuePrompt(prefix: string, suffix: string): string {
+  if (!suffix.trim()) {
+    return `Continue writing this text naturally:\n\n${prefix}`;
   }
 
-  const data = await response.json();
-  const continuedText = data.choices[0]?.message?.content?.trim() || '';
-  
-  return continuedText;
+  return [
+    `Write the text that belongs at the ${CURSOR_MARKER} marker so that it continues the text before it and flows naturally into the text after it.`,
+    `Reply with only the text to insert, without the marker and without repeating the surrounding text.`,
+    '',
+    `${prefix}${CURSOR_MARKER}${suffix}`,
+  ].join('\n');
 }
 
 /**
- * Main function to continue writing using OpenAI
+ * Add the writer's own instructions, if any, to the built-in system prompt
+ * They come last so they can refine the style, the built-in rules still hold.
+ */
+function buildContinueSystemPrompt(systemPrompt: string | undefined, isTemplate: boolean): string {
+  const base = isTemplate ? TEMPLATE_SYSTEM_PROMPT : CONTINUE_SYSTEM_PROMPT;
+  if (!systemPrompt?.trim()) return base;
+  return `${base}\n\nThe writer asks you to follow these instructions:\n${systemPrompt.trim()}`;
+}
+
+/**
+ * Validate the request and build the provider-agnostic completion parameters
+ * Unset generation settings fall back to `DEFAULT_GENERATION_SETTINGS`.
+ */
+function buildContinueParams(
+  request: ContinueWritingRequest,
+  options: AIRequestOptions
+): CompletionParams {
+  const {
+    maxTokens = DEFAULT_GENERATION_SETTINGS.maxTokens,
+    temperature = DEFAULT_GENERATION_SETTINGS.temperature,
+    n = 1,
+  } = request;
+  const prefix = request.prefix ?? request.text ?? '';
+  const suffix = request.suffix ?? '';
+
+  // Validate input
+  if (!prefix.trim() && !suffix.trim()) {
+    throw new Error('Please provide some text to continue from');
+  }
+
+  return {
+    system: buildContinueSystemPrompt(request.systemPrompt, options.templatePrompt !== undefined),
+    messages: [
+      {
+        role: 'user',
+        content: options.templatePrompt ?? buildContinuePrompt(prefix, suffix),
+      },
+    ],
+    maxTokens,
+    temperature,
+    model: request.model,
+    n: Math.min(Math.max(Math.floor(n), 1), MAX_CONTINUE_CANDIDATES),
+    signal: options.signal,
+  };
+}
+
+/**
+ * Main function to continue writing using the configured provider
  * 
  * @param request - The continuation request with text and options
+ * @param options - Per-call options such as an abort signal
  * @returns Promise with the continued text and metadata
  */
 export async function continueWriting(
-  request: ContinueWritingRequest
+  request: ContinueWritingRequest,
+  options: AIRequestOptions = {}
 ): Promise<ContinueWritingResponse> {
   try {
-    const { text, maxTokens = 150 } = request;
+    const usage = trackUsage(buildContinueParams(request, options), options.onUsage);
+    const provider = getAIProvider();
+
+    const { text: continuedText, choices } = await provider.complete(usage.params);
+    usage.settle(choices);
+
+    return {
+      continuedText,
+      candidates: choices,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    
+    return {
+      continuedText: '',
+      candidates: [],
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Streaming counterpart of `continueWriting`
+ * 
+ * Yields text deltas as they arrive from the provider. Unlike `continueWriting`,
+ * errors are thrown so the caller can report them in-band.
+ */
+export async function* continueWritingStream(
+  request: ContinueWritingRequest,
+  options: AIRequestOptions = {}
+): AsyncGenerator<string> {
+  // Streams carry a single continuation
+  const usage = trackUsage({ ...buildContinueParams(request, options), n: 1 }, options.onUsage);
+  const provider = getAIProvider();
+  let output = '';
+
+  try {
+    for await (const delta of provider.stream(usage.params)) {
+      output += delta;
+      yield delta;
+    }
+  } finally {
+    // Also runs when the consumer stops early: the prompt is charged even
+    // when nothing was streamed yet, along with any partial output
+    usage.settle([output]);
+  }
+}
+
+const TRANSFORM_SYSTEM_PROMPT =
+  'You are a careful editor. Rewrite the text you are given, or write from it, as instructed. The text is Markdown; keep its structure and formatting unless the instruction says otherwise and reply in Markdown. Reply with only the resulting text, without quotes, code fences, commentary or explanations.';
+
+/**
+ * Instruction sent to the model for each rewrite operation
+ */
+const TRANSFORM_INSTRUCTIONS: Record<TransformOperation, string> = {
+  'rephrase': 'Rephrase this text, keeping its meaning and roughly its length.',
+  'shorten': 'Make this text more concise, keeping the key points.',
+  'expand': 'Expand this text with more detail while keeping its style.',
+  'fix-grammar': 'Fix spelling, grammar and punctuation mistakes in this text. Change nothing else.',
+  'change-tone': 'Rewrite this text in a {tone} tone, keeping its meaning.',
+  'summarize': 'Summarize this text in a short paragraph of a few sentences.',
+  'make-list': 'Turn this text into a bullet list of its points, keeping its wording where possible.',
+  'translate': 'Translate this text into {language}, keeping its formatting.',
+  'brainstorm': 'Brainstorm five to ten ideas that build on this text, as a bullet list with one short idea per item.',
+};
+
+/**
+ * Rewrite a selected range of text using the configured provider
+ * 
+ * @param request - The text, the operation and, for 'change-tone' and 'translate', the tone or language
+ * @param options - Per-call options such as an abort signal
+ * @returns Promise with the proposed replacement text
+ */
+export async function transformText(
+  request: TransformRequest,
+  options: AIRequestOptions = {}
+): Promise<TransformResponse> {
+  try {
+    const { text, operation, tone = 'formal', language = 'English' } = request;
 
     // Validate input
     if (!text || text.trim().length === 0) {
-      throw new Error('Please provide some text to continue from');
+      throw new Error('Please select some text to rewrite');
     }
 
-    // Get OpenAI API key from environment
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured. Please add OPENAI_API_KEY to your .env.local file');
-    }
+    const instruction = TRANSFORM_INSTRUCTIONS[operation]
+      .replace('{tone}', tone)
+      .replace('{language}', language);
+    const provider = getAIProvider();
+
+    const usage = trackUsage({
+      system: TRANSFORM_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: `${instruction}\n\n${text}`,
+        },
+      ],
+      // Leave room for 'expand' to roughly double the selection, and for ideas from a short one
+      maxTokens: Math.min(2048, Math.max(operation === 'brainstorm' ? 400 : 150, Math.ceil(text.length / 2))),
+      temperature: operation === 'fix-grammar' || operation === 'translate' ? 0 : 0.7,
+      signal: options.signal,
+    }, options.onUsage);
 
-    // Call OpenAI API
-    const continuedText = await continueWithOpenAI(text, apiKey, maxTokens);
+    const { text: transformedText } = await provider.complete(usage.params);
+    usage.settle([transformedText]);
 
     return {
-      continuedText,
+      transformedText,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    
+
     return {
-      continuedText: '',
+      transformedText: '',
       error: errorMessage,
     };
   }
 }
 
+const COMMENT_SYSTEM_PROMPT =
+  'You are a helpful writing assistant taking part in the review of a document. Answer the latest message of a comment thread about a passage of the document, briefly and specifically. Reply with only your answer, in plain text or simple Markdown, without repeating the passage.';
+
 /**
- * Check if OpenAI service is configured and ready
+ * A comment thread to answer, with the document it is about
  */
-export function isAIConfigured(): { configured: boolean; message: string } {
-  const hasKey = !!process.env.OPENAI_API_KEY;
-  
-  return {
-    configured: hasKey,
-    message: hasKey ? 'OpenAI configured' : 'OpenAI API key not found',
-  };
+export interface CommentQuestion {
+  /** The whole document, as Markdown */
+  document: string;
+  /** The passage the thread is about */
+  quote: string;
+  messages: Pick<CommentMessage, 'author' | 'body' | 'ai'>[];
+}
+
+/**
+ * Answer a comment thread using the configured provider
+ *
+ * @param question - The thread, its passage and the document
+ * @param options - Per-call options such as an abort signal
+ * @returns Promise with the answer to post into the thread
+ */
+export async function answerComment(
+  question: CommentQuestion,
+  options: AIRequestOptions = {}
+): Promise<{ answer: string; error?: string }> {
+  try {
+    const thread = question.messages
+      .map((message) => `${message.ai ? 'AI' : message.author}: ${message.body}`)
+      .join('\n\n');
+    const provider = getAIProvider();
+
+    const usage = trackUsage({
+      system: COMMENT_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            `Document:\n\n${question.document}`,
+            `Passage the thread is about:\n\n${question.quote}`,
+            `Thread:\n\n${thread}`,
+          ].join('\n\n---\n\n'),
+        },
+      ],
+      maxTokens: 400,
+      temperature: 0.3,
+      signal: options.signal,
+    }, options.onUsage);
+
+    const { text: answer } = await provider.complete(usage.params);
+    usage.settle([answer]);
+
+    if (!answer.trim()) {
+      throw new Error('The AI gave an empty answer');
+    }
+
+    return { answer };
+  } catch (error) {
+    return {
+      answer: '',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+}
+
+const CHAT_SYSTEM_PROMPT =
+  'You are a helpful writing assistant chatting with the author of a document. Answer questions about the document and help draft, rewrite or brainstorm text for it. The latest message comes with the current document and, when the author selected some, the selected text; both are Markdown. Reply in Markdown. When asked for text to put into the document, reply with only that text, without introductions or commentary, so it can be inserted as is.';
+
+/**
+ * Earlier messages sent along with a new one, older ones are left out
+ */
+const MAX_CHAT_HISTORY = 20;
+
+/**
+ * A chat about a document, ending with the user's new message
+ */
+export interface ChatConversation {
+  /** The whole document, as Markdown */
+  document: string;
+  /** The text selected in the editor, null when none is */
+  selection: string | null;
+  /** Oldest first */
+  messages: Pick<ChatMessage, 'role' | 'content'>[];
+}
+
+/**
+ * The turns sent to the model: the latest messages, starting with a user
+ * message and alternating roles (a message left without a reply is merged
+ * into the next one), the last one carrying the document and selection
+ */
+function buildChatMessages(conversation: ChatConversation): CompletionParams['messages'] {
+  const turns: CompletionParams['messages'] = [];
+
+  for (const message of conversation.messages.slice(-MAX_CHAT_HISTORY)) {
+    const last = turns[turns.length - 1];
+    if (!last && message.role === 'assistant') continue;
+    if (last?.role === message.role) {
+      last.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  const latest = turns[turns.length - 1];
+  if (latest?.role === 'user') {
+    latest.content = [
+      `Document:\n\n${conversation.document}`,
+      ...(conversation.selection ? [`Selected text:\n\n${conversation.selection}`] : []),
+      latest.content,
+    ].join('\n\n---\n\n');
+  }
+
+  return turns;
+}
+
+/**
+ * Stream the AI's reply to the latest message of a document chat
+ *
+ * Yields text deltas as they arrive from the provider. Errors are thrown so
+ * the caller can report them in-band, like `continueWritingStream`.
+ */
+export async function* chatStream(
+  conversation: ChatConversation,
+  options: AIRequestOptions = {}
+): AsyncGenerator<string> {
+  const usage = trackUsage({
+    system: CHAT_SYSTEM_PROMPT,
+    messages: buildChatMessages(conversation),
+    maxTokens: 800,
+    temperature: 0.5,
+    signal: options.signal,
+  }, options.onUsage);
+  const provider = getAIProvider();
+  let output = '';
+
+  try {
+    for await (const delta of provider.stream(usage.params)) {
+      output += delta;
+      yield delta;
+    }
+  } finally {
+    // Also runs when the consumer stops early: the prompt is charged even
+    // when nothing was streamed yet, along with any partial output
+    usage.settle([output]);
+  }
+}
+
+/**
+ * Check if the AI provider is configured and ready
+ * Reports the active provider and model alongside the status
+ */
+export function isAIConfigured(): {
+  configured: boolean;
+  message: string;
+  provider: string | null;
+  model: string | null;
+} {
+  try {
+    const provider = getAIProvider();
+    return {
+      configured: true,
+      message: `${provider.id} configured`,
+      provider: provider.id,
+      model: provider.model,
+    };
+  } catch (error) {
+    let info: { provider: string; model: string } | null = null;
+    try {
+      info = getProviderInfo();
+    } catch {
+      // Unknown AI_PROVIDER, nothing more to report
+    }
+
+    return {
+      configured: false,
+      message: error instanceof Error ? error.message : 'AI provider not configured',
+      provider: info?.provider ?? null,
+      model: info?.model ?? null,
+    };
+  }
 }
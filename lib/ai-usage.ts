@@ -0,0 +1,69 @@
+/**
+ * AI Usage Logging
+ *
+ * Follows one AI call from start to end and logs it to the usage store:
+ * who made it and from which document, the provider and model, tokens,
+ * latency, estimated cost and how it ended. The logged tokens also count
+ * against the user's daily budget (see `./ai-quota`).
+ */
+
+import { estimateCost } from './ai-pricing';
+import { getProviderInfo } from './ai-providers';
+import type { AIUsage } from './ai-service';
+import { recordUsage } from './usage-store';
+import type { AICallOutcome, AIEndpoint, AIProvenance, User } from './types';
+
+/**
+ * A started AI call: pass `onUsage` to the AI service, then `finish` once
+ * the call has ended
+ */
+export interface AICallTracker {
+  onUsage: (usage: AIUsage) => void;
+  /**
+   * Log the call; best effort, a failed write is reported on the console
+   * and never thrown
+   */
+  finish: (outcome: AICallOutcome) => Promise<void>;
+}
+
+/**
+ * Start timing an AI call made by `user`
+ */
+export function trackAICall(
+  user: User,
+  endpoint: AIEndpoint,
+  provenance: AIProvenance,
+  documentId: string | null
+): AICallTracker {
+  const startedAt = Date.now();
+  let usage: AIUsage = { promptTokens: 0, completionTokens: 0, estimated: false };
+
+  return {
+    onUsage(reported) {
+      usage = reported;
+    },
+
+    async finish(outcome) {
+      try {
+        const { provider } = getProviderInfo();
+        await recordUsage({
+          userId: user.id,
+          username: user.username,
+          endpoint,
+          documentId,
+          requestId: provenance.requestId,
+          provider,
+          model: provenance.model,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          estimated: usage.estimated,
+          latencyMs: Date.now() - startedAt,
+          costUsd: estimateCost(provider, provenance.model, usage),
+          outcome,
+        });
+      } catch (error) {
+        console.error('Error recording AI usage:', error);
+      }
+    },
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Audit Log
+ *
+ * Security events (sign-ins, failed attempts, lockouts) appended as JSON
+ * Lines to `data/audit.log`. Writing is best effort: a failed write is
+ * reported on the console but never fails the request that caused it.
+ */
+
+import type { NextRequest } from 'next/server';
+import { appendJsonLine, dataPath } from './json-store';
+
+export type AuditEvent = 'login_success' | 'login_failure' | 'login_locked' | 'logout';
+
+export interface AuditEntry {
+  event: AuditEvent;
+  /** The username given, whether or not such a user exists */
+  username: string | null;
+  /** Null when it isn't known, see `getRequestOrigin` */
+  ip: string | null;
+  userAgent: string | null;
+  /** Extra detail, e.g. the lockout duration */
+  detail?: string;
+}
+
+/**
+ * Number of reverse proxies in front of the server, which each append the
+ * address they were connected from to `X-Forwarded-For`
+ */
+function getTrustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT ?? 0);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+/**
+ * The client details recorded with each entry
+ *
+ * Route handlers don't see the connection's address, so the IP is only
+ * known behind trusted proxies (`TRUSTED_PROXY_COUNT`). It is then the
+ * address the outermost of them saw: entries further left in
+ * `X-Forwarded-For` come from the client and can be made up. Without
+ * trusted proxies the forwarding headers are ignored and the IP is null.
+ */
+export function getRequestOrigin(request: NextRequest): { ip: string | null; userAgent: string | null } {
+  const userAgent = request.headers.get('user-agent');
+  const proxies = getTrustedProxyCount();
+  if (proxies === 0) return { ip: null, userAgent };
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const ip = forwarded.length > 0
+    ? forwarded[Math.max(forwarded.length - proxies, 0)]
+    : request.headers.get('x-real-ip')?.trim();
+
+  return { ip: ip || null, userAgent };
+}
+
+/**
+ * Append an entry to the audit log, stamped with the current time
+ */
+export async function writeAuditLog(entry: AuditEntry): Promise<void> {
+  try {
+    await appendJsonLine(dataPath('audit.log'), { timestamp: new Date().toISOString(), ...entry });
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
+}
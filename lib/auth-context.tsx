@@ -2,48 +2,49 @@
  * Authentication Context
  * 
  * Provides authentication state management across the application.
- * Simple username/password authentication with session persistence.
+ * Simple username/password authentication with a server-side session.
  * 
- * Uses sessionStorage to persist authentication state across page refreshes.
- * Session is automatically cleared when the browser tab is closed.
+ * The session lives in a signed HTTP-only cookie set by `/api/auth/login`,
+ * so the state here is derived from `/api/auth/session` rather than stored
+ * in the browser.
  */
 
 'use client';
 
 import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import type { AuthSession, LoginResponse, SessionResponse } from './types';
 
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (username: string, password: string) => Promise<boolean>;
-  logout: () => void;
+  /** The current session, null when signed out */
+  session: AuthSession | null;
+  /** Resolves to the server's answer, including any lockout time */
+  login: (username: string, password: string) => Promise<LoginResponse>;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Session storage key for auth state
-const AUTH_SESSION_KEY = 'ai_editor_auth';
-
 /**
  * Authentication Provider Component
  */
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [session, setSession] = useState<AuthSession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   /**
-   * Check if user is already authenticated on mount
+   * Check if the session cookie is still valid on mount
    * Runs only once when component mounts
    */
   useEffect(() => {
-    const checkAuthStatus = () => {
+    const checkAuthStatus = async () => {
       try {
-        const authStatus = sessionStorage.getItem(AUTH_SESSION_KEY);
-        if (authStatus === 'true') {
-          setIsAuthenticated(true);
-        }
+        const response = await fetch('/api/auth/session');
+        const data: SessionResponse = await response.json();
+        setSession(response.ok && data.authenticated && data.session ? data.session : null);
       } catch (error) {
-        console.error('Error reading auth status from sessionStorage:', error);
+        console.error('Error checking session:', error);
       } finally {
         setIsLoading(false);
       }
@@ -54,9 +55,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   /**
    * Login function - validates credentials against backend
-   * On success, stores auth state in sessionStorage
+   * On success, the backend sets the session cookie
    */
-  const login = useCallback(async (username: string, password: string): Promise<boolean> => {
+  const login = useCallback(async (username: string, password: string): Promise<LoginResponse> => {
     try {
       const response = await fetch('/api/auth/login', {
         method: 'POST',
@@ -66,31 +67,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         body: JSON.stringify({ username, password }),
       });
 
-      if (response.ok) {
-        // Store authenticated state in sessionStorage
-        sessionStorage.setItem(AUTH_SESSION_KEY, 'true');
-        setIsAuthenticated(true);
-        return true;
+      const data: LoginResponse = await response.json();
+      if (response.ok && data.session) {
+        setSession(data.session);
       }
       
-      return false;
+      return data;
     } catch (error) {
       console.error('Login error:', error);
-      return false;
+      return { success: false, message: 'An error occurred. Please try again.' };
     }
   }, []);
 
   /**
-   * Logout function - clears auth state and sessionStorage
+   * Logout function - clears the session cookie on the backend
+   * Signs out locally first, so the editor flushes its last save while the
+   * cookie is still valid, and even when the request fails
    */
-  const logout = useCallback(() => {
-    // Clear sessionStorage
-    sessionStorage.removeItem(AUTH_SESSION_KEY);
-    setIsAuthenticated(false);
+  const logout = useCallback(async () => {
+    setSession(null);
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Logout error:', error);
+    }
   }, []);
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, isLoading, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated: session !== null, isLoading, session, login, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,98 @@
+/**
+ * Chat Store
+ *
+ * Server-side history of the assistant chats about stored documents. Each
+ * user has their own conversation per document; the conversations of a
+ * document are kept oldest message first in one JSON file under
+ * `data/chats/`, keyed by user id.
+ */
+
+import { randomUUID } from 'crypto';
+import { isDocumentId } from './document-store';
+import { dataPath, deleteFile, readJsonFile, withFileLock, writeJsonFile } from './json-store';
+import type { AIProvenance, ChatMessage } from './types';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+/**
+ * Longer selections are cut before they are sent along with a message
+ */
+export const MAX_CHAT_SELECTION_LENGTH = 10000;
+
+/**
+ * Messages kept per conversation, older ones are dropped
+ */
+const MAX_STORED_MESSAGES = 200;
+
+type DocumentChats = Record<string, ChatMessage[]>;
+
+function chatsPath(documentId: string): string {
+  return dataPath('chats', `${documentId}.json`);
+}
+
+function readChats(documentId: string): Promise<DocumentChats> {
+  return readJsonFile<DocumentChats>(chatsPath(documentId), {});
+}
+
+/**
+ * Build a message; `ai` is set for AI replies
+ */
+export function createChatMessage(
+  role: ChatMessage['role'],
+  author: string,
+  content: string,
+  options: { selection?: string | null; ai?: AIProvenance | null } = {}
+): ChatMessage {
+  return {
+    id: randomUUID(),
+    role,
+    content,
+    author,
+    createdAt: new Date().toISOString(),
+    selection: options.selection ?? null,
+    ai: options.ai ?? null,
+  };
+}
+
+/**
+ * The conversation of a user about a document, oldest message first
+ */
+export async function listChatMessages(documentId: string, userId: string): Promise<ChatMessage[]> {
+  if (!isDocumentId(documentId)) return [];
+  return (await readChats(documentId))[userId] ?? [];
+}
+
+/**
+ * Add messages to the end of a user's conversation
+ */
+export async function addChatMessages(documentId: string, userId: string, messages: ChatMessage[]): Promise<void> {
+  if (!isDocumentId(documentId)) return;
+
+  await withFileLock(chatsPath(documentId), async () => {
+    const chats = await readChats(documentId);
+    chats[userId] = [...(chats[userId] ?? []), ...messages].slice(-MAX_STORED_MESSAGES);
+    await writeJsonFile(chatsPath(documentId), chats);
+  });
+}
+
+/**
+ * Start a user's conversation about a document over
+ */
+export async function clearChat(documentId: string, userId: string): Promise<void> {
+  if (!isDocumentId(documentId)) return;
+
+  await withFileLock(chatsPath(documentId), async () => {
+    const chats = await readChats(documentId);
+    if (!chats[userId]) return;
+    delete chats[userId];
+    await writeJsonFile(chatsPath(documentId), chats);
+  });
+}
+
+/**
+ * Delete every conversation about a document, e.g. when the document is deleted
+ */
+export async function deleteChats(documentId: string): Promise<void> {
+  if (!isDocumentId(documentId)) return;
+  await withFileLock(chatsPath(documentId), () => deleteFile(chatsPath(documentId)));
+}
@@ -0,0 +1,352 @@
+/**
+ * Collaboration Authority
+ *
+ * The central authority of prosemirror-collab for shared documents. Holds
+ * each open document in memory with the steps accepted since it was
+ * opened, accepts steps sent against its current version, and pushes
+ * accepted steps, selections and saves to every tab that has it open.
+ * Accepted steps are stored through the document store a moment after they
+ * stop coming, so the store lags a second behind while a document is open.
+ *
+ * A document leaves memory once nobody has it open. Version numbers start
+ * over when it is opened again, under a new session id.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import { Mapping, Step, type StepResult } from 'prosemirror-transform';
+import { getDocument, updateDocument } from './document-store';
+import { editorSchema } from './editor-schema';
+import { createVersion } from './version-store';
+import type {
+  CollabEvent,
+  CollabParticipant,
+  CollabSelection,
+  DocumentContent,
+  StepJSON,
+} from './types';
+
+/**
+ * A request the authority refuses; the message is safe to show
+ * `status` is the HTTP status to answer with.
+ */
+export class CollabError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'CollabError';
+  }
+}
+
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Most accepted steps kept; tabs further behind are sent the whole document
+ */
+const MAX_KEPT_STEPS = 1000;
+
+/**
+ * Receives the events of one open tab
+ */
+export type CollabListener = (event: CollabEvent) => void;
+
+interface SharedDocument {
+  id: string;
+  session: string;
+  doc: ProseMirrorNode;
+  version: number;
+  /** The last accepted steps, the final one leading to `version` */
+  steps: { step: Step; clientId: string }[];
+  participants: Map<string, { participant: CollabParticipant; listener: CollabListener }>;
+  savedVersion: number;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+  /** Username of who sent the latest unsaved steps */
+  lastEditor: string | null;
+}
+
+/**
+ * Open documents by id, loading ones included
+ */
+const openDocuments = new Map<string, Promise<SharedDocument | null>>();
+
+async function openDocument(id: string): Promise<SharedDocument | null> {
+  let opened = openDocuments.get(id);
+  if (!opened) {
+    opened = getDocument(id).then((stored) => stored && {
+      id,
+      session: randomUUID(),
+      doc: editorSchema.nodeFromJSON(stored.content),
+      version: 0,
+      steps: [],
+      participants: new Map(),
+      savedVersion: 0,
+      saveTimer: null,
+      lastEditor: null,
+    });
+    openDocuments.set(id, opened);
+  }
+
+  const shared = await opened;
+  if (!shared) openDocuments.delete(id);
+  return shared;
+}
+
+/**
+ * The current document of an open shared document, which runs ahead of the
+ * stored one until its steps are saved; null when nobody has it open
+ */
+export async function getOpenDoc(id: string): Promise<ProseMirrorNode | null> {
+  const opened = openDocuments.get(id);
+  const shared = opened && await opened;
+  return shared ? shared.doc : null;
+}
+
+/**
+ * Whether someone has the document open, so that only its steps may change it
+ */
+export function isDocumentOpen(id: string): boolean {
+  return openDocuments.has(id);
+}
+
+/**
+ * Let go of a deleted document without storing it again, and tell its tabs
+ */
+export async function closeDocument(id: string): Promise<void> {
+  const opened = openDocuments.get(id);
+  if (!opened) return;
+  openDocuments.delete(id);
+
+  const shared = await opened;
+  if (!shared) return;
+  if (shared.saveTimer) clearTimeout(shared.saveTimer);
+  shared.saveTimer = null;
+  shared.lastEditor = null;
+
+  broadcast(shared, { type: 'deleted' });
+  shared.participants.clear();
+}
+
+function getParticipants(shared: SharedDocument): CollabParticipant[] {
+  return Array.from(shared.participants.values(), ({ participant }) => participant);
+}
+
+/**
+ * Send an event to every open tab
+ * A tab whose stream has failed is left to leave on its own.
+ */
+function broadcast(shared: SharedDocument, event: CollabEvent): void {
+  for (const { listener } of shared.participants.values()) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error sending collaboration event:', error);
+    }
+  }
+}
+
+function broadcastPresence(shared: SharedDocument): void {
+  broadcast(shared, { type: 'presence', version: shared.version, participants: getParticipants(shared) });
+}
+
+/**
+ * Steps accepted after `version`, or null when they are no longer kept
+ */
+function stepsSince(shared: SharedDocument, version: number) {
+  const start = version - (shared.version - shared.steps.length);
+  if (version > shared.version || start < 0) return null;
+  return shared.steps.slice(start);
+}
+
+/**
+ * Store the document as of its current version, with an autosave snapshot
+ */
+async function saveDocument(shared: SharedDocument): Promise<void> {
+  if (shared.saveTimer) clearTimeout(shared.saveTimer);
+  shared.saveTimer = null;
+  if (shared.savedVersion === shared.version || !shared.lastEditor) return;
+
+  const version = shared.version;
+  const content = shared.doc.toJSON() as DocumentContent;
+
+  try {
+    const document = await updateDocument(shared.id, shared.lastEditor, { content });
+    if (!document) return;
+    shared.savedVersion = version;
+
+    // A failed snapshot must not fail the save itself
+    await createVersion(shared.id, { trigger: 'autosave', content, createdBy: shared.lastEditor }).catch((error) => {
+      console.error('Error recording autosave version:', error);
+    });
+
+    const { id, title, createdAt, updatedAt, createdBy, updatedBy } = document;
+    broadcast(shared, { type: 'saved', version, document: { id, title, createdAt, updatedAt, createdBy, updatedBy } });
+  } catch (error) {
+    console.error('Error saving shared document:', error);
+  }
+}
+
+/**
+ * Open a document in a tab and start sending it events
+ *
+ * A tab that was already in sync at `since` (e.g. after losing its
+ * connection) is sent the steps it missed; otherwise it is sent the whole
+ * document. Returns a function that closes the tab, or null when the
+ * document doesn't exist.
+ */
+export async function joinDocument(
+  id: string,
+  participant: Omit<CollabParticipant, 'selection'>,
+  listener: CollabListener,
+  since?: { session: string; version: number }
+): Promise<(() => void) | null> {
+  const shared = await openDocument(id);
+  if (!shared) return null;
+
+  // Another tab with the same id replaces the old one
+  shared.participants.set(participant.clientId, { participant: { ...participant, selection: null }, listener });
+
+  const missed = since?.session === shared.session ? stepsSince(shared, since.version) : null;
+  if (missed && since) {
+    if (missed.length > 0) {
+      listener({
+        type: 'steps',
+        version: since.version,
+        steps: missed.map(({ step }) => step.toJSON()),
+        clientIds: missed.map(({ clientId }) => clientId),
+      });
+    }
+  } else {
+    listener({
+      type: 'init',
+      session: shared.session,
+      version: shared.version,
+      content: shared.doc.toJSON() as DocumentContent,
+      participants: getParticipants(shared),
+    });
+  }
+  broadcastPresence(shared);
+
+  return () => {
+    if (shared.participants.get(participant.clientId)?.listener !== listener) return;
+    shared.participants.delete(participant.clientId);
+    broadcastPresence(shared);
+
+    // The last tab closed: store what is left and let the document go
+    if (shared.participants.size === 0) {
+      saveDocument(shared).finally(() => {
+        if (shared.participants.size === 0) openDocuments.delete(id);
+      });
+    }
+  };
+}
+
+/**
+ * The open document and tab a request of user `userId` is for, throwing
+ * `CollabError` when the tab isn't connected or was opened by someone else
+ */
+async function getOpenTab(id: string, clientId: string, userId: string) {
+  const shared = await openDocuments.get(id);
+  const tab = shared?.participants.get(clientId);
+  if (!shared || !tab) {
+    throw new CollabError('This tab is not connected to the document', 409);
+  }
+  if (tab.participant.userId !== userId) {
+    throw new CollabError('This tab belongs to someone else', 403);
+  }
+  return { shared, tab };
+}
+
+/**
+ * Accept steps from a tab of user `userId` and send them to every tab
+ *
+ * Throws `CollabError` with status 409 when `version` is behind: the tab
+ * must first apply the steps it is being sent, then send its own again.
+ * Returns the new version.
+ */
+export async function receiveSteps(
+  id: string,
+  clientId: string,
+  userId: string,
+  version: number,
+  stepsJSON: StepJSON[]
+): Promise<number> {
+  const { shared, tab } = await getOpenTab(id, clientId, userId);
+
+  if (version !== shared.version) {
+    throw new CollabError('The document has changed, apply the latest steps first', 409);
+  }
+
+  // Apply every step before accepting any
+  let doc = shared.doc;
+  const steps = stepsJSON.map((json) => {
+    let step: Step;
+    let result: StepResult;
+    try {
+      step = Step.fromJSON(editorSchema, json);
+      result = step.apply(doc);
+    } catch {
+      throw new CollabError('Invalid step');
+    }
+    if (!result.doc) {
+      throw new CollabError(`Step could not be applied: ${result.failed}`);
+    }
+    doc = result.doc;
+    return step;
+  });
+
+  if (steps.length === 0) return shared.version;
+
+  shared.doc = doc;
+  shared.version += steps.length;
+  shared.steps.push(...steps.map((step) => ({ step, clientId })));
+  if (shared.steps.length > MAX_KEPT_STEPS) {
+    shared.steps.splice(0, shared.steps.length - MAX_KEPT_STEPS);
+  }
+
+  // Keep everyone's selection in step with the document, mapped like the
+  // tabs map their own (text typed at a cursor ends up after it)
+  const mapping = new Mapping(steps.map((step) => step.getMap()));
+  for (const { participant } of shared.participants.values()) {
+    if (!participant.selection) continue;
+    participant.selection = {
+      anchor: mapping.map(participant.selection.anchor, -1),
+      head: mapping.map(participant.selection.head, -1),
+    };
+  }
+
+  broadcast(shared, {
+    type: 'steps',
+    version,
+    steps: steps.map((step) => step.toJSON()),
+    clientIds: steps.map(() => clientId),
+  });
+
+  shared.lastEditor = tab.participant.username;
+  if (shared.saveTimer) clearTimeout(shared.saveTimer);
+  shared.saveTimer = setTimeout(() => saveDocument(shared), SAVE_DELAY_MS);
+
+  return shared.version;
+}
+
+/**
+ * Record where a tab's selection is and tell the other tabs
+ * A selection from an older version is mapped forward, one too old to map is dropped.
+ */
+export async function updateSelection(
+  id: string,
+  clientId: string,
+  userId: string,
+  version: number,
+  selection: CollabSelection | null
+): Promise<void> {
+  const { shared, tab } = await getOpenTab(id, clientId, userId);
+
+  const missed = stepsSince(shared, version);
+  if (!missed) return;
+
+  const mapping = new Mapping(missed.map(({ step }) => step.getMap()));
+  const size = shared.doc.content.size;
+  const map = (pos: number) => Math.min(Math.max(mapping.map(pos, -1), 0), size);
+
+  tab.participant.selection = selection && { anchor: map(selection.anchor), head: map(selection.head) };
+  broadcastPresence(shared);
+}
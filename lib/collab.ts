@@ -0,0 +1,189 @@
+/**
+ * Collaborative Editing
+ *
+ * Client side of real-time collaboration: the prosemirror-collab plugin
+ * that tracks which local steps the server has not confirmed yet, applying
+ * the steps of other tabs, and the other participants' cursors and name
+ * labels drawn as decorations. The server side is `./collab-authority`.
+ */
+
+import { EditorState, Plugin, PluginKey, type Transaction } from 'prosemirror-state';
+import { Decoration, DecorationSet, type EditorView } from 'prosemirror-view';
+import { Mapping, Step } from 'prosemirror-transform';
+import { collab, getVersion, receiveTransaction, sendableSteps } from 'prosemirror-collab';
+import { editorSchema } from './editor-schema';
+import { PRESERVE_PROVENANCE_META } from './provenance';
+import type { CollabEvent, CollabParticipant, DocumentContent, StepJSON } from './types';
+
+/**
+ * Transaction meta for steps made in another tab
+ */
+export const REMOTE_STEPS_META = 'remoteSteps';
+
+/**
+ * Cursor colours, picked per user so each person keeps theirs in every tab
+ */
+const CURSOR_COLORS = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#dc2626', '#0891b2', '#65a30d'];
+
+/**
+ * The colour of a participant's cursor
+ */
+export function getParticipantColor(userId: string): string {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+}
+
+/**
+ * A new random id for this tab, also its prosemirror-collab client id
+ */
+export function createClientId(): string {
+  return crypto.randomUUID();
+}
+
+const remoteCursorsKey = new PluginKey<DecorationSet>('remoteCursors');
+
+/**
+ * Draw the other participants' selections and cursors with name labels
+ * They are redrawn from each presence event and mapped through edits in between.
+ */
+function createRemoteCursorsPlugin(): Plugin<DecorationSet> {
+  return new Plugin<DecorationSet>({
+    key: remoteCursorsKey,
+    state: {
+      init: () => DecorationSet.empty,
+      apply(tr, decorations) {
+        const meta = tr.getMeta(remoteCursorsKey) as DecorationSet | undefined;
+        return meta ?? decorations.map(tr.mapping, tr.doc);
+      },
+    },
+    props: {
+      decorations: (state) => remoteCursorsKey.getState(state),
+    },
+  });
+}
+
+function createCursorWidget(participant: CollabParticipant, color: string): HTMLElement {
+  const caret = document.createElement('span');
+  caret.className = 'collab-cursor';
+  caret.style.borderColor = color;
+
+  const label = document.createElement('span');
+  label.className = 'collab-cursor-label';
+  label.style.backgroundColor = color;
+  label.textContent = participant.username;
+  caret.appendChild(label);
+
+  return caret;
+}
+
+/**
+ * Plugins added by `loadSharedDocument`, replaced each time it loads
+ */
+const collabPlugins = new WeakSet<Plugin>();
+
+/**
+ * The plugins that make a state collaborative, synced up to `version`
+ */
+function createCollabPlugins(version: number, clientId: string): Plugin[] {
+  const plugins = [collab({ version, clientID: clientId }), createRemoteCursorsPlugin()];
+  plugins.forEach((plugin) => collabPlugins.add(plugin));
+  return plugins;
+}
+
+/**
+ * Load the document a collaboration stream started with
+ * Starts from a fresh state, so undo history doesn't reach into the previous document.
+ */
+export function loadSharedDocument(
+  view: EditorView,
+  content: DocumentContent,
+  version: number,
+  clientId: string
+): void {
+  view.updateState(EditorState.create({
+    doc: editorSchema.nodeFromJSON(content),
+    plugins: [
+      ...createCollabPlugins(version, clientId),
+      ...view.state.plugins.filter((plugin) => !collabPlugins.has(plugin)),
+    ],
+  }));
+}
+
+/**
+ * Whether the view is set up for collaboration, see `loadSharedDocument`
+ */
+export function isShared(state: EditorState): boolean {
+  return remoteCursorsKey.get(state) !== undefined;
+}
+
+/**
+ * Apply steps accepted by the server: other tabs' edits, and confirmations of our own
+ * Returns false when they don't follow on from the version this tab has, so it must start over.
+ */
+export function receiveSteps(view: EditorView, event: Extract<CollabEvent, { type: 'steps' }>): boolean {
+  if (event.version !== getVersion(view.state)) return false;
+
+  const steps = event.steps.map((json) => Step.fromJSON(editorSchema, json));
+  const tr: Transaction = receiveTransaction(view.state, steps, event.clientIds, { mapSelectionBackward: true });
+  tr.setMeta(PRESERVE_PROVENANCE_META, true);
+  tr.setMeta(REMOTE_STEPS_META, true);
+  view.dispatch(tr);
+  return true;
+}
+
+/**
+ * Show where the other participants are
+ * Their positions are in the server's version, which this tab may have
+ * edited on top of; those edits are mapped over. Ignored when the tab isn't
+ * at that version.
+ */
+export function showParticipants(
+  view: EditorView,
+  event: Extract<CollabEvent, { type: 'presence' | 'init' }>,
+  clientId: string
+): void {
+  const { state } = view;
+  if (event.version !== getVersion(state)) return;
+
+  const mapping = new Mapping(sendableSteps(state)?.steps.map((step) => step.getMap()));
+  const size = state.doc.content.size;
+  const map = (pos: number) => Math.min(mapping.map(pos), size);
+
+  const decorations: Decoration[] = [];
+  for (const participant of event.participants) {
+    if (participant.clientId === clientId || !participant.selection) continue;
+
+    const color = getParticipantColor(participant.userId);
+    const anchor = map(participant.selection.anchor);
+    const head = map(participant.selection.head);
+    const from = Math.min(anchor, head);
+    const to = Math.max(anchor, head);
+
+    if (from < to) {
+      decorations.push(Decoration.inline(from, to, { style: `background-color: ${color}33` }));
+    }
+    decorations.push(Decoration.widget(head, () => createCursorWidget(participant, color), {
+      key: `cursor:${participant.clientId}:${participant.username}:${color}`,
+      side: -1,
+    }));
+  }
+
+  view.dispatch(state.tr.setMeta(remoteCursorsKey, DecorationSet.create(state.doc, decorations)));
+}
+
+/**
+ * What this tab has to send: its unconfirmed steps and the version they are based on
+ */
+export function getSendableSteps(state: EditorState): { version: number; steps: StepJSON[] } | null {
+  const sendable = sendableSteps(state);
+  if (!sendable) return null;
+  return { version: sendable.version, steps: sendable.steps.map((step) => step.toJSON() as StepJSON) };
+}
+
+/**
+ * The version this tab has synced up to
+ */
+export function getSyncedVersion(state: EditorState): number {
+  return getVersion(state);
+}
@@ -0,0 +1,192 @@
+/**
+ * Comment Store
+ *
+ * Server-side review threads of stored documents. The threads of a document
+ * are kept oldest first in one JSON file under `data/comments/`; the text
+ * each one is about is marked in the document itself by `comment` marks
+ * carrying the thread id, so the anchors are stored and shared along with
+ * the content.
+ */
+
+import { randomUUID } from 'crypto';
+import { isDocumentId } from './document-store';
+import { dataPath, deleteFile, readJsonFile, withFileLock, writeJsonFile } from './json-store';
+import type { AIProvenance, CommentMessage, CommentThread } from './types';
+
+/**
+ * A change the store refuses, e.g. an empty message; the message is safe to show
+ * `status` is the HTTP status to answer with.
+ */
+export class CommentStoreError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'CommentStoreError';
+  }
+}
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * Longer quotes are cut, they only remind readers what the thread was about
+ */
+const MAX_QUOTE_LENGTH = 1000;
+
+/**
+ * Thread ids are UUIDs picked by the client that marks the text
+ */
+const THREAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function commentsPath(documentId: string): string {
+  return dataPath('comments', `${documentId}.json`);
+}
+
+function readThreads(documentId: string): Promise<CommentThread[]> {
+  return readJsonFile<CommentThread[]>(commentsPath(documentId), []);
+}
+
+/**
+ * Trim a message and check its length, throwing `CommentStoreError`
+ */
+function checkBody(body: string): string {
+  const trimmed = body.trim();
+  if (!trimmed || trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new CommentStoreError(`Comments are 1-${MAX_COMMENT_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function createMessage(author: string, body: string, ai: AIProvenance | null = null): CommentMessage {
+  return { id: randomUUID(), author, body, createdAt: new Date().toISOString(), ai };
+}
+
+/**
+ * Apply `change` to a thread and store the result
+ * Returns the changed thread, or null when the thread doesn't exist.
+ */
+async function changeThread(
+  documentId: string,
+  threadId: string,
+  change: (thread: CommentThread) => CommentThread
+): Promise<CommentThread | null> {
+  if (!isDocumentId(documentId)) return null;
+
+  return withFileLock(commentsPath(documentId), async () => {
+    const threads = await readThreads(documentId);
+    const index = threads.findIndex((thread) => thread.id === threadId);
+    if (index === -1) return null;
+
+    const changed = change(threads[index]);
+    await writeJsonFile(commentsPath(documentId), threads.map((thread, i) => (i === index ? changed : thread)));
+    return changed;
+  });
+}
+
+/**
+ * List the threads of a document, oldest first
+ */
+export async function listThreads(documentId: string): Promise<CommentThread[]> {
+  if (!isDocumentId(documentId)) return [];
+  return readThreads(documentId);
+}
+
+/**
+ * Get a thread, or null when it doesn't exist
+ */
+export async function getThread(documentId: string, threadId: string): Promise<CommentThread | null> {
+  return (await listThreads(documentId)).find((thread) => thread.id === threadId) ?? null;
+}
+
+/**
+ * Start a thread about `quote` with a first message by `username`
+ * Throws `CommentStoreError` for a malformed or taken id or an invalid message.
+ */
+export async function createThread(
+  documentId: string,
+  username: string,
+  input: { id: string; quote: string; body: string }
+): Promise<CommentThread> {
+  if (!isDocumentId(documentId)) {
+    throw new CommentStoreError('Document not found', 404);
+  }
+  if (!THREAD_ID_PATTERN.test(input.id)) {
+    throw new CommentStoreError('Thread ids are lowercase UUIDs');
+  }
+  const body = checkBody(input.body);
+
+  return withFileLock(commentsPath(documentId), async () => {
+    const threads = await readThreads(documentId);
+    if (threads.some((thread) => thread.id === input.id)) {
+      throw new CommentStoreError('A thread with this id already exists', 409);
+    }
+
+    const message = createMessage(username, body);
+    const thread: CommentThread = {
+      id: input.id,
+      documentId,
+      quote: input.quote.slice(0, MAX_QUOTE_LENGTH),
+      messages: [message],
+      resolved: false,
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: message.createdAt,
+      createdBy: username,
+    };
+
+    await writeJsonFile(commentsPath(documentId), [...threads, thread]);
+    return thread;
+  });
+}
+
+/**
+ * Reply to a thread on behalf of `username` and/or resolve or reopen it
+ * Returns the updated thread, or null when it doesn't exist. Throws
+ * `CommentStoreError` for an invalid reply.
+ */
+export async function updateThread(
+  documentId: string,
+  threadId: string,
+  username: string,
+  changes: { reply?: string; resolved?: boolean }
+): Promise<CommentThread | null> {
+  const reply = changes.reply === undefined ? null : checkBody(changes.reply);
+
+  return changeThread(documentId, threadId, (thread) => {
+    const updated = { ...thread };
+    if (reply) {
+      updated.messages = [...thread.messages, createMessage(username, reply)];
+    }
+    if (changes.resolved !== undefined && changes.resolved !== thread.resolved) {
+      updated.resolved = changes.resolved;
+      if (changes.resolved) {
+        updated.resolvedBy = username;
+        updated.resolvedAt = new Date().toISOString();
+      }
+    }
+    return updated;
+  });
+}
+
+/**
+ * Add the AI's answer to a thread, asked for by `username`
+ * Returns the updated thread, or null when it doesn't exist.
+ */
+export async function addAIReply(
+  documentId: string,
+  threadId: string,
+  username: string,
+  body: string,
+  provenance: AIProvenance
+): Promise<CommentThread | null> {
+  return changeThread(documentId, threadId, (thread) => ({
+    ...thread,
+    messages: [...thread.messages, createMessage(username, body.trim().slice(0, MAX_COMMENT_LENGTH), provenance)],
+  }));
+}
+
+/**
+ * Delete every thread of a document, e.g. when the document is deleted
+ */
+export async function deleteThreads(documentId: string): Promise<void> {
+  if (!isDocumentId(documentId)) return;
+  await withFileLock(commentsPath(documentId), () => deleteFile(commentsPath(documentId)));
+}
@@ -0,0 +1,153 @@
+/**
+ * Document Store
+ *
+ * Server-side persistence for editor documents. Each document is one JSON
+ * file under `data/documents/`, holding its title, timestamps, who created
+ * and last saved it, its generation settings and the ProseMirror JSON of
+ * its content.
+ */
+
+import { randomUUID } from 'crypto';
+import { editorSchema } from './editor-schema';
+import {
+  dataPath,
+  deleteFile,
+  listJsonFiles,
+  readJsonFile,
+  withFileLock,
+  writeJsonFile,
+} from './json-store';
+import type { DocumentContent, DocumentSummary, GenerationSettings, StoredDocument } from './types';
+
+/**
+ * Title given to documents created without one
+ */
+export const DEFAULT_DOCUMENT_TITLE = 'Untitled document';
+
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Document ids are generated UUIDs; anything else never names a file
+ */
+const DOCUMENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function documentPath(id: string): string {
+  return dataPath('documents', `${id}.json`);
+}
+
+/**
+ * Check whether `id` is well-formed, so it can't point outside the store
+ */
+export function isDocumentId(id: string): boolean {
+  return DOCUMENT_ID_PATTERN.test(id);
+}
+
+/**
+ * Check that `content` is a document `editorSchema` accepts
+ */
+export function isDocumentContent(content: unknown): content is DocumentContent {
+  try {
+    editorSchema.nodeFromJSON(content).check();
+    return (content as DocumentContent).type === 'doc';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Trim a title and fall back to the default for empty ones
+ */
+export function normalizeTitle(title: string | undefined): string {
+  const trimmed = title?.trim().slice(0, MAX_TITLE_LENGTH);
+  return trimmed || DEFAULT_DOCUMENT_TITLE;
+}
+
+function emptyContent(): DocumentContent {
+  return editorSchema.topNodeType.createAndFill()!.toJSON() as DocumentContent;
+}
+
+function toSummary({ id, title, createdAt, updatedAt, createdBy, updatedBy }: StoredDocument): DocumentSummary {
+  // Documents saved before accounts existed have no authors
+  return { id, title, createdAt, updatedAt, createdBy: createdBy ?? null, updatedBy: updatedBy ?? null };
+}
+
+/**
+ * List all documents, most recently updated first
+ */
+export async function listDocuments(): Promise<DocumentSummary[]> {
+  const ids = await listJsonFiles(dataPath('documents'));
+  const documents = await Promise.all(ids.filter(isDocumentId).map(getDocument));
+
+  return documents
+    .filter((document): document is StoredDocument => document !== null)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Get a document with its content, or null when it doesn't exist
+ */
+export async function getDocument(id: string): Promise<StoredDocument | null> {
+  if (!isDocumentId(id)) return null;
+  const document = await readJsonFile<StoredDocument | null>(documentPath(id), null);
+  return document && { ...document, ...toSummary(document) };
+}
+
+/**
+ * Create a document for `username`, empty unless `content` is given
+ */
+export async function createDocument(
+  username: string,
+  input: { title?: string; content?: DocumentContent } = {}
+): Promise<StoredDocument> {
+  const now = new Date().toISOString();
+  const document: StoredDocument = {
+    id: randomUUID(),
+    title: normalizeTitle(input.title),
+    createdAt: now,
+    updatedAt: now,
+    createdBy: username,
+    updatedBy: username,
+    content: input.content ?? emptyContent(),
+  };
+
+  await writeJsonFile(documentPath(document.id), document);
+  return document;
+}
+
+/**
+ * Save new content, a new title and/or new generation settings on behalf of `username`
+ * Returns the updated document, or null when it doesn't exist
+ */
+export async function updateDocument(
+  id: string,
+  username: string,
+  changes: { title?: string; content?: DocumentContent; settings?: GenerationSettings }
+): Promise<StoredDocument | null> {
+  if (!isDocumentId(id)) return null;
+
+  return withFileLock(documentPath(id), async () => {
+    const document = await getDocument(id);
+    if (!document) return null;
+
+    const updated: StoredDocument = {
+      ...document,
+      ...(changes.title !== undefined && { title: normalizeTitle(changes.title) }),
+      ...(changes.content !== undefined && { content: changes.content }),
+      ...(changes.settings !== undefined && { settings: changes.settings }),
+      updatedAt: new Date().toISOString(),
+      updatedBy: username,
+    };
+
+    await writeJsonFile(documentPath(id), updated);
+    return updated;
+  });
+}
+
+/**
+ * Delete a document, returning whether it existed
+ */
+export async function deleteDocument(id: string): Promise<boolean> {
+  if (!isDocumentId(id)) return false;
+  return withFileLock(documentPath(id), () => deleteFile(documentPath(id)));
+}
@@ -2,7 +2,8 @@
  * XState State Machine for AI Editor
  * 
  * Manages the state transitions for the AI-assisted text editor.
- * States: idle -> loading -> (success | error) -> idle
+ * States: idle -> loading -> streaming -> (success | error | cancelled) -> idle
+ *         idle -> transforming -> reviewing -> (success | idle)
  */
 
 import { setup, assign } from 'xstate';
@@ -16,6 +17,9 @@ const initialContext: EditorContext = {
   generatedText: null,
   error: null,
   lastRequestTime: null,
+  proposal: null,
+  candidates: [],
+  selectedCandidate: 0,
 };
 
 /**
@@ -23,9 +27,13 @@ const initialContext: EditorContext = {
  * 
  * This machine manages the lifecycle of AI text generation:
  * - idle: Editor is ready, user can type and request AI continuation
- * - loading: AI request is in progress
+ * - loading: AI request is in progress, no text has arrived yet
+ * - streaming: AI text is arriving and being inserted chunk by chunk
+ * - cancelled: User stopped a stream midway and must keep or roll back the partial text
  * - success: AI successfully generated text
  * - error: AI request failed
+ * - transforming: AI rewrite of the selected range is in progress
+ * - reviewing: User compares the original and proposed text before accepting
  * 
  * The machine automatically transitions back to idle after success/error
  * to allow for subsequent requests.
@@ -49,8 +57,22 @@ export const editorMachine = setup({
       lastRequestTime: () => Date.now(),
       error: () => null,
       generatedText: () => null,
+      candidates: () => [],
+      selectedCandidate: () => 0,
     }),
     
+    /**
+     * Accumulate streamed chunks so the partial result is always available
+     */
+    appendGeneratedText: assign({
+      generatedText: ({ context, event }) => {
+        if (event.type === 'STREAM_CHUNK') {
+          return (context.generatedText ?? '') + event.text;
+        }
+        return context.generatedText;
+      },
+    }),
+
     /**
      * Store the AI-generated text on success
      */
@@ -61,8 +83,33 @@ export const editorMachine = setup({
         }
         return null;
       },
+      candidates: ({ event }) => {
+        if (event.type === 'SUCCESS') {
+          return event.candidates ?? [event.generatedText];
+        }
+        return [];
+      },
+      selectedCandidate: () => 0,
       error: () => null,
     }),
+
+    /**
+     * Track which alternative continuation is shown as ghost text
+     */
+    selectCandidate: assign({
+      selectedCandidate: ({ context, event }) => {
+        if (event.type === 'SELECT_CANDIDATE' && event.index >= 0 && event.index < context.candidates.length) {
+          return event.index;
+        }
+        return context.selectedCandidate;
+      },
+      generatedText: ({ context, event }) => {
+        if (event.type === 'SELECT_CANDIDATE' && context.candidates[event.index] !== undefined) {
+          return context.candidates[event.index];
+        }
+        return context.generatedText;
+      },
+    }),
     
     /**
      * Store the error message on failure
@@ -77,6 +124,64 @@ export const editorMachine = setup({
       generatedText: () => null,
     }),
     
+    /**
+     * Forget the partial text once it has been rolled back
+     */
+    clearGeneratedText: assign({
+      generatedText: () => null,
+    }),
+
+    /**
+     * Remember the range being rewritten while the request is in flight
+     * With `insertAt` the result goes there, in place of the empty line it
+     * may cover, and the range is left as it is.
+     */
+    startTransform: assign({
+      proposal: ({ event }) => {
+        if (event.type === 'TRANSFORM' && event.insertAt !== undefined) {
+          return {
+            operation: event.operation,
+            from: event.insertAt.from,
+            to: event.insertAt.to,
+            original: '',
+            proposed: '',
+            basedOn: event.text,
+          };
+        }
+        if (event.type === 'TRANSFORM') {
+          return {
+            operation: event.operation,
+            from: event.from,
+            to: event.to,
+            original: event.text,
+            proposed: '',
+          };
+        }
+        return null;
+      },
+      lastRequestTime: () => Date.now(),
+      error: () => null,
+    }),
+
+    /**
+     * Store the proposed rewrite for review
+     */
+    setProposal: assign({
+      proposal: ({ context, event }) => {
+        if (event.type === 'PROPOSAL_READY' && context.proposal) {
+          return { ...context.proposal, proposed: event.proposed, provenance: event.provenance };
+        }
+        return context.proposal;
+      },
+    }),
+
+    /**
+     * Drop the proposal once it has been accepted, rejected or has failed
+     */
+    clearProposal: assign({
+      proposal: () => null,
+    }),
+
     /**
      * Reset the machine to initial state
      */
@@ -84,15 +189,15 @@ export const editorMachine = setup({
   },
   guards: {
     /**
-     * Check if enough time has passed since last request (rate limiting)
+     * Validate that a non-empty range is selected for rewriting
      */
-    canMakeRequest: ({ context }) => {
-      if (!context.lastRequestTime) return true;
-      const timeSinceLastRequest = Date.now() - context.lastRequestTime;
-      const minTimeBetweenRequests = 1000; // 1 second
-      return timeSinceLastRequest >= minTimeBetweenRequests;
+    hasSelection: ({ event }) => {
+      if (event.type === 'TRANSFORM') {
+        return event.from < event.to && event.text.trim().length > 0;
+      }
+      return false;
     },
-    
+
     /**
      * Validate that text is not empty
      */
@@ -107,6 +212,12 @@ export const editorMachine = setup({
   id: 'editor',
   initial: 'idle',
   context: initialContext,
+  on: {
+    // Cycling through alternatives is allowed whatever the machine is doing
+    SELECT_CANDIDATE: {
+      actions: ['selectCandidate'],
+    },
+  },
   states: {
     /**
      * Idle state - Ready for user interaction
@@ -119,6 +230,11 @@ export const editorMachine = setup({
           guard: { type: 'hasText' },
           actions: ['setCurrentText'],
         },
+        TRANSFORM: {
+          target: 'transforming',
+          guard: { type: 'hasSelection' },
+          actions: ['startTransform'],
+        },
         RESET: {
           actions: ['reset'],
         },
@@ -131,6 +247,10 @@ export const editorMachine = setup({
      */
     loading: {
       on: {
+        STREAM_CHUNK: {
+          target: 'streaming',
+          actions: ['appendGeneratedText'],
+        },
         SUCCESS: {
           target: 'success',
           actions: ['setGeneratedText'],
@@ -139,6 +259,97 @@ export const editorMachine = setup({
           target: 'error',
           actions: ['setError'],
         },
+        CANCEL: {
+          target: 'idle',
+        },
+      },
+    },
+
+    /**
+     * Streaming state - AI text is arriving and being inserted live
+     * Ends with SUCCESS once the stream is complete
+     */
+    streaming: {
+      on: {
+        STREAM_CHUNK: {
+          actions: ['appendGeneratedText'],
+        },
+        SUCCESS: {
+          target: 'success',
+          actions: ['setGeneratedText'],
+        },
+        ERROR: {
+          target: 'error',
+          actions: ['setError'],
+        },
+        CANCEL: {
+          target: 'cancelled',
+        },
+      },
+    },
+
+    /**
+     * Cancelled state - Stream was stopped after some text was inserted
+     * Waits for the user to keep or roll back the partial text
+     */
+    cancelled: {
+      on: {
+        KEEP_PARTIAL: {
+          target: 'idle',
+        },
+        ROLLBACK_PARTIAL: {
+          target: 'idle',
+          actions: ['clearGeneratedText'],
+        },
+        RESET: {
+          target: 'idle',
+          actions: ['reset'],
+        },
+      },
+    },
+    
+    /**
+     * Transforming state - AI rewrite of the selected range in progress
+     */
+    transforming: {
+      on: {
+        PROPOSAL_READY: {
+          target: 'reviewing',
+          actions: ['setProposal'],
+        },
+        ERROR: {
+          target: 'error',
+          actions: ['setError', 'clearProposal'],
+        },
+        CANCEL: {
+          target: 'idle',
+          actions: ['clearProposal'],
+        },
+      },
+    },
+
+    /**
+     * Reviewing state - Original and proposed text shown side by side
+     * Accepting replaces the range, rejecting leaves the document untouched
+     */
+    reviewing: {
+      on: {
+        ACCEPT_PROPOSAL: {
+          target: 'success',
+          actions: ['clearProposal'],
+        },
+        REJECT_PROPOSAL: {
+          target: 'idle',
+          actions: ['clearProposal'],
+        },
+        ERROR: {
+          target: 'error',
+          actions: ['setError', 'clearProposal'],
+        },
+        RESET: {
+          target: 'idle',
+          actions: ['reset'],
+        },
       },
     },
     
@@ -0,0 +1,194 @@
+/**
+ * Editor Schema
+ *
+ * The ProseMirror schema shared by the editor setup and the Markdown
+ * parser/serializer. Kept in its own module so both can import it.
+ */
+
+import { Schema, type Mark, type MarkSpec, type NodeSpec } from 'prosemirror-model';
+import { schema as basicSchema } from 'prosemirror-schema-basic';
+import { addListNodes } from 'prosemirror-schema-list';
+
+/**
+ * Code blocks remember the info string of a Markdown fence (e.g. the language)
+ */
+const codeBlock: NodeSpec = {
+  ...basicSchema.spec.nodes.get('code_block'),
+  attrs: { params: { default: '' } },
+  parseDOM: [{
+    tag: 'pre',
+    preserveWhitespace: 'full',
+    getAttrs: (dom) => ({ params: (dom as HTMLElement).getAttribute('data-params') || '' }),
+  }],
+  toDOM: (node) => ['pre', node.attrs.params ? { 'data-params': node.attrs.params } : {}, ['code', 0]],
+};
+
+/**
+ * Lists remember whether Markdown wrote them tight (no blank lines between items)
+ */
+const orderedList: NodeSpec = {
+  content: 'list_item+',
+  group: 'block',
+  attrs: { order: { default: 1 }, tight: { default: false } },
+  parseDOM: [{
+    tag: 'ol',
+    getAttrs: (dom) => {
+      const element = dom as HTMLElement;
+      return {
+        order: element.hasAttribute('start') ? +element.getAttribute('start')! : 1,
+        tight: element.hasAttribute('data-tight'),
+      };
+    },
+  }],
+  toDOM: (node) => ['ol', {
+    start: node.attrs.order === 1 ? null : node.attrs.order,
+    'data-tight': node.attrs.tight ? 'true' : null,
+  }, 0],
+};
+
+const bulletList: NodeSpec = {
+  content: 'list_item+',
+  group: 'block',
+  attrs: { tight: { default: false } },
+  parseDOM: [{
+    tag: 'ul',
+    getAttrs: (dom) => ({ tight: (dom as HTMLElement).hasAttribute('data-tight') }),
+  }],
+  toDOM: (node) => ['ul', { 'data-tight': node.attrs.tight ? 'true' : null }, 0],
+};
+
+/**
+ * Marks text written by the AI, recording which model and request produced
+ * it, who asked for it and when it was inserted. Not inclusive, so typing
+ * right after AI text doesn't extend the mark.
+ */
+const aiGenerated: MarkSpec = {
+  attrs: {
+    model: { default: null },
+    requestId: { default: null },
+    requestedBy: { default: null },
+    timestamp: { default: null },
+  },
+  inclusive: false,
+  parseDOM: [{
+    tag: 'span[data-ai-generated]',
+    getAttrs: (dom) => {
+      const element = dom as HTMLElement;
+      return {
+        model: element.getAttribute('data-model'),
+        requestId: element.getAttribute('data-request-id'),
+        requestedBy: element.getAttribute('data-requested-by'),
+        timestamp: element.getAttribute('data-timestamp'),
+      };
+    },
+  }],
+  toDOM: (mark) => ['span', {
+    class: 'ai-generated',
+    'data-ai-generated': 'true',
+    'data-model': mark.attrs.model,
+    'data-request-id': mark.attrs.requestId,
+    'data-requested-by': mark.attrs.requestedBy,
+    'data-timestamp': mark.attrs.timestamp,
+    title: [
+      mark.attrs.model ? `Written by AI (${mark.attrs.model})` : 'Written by AI',
+      mark.attrs.requestedBy && `for ${mark.attrs.requestedBy}`,
+    ].filter(Boolean).join(' '),
+  }, 0],
+};
+
+/**
+ * Anchors a comment thread to the text it covers, by the thread's id
+ * Threads may overlap, so marks of different threads don't exclude each
+ * other. Not inclusive, so text typed at the edges stays out of the thread.
+ * The highlight comes from decorations, which leave resolved threads plain.
+ */
+const comment: MarkSpec = {
+  attrs: {
+    threadId: {},
+  },
+  inclusive: false,
+  excludes: '',
+  parseDOM: [{
+    tag: 'span[data-comment-thread]',
+    getAttrs: (dom) => ({ threadId: (dom as HTMLElement).getAttribute('data-comment-thread') }),
+  }],
+  toDOM: (mark) => ['span', { 'data-comment-thread': mark.attrs.threadId }, 0],
+};
+
+/**
+ * Attributes shared by the tracked change marks: the change they belong
+ * to (an insertion and a deletion made together form one change), who made
+ * it, whether the AI wrote it and with which model, and when
+ */
+const trackedChangeAttrs = {
+  changeId: {},
+  author: { default: null },
+  ai: { default: false },
+  model: { default: null },
+  timestamp: { default: null },
+};
+
+function parseTrackedChange(dom: HTMLElement | string) {
+  const element = dom as HTMLElement;
+  return {
+    changeId: element.getAttribute('data-change-id'),
+    author: element.getAttribute('data-author'),
+    ai: element.getAttribute('data-ai') === 'true',
+    model: element.getAttribute('data-model'),
+    timestamp: element.getAttribute('data-timestamp'),
+  };
+}
+
+function describeTrackedChange(mark: Mark, action: string): Record<string, string | null> {
+  const by = mark.attrs.ai
+    ? [mark.attrs.model ? `AI (${mark.attrs.model})` : 'AI', mark.attrs.author && `for ${mark.attrs.author}`]
+    : [mark.attrs.author];
+  return {
+    'data-change-id': mark.attrs.changeId,
+    'data-author': mark.attrs.author,
+    'data-ai': mark.attrs.ai ? 'true' : null,
+    'data-model': mark.attrs.model,
+    'data-timestamp': mark.attrs.timestamp,
+    title: [`${action} by`, ...by].filter(Boolean).join(' '),
+  };
+}
+
+/**
+ * Text suggested for insertion while changes are tracked, see `./track-changes`
+ * Not inclusive, so typing right after a suggestion is a change of its own.
+ */
+const insertion: MarkSpec = {
+  attrs: trackedChangeAttrs,
+  inclusive: false,
+  parseDOM: [{ tag: 'ins[data-change-id]', getAttrs: parseTrackedChange }],
+  toDOM: (mark) => ['ins', { class: 'tracked-insertion', ...describeTrackedChange(mark, 'Inserted') }, 0],
+};
+
+/**
+ * Text suggested for deletion, kept in the document until the change is accepted
+ */
+const deletion: MarkSpec = {
+  attrs: trackedChangeAttrs,
+  inclusive: false,
+  parseDOM: [{ tag: 'del[data-change-id]', getAttrs: parseTrackedChange }],
+  toDOM: (mark) => ['del', { class: 'tracked-deletion', ...describeTrackedChange(mark, 'Deleted') }, 0],
+};
+
+/**
+ * Create the editor schema
+ * Using the basic schema which includes: doc, paragraph, text, heading, etc.
+ * plus bullet lists, ordered lists and list items from prosemirror-schema-list
+ * the `ai_generated` provenance mark, the `comment` thread anchor mark and
+ * the `insertion` / `deletion` tracked change marks
+ */
+export const editorSchema = new Schema({
+  nodes: addListNodes(basicSchema.spec.nodes, 'paragraph block*', 'block')
+    .update('code_block', codeBlock)
+    .update('ordered_list', orderedList)
+    .update('bullet_list', bulletList),
+  marks: basicSchema.spec.marks
+    .addToEnd('ai_generated', aiGenerated)
+    .addToEnd('comment', comment)
+    .addToEnd('insertion', insertion)
+    .addToEnd('deletion', deletion),
+});
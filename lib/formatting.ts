@@ -0,0 +1,219 @@
+/**
+ * Formatting Commands
+ *
+ * ProseMirror commands behind the formatting toolbar and keybindings, plus
+ * helpers that report which marks and blocks are active at the selection.
+ * Commands read node and mark types from `state.schema`.
+ */
+
+import type { MarkType, NodeType } from 'prosemirror-model';
+import type { Command, EditorState } from 'prosemirror-state';
+import { toggleMark, setBlockType, wrapIn, lift } from 'prosemirror-commands';
+import { wrapInList, liftListItem } from 'prosemirror-schema-list';
+
+/**
+ * Formatting actions offered by the toolbar
+ */
+export type FormatAction =
+  | 'strong'
+  | 'em'
+  | 'code'
+  | 'link'
+  | 'paragraph'
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'bullet_list'
+  | 'ordered_list'
+  | 'blockquote'
+  | 'code_block';
+
+/**
+ * Which formatting applies at the current selection
+ */
+export type ActiveFormats = Record<FormatAction, boolean>;
+
+/**
+ * Check whether a mark is active at the cursor or anywhere in the selection
+ */
+function isMarkActive(state: EditorState, type: MarkType): boolean {
+  const { from, $from, to, empty } = state.selection;
+  if (empty) {
+    return !!type.isInSet(state.storedMarks || $from.marks());
+  }
+  return state.doc.rangeHasMark(from, to, type);
+}
+
+/**
+ * Find the run of text carrying `type` around a collapsed cursor
+ */
+function getMarkRange(state: EditorState, type: MarkType): { from: number; to: number } | null {
+  const { $from } = state.selection;
+  const start = $from.start();
+  let runStart: number | null = null;
+  let range: { from: number; to: number } | null = null;
+
+  $from.parent.forEach((child, offset) => {
+    const childStart = start + offset;
+    const childEnd = childStart + child.nodeSize;
+
+    if (!type.isInSet(child.marks)) {
+      runStart = null;
+      return;
+    }
+    if (runStart === null) runStart = childStart;
+    if ($from.pos >= runStart && $from.pos <= childEnd) {
+      range = { from: runStart, to: childEnd };
+    }
+  });
+
+  return range;
+}
+
+/**
+ * Check whether the selection is inside a node of the given type
+ */
+function isInsideNode(state: EditorState, type: NodeType): boolean {
+  const { $from } = state.selection;
+  for (let depth = $from.depth; depth > 0; depth--) {
+    if ($from.node(depth).type === type) return true;
+  }
+  return false;
+}
+
+/**
+ * Check whether the selection's textblock is a heading of the given level
+ */
+function isHeading(state: EditorState, level: number): boolean {
+  const { parent } = state.selection.$from;
+  return parent.type === state.schema.nodes.heading && parent.attrs.level === level;
+}
+
+/**
+ * Report every format action as active or not at the current selection
+ */
+export function getActiveFormats(state: EditorState): ActiveFormats {
+  const { marks, nodes } = state.schema;
+  const { parent } = state.selection.$from;
+
+  return {
+    strong: isMarkActive(state, marks.strong),
+    em: isMarkActive(state, marks.em),
+    code: isMarkActive(state, marks.code),
+    link: isMarkActive(state, marks.link),
+    paragraph: parent.type === nodes.paragraph,
+    heading1: isHeading(state, 1),
+    heading2: isHeading(state, 2),
+    heading3: isHeading(state, 3),
+    bullet_list: isInsideNode(state, nodes.bullet_list),
+    ordered_list: isInsideNode(state, nodes.ordered_list),
+    blockquote: isInsideNode(state, nodes.blockquote),
+    code_block: parent.type === nodes.code_block,
+  };
+}
+
+/**
+ * Toggle a heading level, turning the block back into a paragraph if it already is one
+ */
+export function toggleHeading(level: number): Command {
+  return (state, dispatch) => {
+    const { heading, paragraph } = state.schema.nodes;
+    if (isHeading(state, level)) {
+      return setBlockType(paragraph)(state, dispatch);
+    }
+    return setBlockType(heading, { level })(state, dispatch);
+  };
+}
+
+/**
+ * Toggle a code block, turning it back into a paragraph if it already is one
+ */
+export const toggleCodeBlock: Command = (state, dispatch) => {
+  const { code_block, paragraph } = state.schema.nodes;
+  if (state.selection.$from.parent.type === code_block) {
+    return setBlockType(paragraph)(state, dispatch);
+  }
+  return setBlockType(code_block)(state, dispatch);
+};
+
+/**
+ * Wrap the selection in a list of the given type, or lift it out if already inside one
+ */
+export function toggleList(listType: 'bullet_list' | 'ordered_list'): Command {
+  return (state, dispatch) => {
+    const { nodes } = state.schema;
+    if (isInsideNode(state, nodes[listType])) {
+      return liftListItem(nodes.list_item)(state, dispatch);
+    }
+    return wrapInList(nodes[listType])(state, dispatch);
+  };
+}
+
+/**
+ * Wrap the selection in a blockquote, or lift it out if already inside one
+ */
+export const toggleBlockquote: Command = (state, dispatch) => {
+  if (isInsideNode(state, state.schema.nodes.blockquote)) {
+    return lift(state, dispatch);
+  }
+  return wrapIn(state.schema.nodes.blockquote)(state, dispatch);
+};
+
+/**
+ * Add a link to the selection, or remove the link if one is already there
+ * Without an `href` the command only removes existing links.
+ */
+export function toggleLink(href?: string): Command {
+  return (state, dispatch) => {
+    const { link } = state.schema.marks;
+    const { from, to, empty } = state.selection;
+
+    if (isMarkActive(state, link)) {
+      if (dispatch) {
+        // Remove the whole link around a collapsed cursor, not just at a point
+        const range = empty ? getMarkRange(state, link) : { from, to };
+        if (range) {
+          dispatch(state.tr.removeMark(range.from, range.to, link));
+        }
+      }
+      return true;
+    }
+
+    if (empty || !href) return false;
+    return toggleMark(link, { href })(state, dispatch);
+  };
+}
+
+/**
+ * Get the command for a toolbar action
+ * `link` needs the target URL, which the caller asks the user for.
+ */
+export function getFormatCommand(action: FormatAction, options: { href?: string } = {}): Command {
+  return (state, dispatch, view) => {
+    const { marks, nodes } = state.schema;
+
+    switch (action) {
+      case 'strong':
+      case 'em':
+      case 'code':
+        return toggleMark(marks[action])(state, dispatch, view);
+      case 'link':
+        return toggleLink(options.href)(state, dispatch, view);
+      case 'paragraph':
+        return setBlockType(nodes.paragraph)(state, dispatch, view);
+      case 'heading1':
+        return toggleHeading(1)(state, dispatch, view);
+      case 'heading2':
+        return toggleHeading(2)(state, dispatch, view);
+      case 'heading3':
+        return toggleHeading(3)(state, dispatch, view);
+      case 'bullet_list':
+      case 'ordered_list':
+        return toggleList(action)(state, dispatch, view);
+      case 'blockquote':
+        return toggleBlockquote(state, dispatch, view);
+      case 'code_block':
+        return toggleCodeBlock(state, dispatch, view);
+    }
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Generation Settings
+ *
+ * How continuations are generated for a document: model, temperature,
+ * length and extra instructions for the system prompt, with presets. Shared
+ * by the settings panel and the server, which checks requests against the
+ * same ranges; the models allowed come from the server (`AI_ALLOWED_MODELS`).
+ */
+
+import type { GenerationPreset, GenerationSettings } from './types';
+
+export const TEMPERATURE_RANGE = { min: 0, max: 1, step: 0.1 };
+
+export const MAX_TOKENS_RANGE = { min: 16, max: 1000, step: 1 };
+
+export const MAX_SYSTEM_PROMPT_LENGTH = 2000;
+
+/**
+ * Presets in the order the settings panel offers them
+ */
+export const GENERATION_PRESETS: {
+  id: GenerationPreset;
+  label: string;
+  settings: Pick<GenerationSettings, 'temperature' | 'maxTokens' | 'systemPrompt'>;
+}[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    settings: { temperature: 0.7, maxTokens: 150, systemPrompt: '' },
+  },
+  {
+    id: 'concise',
+    label: 'Concise',
+    settings: {
+      temperature: 0.4,
+      maxTokens: 80,
+      systemPrompt: 'Be brief and to the point. Prefer short sentences and leave out filler.',
+    },
+  },
+  {
+    id: 'creative',
+    label: 'Creative',
+    settings: {
+      temperature: 1,
+      maxTokens: 250,
+      systemPrompt: 'Be imaginative and vivid. Vary the rhythm of your sentences and use concrete, sensory detail.',
+    },
+  },
+  {
+    id: 'formal',
+    label: 'Formal',
+    settings: {
+      temperature: 0.3,
+      maxTokens: 150,
+      systemPrompt: 'Write in a formal, professional register. Avoid contractions, slang and exclamation marks.',
+    },
+  },
+];
+
+/**
+ * Settings of documents that have none saved: the balanced preset on the
+ * configured model
+ */
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  preset: 'balanced',
+  model: null,
+  ...GENERATION_PRESETS[0].settings,
+};
+
+/**
+ * Apply a preset, keeping the chosen model
+ */
+export function applyGenerationPreset(settings: GenerationSettings, preset: GenerationPreset): GenerationSettings {
+  const match = GENERATION_PRESETS.find((candidate) => candidate.id === preset);
+  return match ? { ...settings, ...match.settings, preset } : settings;
+}
+
+function isInRange(value: unknown, range: { min: number; max: number }): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= range.min && value <= range.max;
+}
+
+/**
+ * Check the settings fields of an AI request, each optional
+ * Returns an error message to show, or null when they are valid.
+ */
+export function checkGenerationOptions(
+  options: { model?: unknown; temperature?: unknown; maxTokens?: unknown; systemPrompt?: unknown },
+  allowedModels: string[]
+): string | null {
+  if (options.model !== undefined && options.model !== null && !allowedModels.includes(options.model as string)) {
+    return `Model must be one of: ${allowedModels.join(', ')}`;
+  }
+  if (options.temperature !== undefined && !isInRange(options.temperature, TEMPERATURE_RANGE)) {
+    return `Temperature must be a number between ${TEMPERATURE_RANGE.min} and ${TEMPERATURE_RANGE.max}`;
+  }
+  if (
+    options.maxTokens !== undefined &&
+    !(Number.isInteger(options.maxTokens) && isInRange(options.maxTokens, MAX_TOKENS_RANGE))
+  ) {
+    return `maxTokens must be an integer between ${MAX_TOKENS_RANGE.min} and ${MAX_TOKENS_RANGE.max}`;
+  }
+  if (
+    options.systemPrompt !== undefined &&
+    (typeof options.systemPrompt !== 'string' || options.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH)
+  ) {
+    return `The system prompt must be a string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Check a complete settings object, as saved with a document
+ * Returns an error message to show, or null when it is valid.
+ */
+export function checkGenerationSettings(settings: unknown, allowedModels: string[]): string | null {
+  if (!settings || typeof settings !== 'object') return 'Settings must be an object';
+
+  const { preset, model, temperature, maxTokens, systemPrompt } = settings as Record<string, unknown>;
+  if (preset !== null && !GENERATION_PRESETS.some((candidate) => candidate.id === preset)) {
+    return 'Unknown generation preset';
+  }
+  if ([model, temperature, maxTokens, systemPrompt].includes(undefined)) {
+    return 'Settings need a model, temperature, maxTokens and systemPrompt';
+  }
+  return checkGenerationOptions({ model, temperature, maxTokens, systemPrompt }, allowedModels);
+}
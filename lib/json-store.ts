@@ -0,0 +1,95 @@
+/**
+ * JSON File Storage
+ *
+ * Small helpers for server-side stores that keep their data as JSON files
+ * under the data directory (`DATA_DIR`, default `./data`). Writes are atomic
+ * and read-modify-write cycles on the same file are serialized within the
+ * process, which is enough for a single Next.js server.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Resolve a path inside the data directory
+ */
+export function dataPath(...segments: string[]): string {
+  const root = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+  return path.join(root, ...segments);
+}
+
+/**
+ * Read and parse a JSON file, returning `fallback` when it does not exist
+ */
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Write a value as JSON, replacing the file atomically
+ * The data is written to a temporary file first, so readers never see half a file
+ */
+export async function writeJsonFile(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(value, null, 2), 'utf8');
+  await fs.rename(temp, file);
+}
+
+/**
+ * Append a value as one line of JSON, e.g. to a log in JSON Lines format
+ */
+export async function appendJsonLine(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, JSON.stringify(value) + '\n', 'utf8');
+}
+
+/**
+ * Delete a file, returning whether it existed
+ */
+export async function deleteFile(file: string): Promise<boolean> {
+  try {
+    await fs.unlink(file);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+/**
+ * List the JSON files of a directory, without their extension
+ */
+export async function listJsonFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir);
+    return entries.filter((entry) => entry.endsWith('.json')).map((entry) => entry.slice(0, -5));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+const fileLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `task` once every earlier task holding the lock for `file` has finished
+ * Use it around read-modify-write cycles so concurrent requests don't lose updates
+ */
+export async function withFileLock<T>(file: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(file) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  fileLocks.set(file, current);
+
+  try {
+    return await current;
+  } finally {
+    // Drop the entry unless another task queued up behind this one
+    if (fileLocks.get(file) === current) fileLocks.delete(file);
+  }
+}
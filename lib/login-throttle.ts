@@ -0,0 +1,145 @@
+/**
+ * Login Throttle
+ *
+ * Tracks failed sign-ins per client IP and per username and locks them out
+ * with exponential backoff: after a few free attempts each further failure
+ * doubles the wait, up to `MAX_LOCKOUT_SECONDS`. Counters are kept in
+ * memory, which is enough for a single Next.js server, and are forgotten
+ * once a key has had no failures for `FAILURE_WINDOW_MS`.
+ */
+
+interface ThrottleRule {
+  /** Failures allowed before the first lockout */
+  freeAttempts: number;
+}
+
+/**
+ * Usernames lock out sooner than IPs, since one IP may serve many users
+ */
+const RULES = {
+  ip: { freeAttempts: 10 },
+  username: { freeAttempts: 5 },
+} satisfies Record<string, ThrottleRule>;
+
+type ThrottleScope = keyof typeof RULES;
+
+const BASE_LOCKOUT_SECONDS = 1;
+
+/**
+ * Longest lockout, reached after about ten failures past the free ones
+ */
+export const MAX_LOCKOUT_SECONDS = 15 * 60;
+
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Sweep forgotten records once this many are kept, so a flood of
+ * made-up usernames can't grow the map without bound
+ */
+const SWEEP_THRESHOLD = 10_000;
+
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+const records = new Map<string, FailureRecord>();
+
+function recordKey(scope: ThrottleScope, value: string): string {
+  return `${scope}:${value}`;
+}
+
+function sweepRecords(now: number): void {
+  records.forEach((record, key) => {
+    if (now - record.lastFailureAt > FAILURE_WINDOW_MS) records.delete(key);
+  });
+}
+
+function getRecord(key: string, now: number): FailureRecord | undefined {
+  const record = records.get(key);
+  if (record && now - record.lastFailureAt > FAILURE_WINDOW_MS) {
+    records.delete(key);
+    return undefined;
+  }
+  return record;
+}
+
+/**
+ * The keys a login attempt is tracked under
+ */
+export interface LoginAttempt {
+  /** Null when the client IP isn't known, the attempt then only counts for the username */
+  ip: string | null;
+  username: string;
+}
+
+function attemptKeys({ ip, username }: LoginAttempt): [ThrottleScope, string][] {
+  const keys: [ThrottleScope, string][] = [['username', recordKey('username', username.trim().toLowerCase())]];
+  if (ip) keys.push(['ip', recordKey('ip', ip)]);
+  return keys;
+}
+
+/**
+ * Seconds until the attempt may be made, 0 when it isn't locked out
+ */
+export function getLockoutSeconds(attempt: LoginAttempt): number {
+  const now = Date.now();
+  const lockedUntil = Math.max(
+    0,
+    ...attemptKeys(attempt).map(([, key]) => getRecord(key, now)?.lockedUntil ?? 0)
+  );
+  return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+}
+
+/**
+ * Start an attempt: refuse it while it is locked out, otherwise count it as
+ * failed before the password is checked, so parallel attempts can't all
+ * get past the lockout while the slow check runs. `recordLoginSuccess`
+ * takes the count back when the password turns out to be right.
+ *
+ * @returns Seconds the attempt is locked out for, 0 when it may go ahead
+ */
+export function beginLoginAttempt(attempt: LoginAttempt): number {
+  const lockedFor = getLockoutSeconds(attempt);
+  if (lockedFor > 0) return lockedFor;
+
+  const now = Date.now();
+  if (records.size >= SWEEP_THRESHOLD) sweepRecords(now);
+
+  for (const [scope, key] of attemptKeys(attempt)) {
+    const record = getRecord(key, now) ?? { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+    record.failures += 1;
+    record.lastFailureAt = now;
+
+    const excess = record.failures - RULES[scope].freeAttempts;
+    if (excess > 0) {
+      const seconds = Math.min(BASE_LOCKOUT_SECONDS * 2 ** (excess - 1), MAX_LOCKOUT_SECONDS);
+      record.lockedUntil = now + seconds * 1000;
+    }
+    records.set(key, record);
+  }
+
+  return 0;
+}
+
+/**
+ * Forget the failures of a username after it signed in, and take back the
+ * failure counted for the IP when the attempt began
+ * The IP keeps its other failures, so one valid account can't reset a guessing client.
+ */
+export function recordLoginSuccess(attempt: LoginAttempt): void {
+  records.delete(recordKey('username', attempt.username.trim().toLowerCase()));
+  if (!attempt.ip) return;
+
+  const key = recordKey('ip', attempt.ip);
+  const record = records.get(key);
+  if (!record) return;
+
+  record.failures -= 1;
+  if (record.failures <= 0) {
+    records.delete(key);
+  } else if (record.failures <= RULES.ip.freeAttempts) {
+    record.lockedUntil = 0;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Markdown Conversion
+ *
+ * Converts between editor documents and Markdown, so the AI sees the
+ * document's block structure (paragraphs, headings, lists, emphasis) and
+ * its Markdown replies land as real ProseMirror nodes. Also backs Markdown
+ * file import and export; parse and serialize round-trip every node and mark
+ * of `editorSchema` except the `ai_generated`, `comment` and tracked change
+ * marks. Text suggested for deletion is not serialized.
+ */
+
+import MarkdownIt from 'markdown-it';
+import {
+  MarkdownParser,
+  MarkdownSerializer,
+  defaultMarkdownParser,
+  defaultMarkdownSerializer,
+} from 'prosemirror-markdown';
+import { Fragment, Node as ProseMirrorNode, Slice } from 'prosemirror-model';
+import { Transform } from 'prosemirror-transform';
+import { editorSchema } from './editor-schema';
+import { deleteChangeText } from './track-changes';
+
+/**
+ * CommonMark parser producing nodes of `editorSchema`
+ * Raw HTML is treated as text, never as markup.
+ */
+const markdownParser = new MarkdownParser(
+  editorSchema,
+  MarkdownIt('commonmark', { html: false }),
+  defaultMarkdownParser.tokens
+);
+
+/**
+ * Markdown has no syntax for provenance, comments or tracked changes, so
+ * `ai_generated`, commented and suggested text are written as plain text;
+ * the marks only survive in stored ProseMirror JSON. Text suggested for
+ * deletion never gets here, see `withoutDeletions`.
+ */
+const markdownSerializer = new MarkdownSerializer(
+  defaultMarkdownSerializer.nodes,
+  {
+    ...defaultMarkdownSerializer.marks,
+    ai_generated: { open: '', close: '', mixable: true },
+    comment: { open: '', close: '', mixable: true },
+    insertion: { open: '', close: '', mixable: true },
+    deletion: { open: '', close: '', mixable: true },
+  }
+);
+
+/**
+ * The document as it reads once every suggested deletion is accepted
+ * Returns `doc` itself when it has none.
+ */
+export function withoutDeletions(doc: ProseMirrorNode): ProseMirrorNode {
+  const tr = new Transform(doc);
+  return deleteChangeText(tr, editorSchema.marks.deletion) ? tr.doc : doc;
+}
+
+/**
+ * Serialize a document (or any node with block content) to Markdown
+ * Text suggested for deletion is left out, so exports and the AI see the
+ * document as it reads with the suggestions accepted.
+ */
+export function serializeMarkdown(doc: ProseMirrorNode): string {
+  return markdownSerializer.serialize(withoutDeletions(doc));
+}
+
+/**
+ * Parse Markdown into an `editorSchema` document
+ */
+export function parseMarkdown(markdown: string): ProseMirrorNode {
+  return markdownParser.parse(markdown) ?? editorSchema.topNodeType.createAndFill()!;
+}
+
+/**
+ * Add a single space to the start or end of a textblock's content
+ */
+function padTextblock(node: ProseMirrorNode, side: 'start' | 'end'): ProseMirrorNode {
+  const space = Fragment.from(editorSchema.text(' '));
+  return node.copy(side === 'start' ? space.append(node.content) : node.content.append(space));
+}
+
+/**
+ * Parse Markdown into a slice ready to be inserted into running text
+ *
+ * The slice is open on both sides, so a first or last paragraph merges into
+ * the block at the insertion point. Text that starts with a blank line opens
+ * a new block instead. Leading and trailing spaces, which Markdown drops,
+ * are kept so inserted text doesn't run into its neighbours.
+ */
+export function parseMarkdownSlice(markdown: string): Slice {
+  let content = parseMarkdown(markdown).content;
+
+  const first = content.firstChild;
+  if (first?.isTextblock && /^[ \t]/.test(markdown)) {
+    content = content.replaceChild(0, padTextblock(first, 'start'));
+  }
+
+  const last = content.lastChild;
+  if (last?.isTextblock && /[ \t]$/.test(markdown)) {
+    content = content.replaceChild(content.childCount - 1, padTextblock(last, 'end'));
+  }
+
+  const open = Slice.maxOpen(content);
+  const startsNewBlock = /^[ \t]*\n[ \t]*\n/.test(markdown);
+  return startsNewBlock ? new Slice(content, 0, open.openEnd) : open;
+}
@@ -0,0 +1,44 @@
+/**
+ * NDJSON Stream Reader
+ *
+ * Client-side helper for consuming newline-delimited JSON responses,
+ * such as the streaming mode of /api/continue.
+ */
+
+/**
+ * Read a fetch response body and yield one parsed object per line
+ */
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      // The last element may be an incomplete line, keep it for the next read
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim()) {
+          yield JSON.parse(line) as T;
+        }
+      }
+    }
+
+    // Flush a final line that was not newline-terminated
+    if (buffer.trim()) {
+      yield JSON.parse(buffer) as T;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
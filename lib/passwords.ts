@@ -0,0 +1,56 @@
+/**
+ * Password Hashing
+ *
+ * Hashes passwords with scrypt and a random salt. A hash is stored as
+ * `scrypt$<N>$<r>$<p>$<salt>$<key>` (salt and key base64), so the cost
+ * parameters can be raised later without invalidating existing hashes.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+/**
+ * Shortest password accepted for new accounts and resets
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+const SCRYPT_COST = { N: 16384, r: 8, p: 1 };
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+function deriveKey(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { ...options, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, KEY_BYTES, SCRYPT_COST);
+  const { N, r, p } = SCRYPT_COST;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Check a password against a stored hash
+ * Malformed hashes never match.
+ */
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'base64');
+  if (expected.length === 0) return false;
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,79 @@
+/**
+ * Prompt Templates
+ *
+ * Variables a prompt template may use and how a template is rendered.
+ * Shared by the template library UI and the server, which renders templates
+ * itself: the client only names a template and sends the values of the
+ * variables, so a template can never carry settings or a raw prompt.
+ */
+
+import type { ContinueWritingRequest, TemplateVariable } from './types';
+
+/**
+ * Variables in the order the template editor lists them
+ */
+export const TEMPLATE_VARIABLES: { name: TemplateVariable; description: string }[] = [
+  { name: 'document', description: 'The whole document' },
+  { name: 'before', description: 'The text before the cursor' },
+  { name: 'after', description: 'The text after the cursor' },
+  { name: 'selection', description: 'The selected text' },
+  { name: 'title', description: 'The document title' },
+  { name: 'tone', description: 'A tone picked next to the Continue button' },
+];
+
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+export const MAX_TEMPLATE_PROMPT_LENGTH = 4000;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return TEMPLATE_VARIABLES.some((variable) => variable.name === name);
+}
+
+/**
+ * The variables a prompt uses, each once, in order of first use
+ * Unknown names are returned too, see `findUnknownVariables`.
+ */
+export function findTemplateVariables(prompt: string): string[] {
+  return Array.from(new Set(Array.from(prompt.matchAll(VARIABLE_PATTERN), (match) => match[1])));
+}
+
+/**
+ * Names in `{{...}}` that aren't template variables
+ */
+export function findUnknownVariables(prompt: string): string[] {
+  return findTemplateVariables(prompt).filter((name) => !isTemplateVariable(name));
+}
+
+/**
+ * Fill in the variables of a prompt
+ * Values are inserted as they are in one pass, so a value that contains
+ * `{{...}}` is not expanded again. Missing values become empty.
+ */
+export function renderTemplate(prompt: string, values: Partial<Record<TemplateVariable, string>>): string {
+  return prompt.replace(VARIABLE_PATTERN, (match, name: string) =>
+    isTemplateVariable(name) ? values[name] ?? '' : match
+  );
+}
+
+/**
+ * The values of the variables for a continuation request
+ * The tone defaults to formal, like the 'change-tone' rewrite.
+ */
+export function getTemplateValues(
+  request: ContinueWritingRequest,
+  title: string
+): Record<TemplateVariable, string> {
+  const before = request.prefix ?? request.text ?? '';
+  const after = request.suffix ?? '';
+
+  return {
+    document: before + after,
+    before,
+    after,
+    selection: request.selection ?? '',
+    title,
+    tone: request.tone ?? 'formal',
+  };
+}
@@ -4,39 +4,106 @@
  * Configures the ProseMirror editor with schema, plugins, and keymaps.
  */
 
-import { Schema } from 'prosemirror-model';
-import { EditorState, Plugin, Transaction, Selection, TextSelection } from 'prosemirror-state';
-import { EditorView } from 'prosemirror-view';
-import { schema as basicSchema } from 'prosemirror-schema-basic';
-import { keymap } from 'prosemirror-keymap';
-import { history, undo, redo } from 'prosemirror-history';
-import { baseKeymap } from 'prosemirror-commands';
+import { Node as ProseMirrorNode, Slice } from 'prosemirror-model';
+import { EditorState, Plugin, PluginKey, Transaction, Selection, TextSelection, Command } from 'prosemirror-state';
+import { EditorView, Decoration, DecorationSet } from 'prosemirror-view';
+import { keymap, keydownHandler } from 'prosemirror-keymap';
+import { history, undo, redo, closeHistory } from 'prosemirror-history';
+import { baseKeymap, toggleMark, setBlockType, chainCommands, exitCode } from 'prosemirror-commands';
+import { splitListItem, liftListItem, sinkListItem } from 'prosemirror-schema-list';
+import {
+  inputRules,
+  wrappingInputRule,
+  textblockTypeInputRule,
+  smartQuotes,
+  emDash,
+  ellipsis,
+} from 'prosemirror-inputrules';
+import { toggleHeading, toggleCodeBlock, toggleList, toggleBlockquote } from './formatting';
+import { editorSchema } from './editor-schema';
+import { serializeMarkdown, parseMarkdown, parseMarkdownSlice } from './markdown';
+import { createProvenancePlugin, createAIGeneratedMark, AI_TEXT_META, PRESERVE_PROVENANCE_META } from './provenance';
+import { createTrackChangesPlugin } from './track-changes';
+import { createSlashMenuPlugin, getSlashMenu, SLASH_COMMAND_META, type SlashMenu } from './slash-menu';
+import type { SlashCommand } from './slash-commands';
+import { REMOTE_STEPS_META } from './collab';
+import type { AIProvenance, DocumentContent } from './types';
 
-/**
- * Create the editor schema
- * Using the basic schema which includes: doc, paragraph, text, heading, etc.
- */
-export const editorSchema = new Schema({
-  nodes: basicSchema.spec.nodes,
-  marks: basicSchema.spec.marks,
-});
+export { editorSchema };
 
 /**
  * Create basic keymap for the editor
- * Includes common keyboard shortcuts
+ * Includes common keyboard shortcuts, mark toggles and block formatting
  */
 export function createKeymap() {
+  const { nodes, marks } = editorSchema;
+
   return keymap({
     ...baseKeymap,
     'Mod-z': undo,
     'Mod-y': redo,
     'Mod-Shift-z': redo,
+
+    // Marks
+    'Mod-b': toggleMark(marks.strong),
+    'Mod-i': toggleMark(marks.em),
+    'Mod-`': toggleMark(marks.code),
+
+    // Blocks
+    'Shift-Ctrl-0': setBlockType(nodes.paragraph),
+    'Shift-Ctrl-1': toggleHeading(1),
+    'Shift-Ctrl-2': toggleHeading(2),
+    'Shift-Ctrl-3': toggleHeading(3),
+    'Shift-Ctrl-8': toggleList('bullet_list'),
+    'Shift-Ctrl-9': toggleList('ordered_list'),
+    'Ctrl->': toggleBlockquote,
+    'Shift-Ctrl-\\': toggleCodeBlock,
+
+    // Lists: Enter continues the list, Mod-[ / Mod-] change nesting
+    'Enter': chainCommands(splitListItem(nodes.list_item), baseKeymap['Enter']),
+    'Mod-[': liftListItem(nodes.list_item),
+    'Mod-]': sinkListItem(nodes.list_item),
+
+    // Leave a code block with Mod-Enter
+    'Mod-Enter': chainCommands(exitCode, baseKeymap['Mod-Enter']),
+  });
+}
+
+/**
+ * Create Markdown-style input rules
+ * 
+ * - `# ` to `###### ` start a heading
+ * - `- `, `+ ` or `* ` start a bullet list, `1. ` an ordered list
+ * - `> ` starts a blockquote
+ * - ``` starts a code block
+ * - smart quotes, `--` to an em dash and `...` to an ellipsis
+ */
+export function createInputRules(): Plugin {
+  const { nodes } = editorSchema;
+
+  return inputRules({
+    rules: [
+      ...smartQuotes,
+      emDash,
+      ellipsis,
+      textblockTypeInputRule(/^(#{1,6})\s$/, nodes.heading, (match) => ({ level: match[1].length })),
+      wrappingInputRule(/^\s*([-+*])\s$/, nodes.bullet_list),
+      wrappingInputRule(
+        /^(\d+)\.\s$/,
+        nodes.ordered_list,
+        (match) => ({ order: +match[1] }),
+        (match, node) => node.childCount + node.attrs.order === +match[1]
+      ),
+      wrappingInputRule(/^\s*>\s$/, nodes.blockquote),
+      textblockTypeInputRule(/^```$/, nodes.code_block),
+    ],
   });
 }
 
 /**
  * Create a plugin to handle text updates
  * This allows us to notify React when the content changes
+ * The text is the document as Markdown, see `serializeMarkdown`
  */
 export function createUpdatePlugin(onUpdate: (text: string) => void): Plugin {
   return new Plugin({
@@ -45,7 +112,7 @@ export function createUpdatePlugin(onUpdate: (text: string) => void): Plugin {
         update: (view: EditorView, prevState: EditorState) => {
           const { state } = view;
           if (!state.doc.eq(prevState.doc)) {
-            const text = state.doc.textContent;
+            const text = serializeMarkdown(state.doc);
             onUpdate(text);
           }
         },
@@ -54,6 +121,468 @@ export function createUpdatePlugin(onUpdate: (text: string) => void): Plugin {
   });
 }
 
+/**
+ * Ghost text suggestion shown at `pos` but not yet part of the document
+ * `text` is the alternative at `index` in `candidates`
+ */
+export interface GhostText {
+  text: string;
+  pos: number;
+  candidates: string[];
+  index: number;
+  /** The request producing the suggestion, null until it identified itself */
+  provenance: AIProvenance | null;
+}
+
+type GhostTextMeta =
+  | { type: 'set'; ghost: GhostText }
+  | { type: 'clear' };
+
+export const ghostTextKey = new PluginKey<GhostText | null>('ghostText');
+
+/**
+ * Create the ghost text plugin
+ * 
+ * Renders an AI suggestion as greyed text at the cursor without touching the
+ * document. Tab accepts it, Escape dismisses it, Ctrl+Right accepts it one
+ * word at a time and Alt+[ / Alt+] cycle through alternative candidates.
+ * Any other edit or cursor move dismisses the suggestion; edits made in
+ * other tabs, or appended by plugins such as track changes, only move it
+ * along with the cursor.
+ */
+export function createGhostTextPlugin(): Plugin<GhostText | null> {
+  return new Plugin<GhostText | null>({
+    key: ghostTextKey,
+    state: {
+      init: () => null,
+      apply(tr, ghost) {
+        const meta = tr.getMeta(ghostTextKey) as GhostTextMeta | undefined;
+        if (meta) {
+          return meta.type === 'set' ? meta.ghost : null;
+        }
+        if (!ghost) return null;
+
+        const followed = tr.getMeta(REMOTE_STEPS_META) || tr.getMeta('appendedTransaction');
+        if (tr.docChanged && followed) {
+          ghost = { ...ghost, pos: tr.mapping.map(ghost.pos, -1) };
+        }
+
+        // Edits and cursor moves made by the user dismiss the suggestion
+        if (tr.docChanged && !followed) return null;
+        if (tr.selectionSet && !(tr.selection.empty && tr.selection.head === ghost.pos)) {
+          return null;
+        }
+        return ghost;
+      },
+    },
+    props: {
+      decorations(state) {
+        const ghost = ghostTextKey.getState(state);
+        if (!ghost || !ghost.text) return null;
+
+        const widget = Decoration.widget(
+          ghost.pos,
+          () => {
+            const span = document.createElement('span');
+            span.className = 'ghost-text';
+            span.textContent = ghost.text;
+            return span;
+          },
+          { side: 1, key: `ghost:${ghost.text}` }
+        );
+        return DecorationSet.create(state.doc, [widget]);
+      },
+      handleKeyDown: keydownHandler({
+        'Tab': acceptGhostText,
+        'Escape': dismissGhostText,
+        'Ctrl-ArrowRight': acceptGhostWord,
+        'Alt-]': nextGhostCandidate,
+        'Alt-[': previousGhostCandidate,
+      }),
+    },
+  });
+}
+
+/**
+ * Get the current ghost text suggestion, if any
+ */
+export function getGhostText(state: EditorState): GhostText | null {
+  return ghostTextKey.getState(state) ?? null;
+}
+
+/**
+ * Text around the cursor, used to continue writing at the caret
+ */
+export interface CursorContext {
+  /** Document before the cursor, as Markdown */
+  prefix: string;
+  /** Document after the cursor, as Markdown */
+  suffix: string;
+  /** Position the continuation is inserted at (the end of the selection) */
+  pos: number;
+}
+
+/**
+ * Get the text before and after the cursor for fill-in-the-middle continuation
+ */
+export function getCursorContext(state: EditorState): CursorContext {
+  const { doc, selection } = state;
+  const pos = selection.to;
+
+  return {
+    prefix: serializeMarkdown(doc.cut(0, pos)),
+    suffix: serializeMarkdown(doc.cut(pos)),
+    pos,
+  };
+}
+
+/**
+ * Start an empty suggestion at `pos` and collapse the cursor there
+ */
+export function startGhostText(view: EditorView, pos: number): void {
+  const tr = view.state.tr.setSelection(TextSelection.near(view.state.doc.resolve(pos)));
+  const head = tr.selection.head;
+
+  tr.setMeta(ghostTextKey, {
+    type: 'set',
+    ghost: { text: '', pos: head, candidates: [''], index: 0, provenance: null },
+  } satisfies GhostTextMeta);
+  view.dispatch(tr);
+}
+
+/**
+ * Record which request produces the current suggestion
+ * Returns false when there is no suggestion, e.g. the user dismissed it.
+ */
+export function setGhostProvenance(view: EditorView, provenance: AIProvenance): boolean {
+  const ghost = getGhostText(view.state);
+  if (!ghost) return false;
+
+  view.dispatch(view.state.tr.setMeta(ghostTextKey, {
+    type: 'set',
+    ghost: { ...ghost, provenance },
+  } satisfies GhostTextMeta));
+  return true;
+}
+
+/**
+ * Prefix the first piece of a suggestion with a separating space when needed
+ * 
+ * No space is added when the text starts with whitespace or punctuation, or
+ * the cursor already follows whitespace or a block start.
+ */
+function withLeadingSpace(state: EditorState, pos: number, text: string): string {
+  const $pos = state.doc.resolve(pos);
+  const charBefore = $pos.parent.textBetween(0, $pos.parentOffset).slice(-1);
+  const needsSpace = charBefore !== '' && !/\s/.test(charBefore) && !/^[\s.,!?;:]/.test(text);
+  return needsSpace ? ' ' + text : text;
+}
+
+/**
+ * Append a streamed chunk to the current suggestion
+ * 
+ * The first chunk gets a separating space when needed, see `withLeadingSpace`.
+ * Returns false when there is no suggestion to extend, e.g. the user dismissed it.
+ */
+export function appendGhostText(view: EditorView, chunk: string): boolean {
+  const ghost = getGhostText(view.state);
+  if (!ghost) return false;
+  if (!chunk) return true;
+
+  // Only the first chunk needs a separating space, later chunks carry their own
+  const text = ghost.text ? ghost.text + chunk : withLeadingSpace(view.state, ghost.pos, chunk);
+
+  const tr = view.state.tr.setMeta(ghostTextKey, {
+    type: 'set',
+    ghost: { ...ghost, text, candidates: [text], index: 0 },
+  } satisfies GhostTextMeta);
+  view.dispatch(tr);
+  return true;
+}
+
+/**
+ * Replace the current suggestion with a set of alternative candidates
+ * Returns false when there is no suggestion to fill, e.g. the user dismissed it.
+ */
+export function setGhostCandidates(
+  view: EditorView,
+  candidates: string[],
+  provenance: AIProvenance | null = null
+): boolean {
+  const ghost = getGhostText(view.state);
+  if (!ghost) return false;
+
+  const spaced = candidates.map((candidate) => withLeadingSpace(view.state, ghost.pos, candidate));
+  if (spaced.length === 0) spaced.push('');
+
+  const tr = view.state.tr.setMeta(ghostTextKey, {
+    type: 'set',
+    ghost: { ...ghost, text: spaced[0], candidates: spaced, index: 0, provenance: provenance ?? ghost.provenance },
+  } satisfies GhostTextMeta);
+  view.dispatch(tr);
+  return true;
+}
+
+/**
+ * Show the candidate at `index` as the suggestion
+ * Returns false when there is no suggestion or no such candidate.
+ */
+export function selectGhostCandidate(view: EditorView, index: number): boolean {
+  const ghost = getGhostText(view.state);
+  if (!ghost || index < 0 || index >= ghost.candidates.length) return false;
+
+  view.dispatch(view.state.tr.setMeta(ghostTextKey, {
+    type: 'set',
+    ghost: { ...ghost, text: ghost.candidates[index], index },
+  } satisfies GhostTextMeta));
+  return true;
+}
+
+/**
+ * Build a command that moves `step` candidates forward or back, wrapping around
+ */
+function cycleGhostCandidate(step: number): Command {
+  return (state, dispatch) => {
+    const ghost = getGhostText(state);
+    if (!ghost || ghost.candidates.length < 2) return false;
+
+    const count = ghost.candidates.length;
+    const index = (ghost.index + step + count) % count;
+    dispatch?.(state.tr.setMeta(ghostTextKey, {
+      type: 'set',
+      ghost: { ...ghost, text: ghost.candidates[index], index },
+    } satisfies GhostTextMeta));
+    return true;
+  };
+}
+
+/**
+ * Command: show the next alternative candidate
+ */
+export const nextGhostCandidate: Command = cycleGhostCandidate(1);
+
+/**
+ * Command: show the previous alternative candidate
+ */
+export const previousGhostCandidate: Command = cycleGhostCandidate(-1);
+
+/**
+ * Transaction meta set when AI text lands in the document: a fully accepted
+ * suggestion or an accepted rewrite
+ */
+export const AI_INSERTION_META = 'aiInsertion';
+
+/**
+ * Insert `text` at the suggestion position as a single undoable history step
+ * Leaves `remaining` as the new suggestion after the inserted text
+ *
+ * With `markdown` set the text is parsed into paragraphs, lists and marks;
+ * otherwise it goes in as plain text, which partial (word by word) accepts
+ * need since a fragment of Markdown can't be parsed on its own. Either way
+ * the inserted text carries the `ai_generated` mark.
+ */
+function insertGhostPart(
+  state: EditorState,
+  ghost: GhostText,
+  text: string,
+  remaining: string,
+  markdown = false
+): Transaction {
+  // Start a fresh history event so undo removes exactly this acceptance
+  const tr = closeHistory(markdown
+    ? state.tr.replace(ghost.pos, ghost.pos, parseMarkdownSlice(text))
+    : state.tr.insertText(text, ghost.pos));
+  const end = tr.mapping.map(ghost.pos);
+  tr.addMark(ghost.pos, end, createAIGeneratedMark(state.schema.marks.ai_generated, ghost.provenance));
+  tr.setMeta(PRESERVE_PROVENANCE_META, true);
+  tr.setMeta(AI_TEXT_META, ghost.provenance);
+  tr.setSelection(TextSelection.near(tr.doc.resolve(end), -1));
+  tr.setMeta(ghostTextKey, remaining
+    ? {
+        type: 'set',
+        ghost: { text: remaining, pos: end, candidates: [remaining], index: 0, provenance: ghost.provenance },
+      }
+    : { type: 'clear' } satisfies GhostTextMeta);
+  if (!remaining) tr.setMeta(AI_INSERTION_META, true);
+  return tr;
+}
+
+/**
+ * Command: accept the whole suggestion into the document
+ */
+export const acceptGhostText: Command = (state, dispatch) => {
+  const ghost = getGhostText(state);
+  if (!ghost || !ghost.text) return false;
+
+  dispatch?.(insertGhostPart(state, ghost, ghost.text, '', true).scrollIntoView());
+  return true;
+};
+
+/**
+ * Command: accept the next word of the suggestion, keeping the rest as ghost text
+ */
+export const acceptGhostWord: Command = (state, dispatch) => {
+  const ghost = getGhostText(state);
+  if (!ghost || !ghost.text) return false;
+
+  const word = /^\s*\S+/.exec(ghost.text)?.[0] ?? ghost.text;
+  dispatch?.(insertGhostPart(state, ghost, word, ghost.text.slice(word.length)).scrollIntoView());
+  return true;
+};
+
+/**
+ * Command: dismiss the suggestion without changing the document
+ */
+export const dismissGhostText: Command = (state, dispatch) => {
+  if (!getGhostText(state)) return false;
+
+  dispatch?.(state.tr.setMeta(ghostTextKey, { type: 'clear' } satisfies GhostTextMeta));
+  return true;
+};
+
+/**
+ * Which comment threads are highlighted, the active one standing out
+ * Threads not listed, e.g. resolved ones, are left plain.
+ */
+export interface CommentHighlights {
+  open: string[];
+  active: string | null;
+}
+
+interface CommentsState extends CommentHighlights {
+  decorations: DecorationSet;
+}
+
+export const commentsKey = new PluginKey<CommentsState>('comments');
+
+/**
+ * Highlight the text of each listed thread, found by its `comment` marks
+ */
+function createCommentDecorations(doc: ProseMirrorNode, highlights: CommentHighlights): DecorationSet {
+  const type = editorSchema.marks.comment;
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isText) return;
+    for (const mark of node.marks) {
+      const { threadId } = mark.attrs;
+      if (mark.type !== type || !highlights.open.includes(threadId)) continue;
+
+      decorations.push(Decoration.inline(pos, pos + node.nodeSize, {
+        class: threadId === highlights.active ? 'comment-highlight comment-highlight-active' : 'comment-highlight',
+      }));
+    }
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Create the comments plugin
+ *
+ * The threads themselves live in the document as `comment` marks, so they
+ * map through every edit, local or remote, like the text they cover. This
+ * plugin only draws them, redrawing when the document or the highlights
+ * change.
+ */
+export function createCommentsPlugin(): Plugin<CommentsState> {
+  return new Plugin<CommentsState>({
+    key: commentsKey,
+    state: {
+      init: () => ({ open: [], active: null, decorations: DecorationSet.empty }),
+      apply(tr, current) {
+        const meta = tr.getMeta(commentsKey) as CommentHighlights | undefined;
+        if (!meta && !tr.docChanged) return current;
+
+        const highlights = meta ?? current;
+        return {
+          open: highlights.open,
+          active: highlights.active,
+          decorations: createCommentDecorations(tr.doc, highlights),
+        };
+      },
+    },
+    props: {
+      decorations: (state) => commentsKey.getState(state)?.decorations,
+    },
+  });
+}
+
+/**
+ * Change which threads are highlighted
+ */
+export function setCommentHighlights(view: EditorView, highlights: CommentHighlights): void {
+  view.dispatch(view.state.tr.setMeta(commentsKey, highlights));
+}
+
+/**
+ * Where each thread's text is, from the start of its first marked text to
+ * the end of its last; threads whose text was deleted are missing
+ */
+export function getCommentRanges(doc: ProseMirrorNode): Map<string, { from: number; to: number }> {
+  const type = editorSchema.marks.comment;
+  const ranges = new Map<string, { from: number; to: number }>();
+
+  doc.descendants((node, pos) => {
+    if (!node.isText) return;
+    for (const mark of node.marks) {
+      if (mark.type !== type) continue;
+      const range = ranges.get(mark.attrs.threadId);
+      ranges.set(mark.attrs.threadId, {
+        from: range?.from ?? pos,
+        to: pos + node.nodeSize,
+      });
+    }
+  });
+
+  return ranges;
+}
+
+/**
+ * The threads covering the text at the cursor
+ */
+export function getCommentThreadsAt(state: EditorState): string[] {
+  const { $head } = state.selection;
+  const marks = [...($head.nodeAfter?.marks ?? []), ...($head.nodeBefore?.marks ?? [])];
+
+  return Array.from(new Set(marks
+    .filter((mark) => mark.type === editorSchema.marks.comment)
+    .map((mark) => mark.attrs.threadId as string)));
+}
+
+/**
+ * Anchor the thread `threadId` to the range `from`-`to`
+ * Kept out of the undo history, so undoing earlier edits doesn't drop the anchor.
+ */
+export function addCommentMark(view: EditorView, from: number, to: number, threadId: string): void {
+  const tr = view.state.tr.addMark(from, to, editorSchema.marks.comment.create({ threadId }));
+  view.dispatch(tr.setMeta('addToHistory', false));
+}
+
+/**
+ * Remove the anchor of the thread `threadId`, e.g. when it couldn't be stored
+ */
+export function removeCommentMark(view: EditorView, threadId: string): void {
+  const { state } = view;
+  const tr = state.tr.removeMark(0, state.doc.content.size, editorSchema.marks.comment.create({ threadId }));
+  if (tr.docChanged) view.dispatch(tr.setMeta('addToHistory', false));
+}
+
+/**
+ * Select the text of a thread and scroll it into view
+ * Returns false when the text was deleted.
+ */
+export function selectCommentThread(view: EditorView, threadId: string): boolean {
+  const range = getCommentRanges(view.state.doc).get(threadId);
+  if (!range) return false;
+
+  const { doc } = view.state;
+  view.dispatch(view.state.tr
+    .setSelection(TextSelection.between(doc.resolve(range.from), doc.resolve(range.to)))
+    .scrollIntoView());
+  return true;
+}
+
 /**
  * Create the editor state with all plugins
  */
@@ -74,6 +603,12 @@ export function createEditorState(
     schema: editorSchema,
     plugins: [
       history(),
+      createProvenancePlugin(),
+      createInputRules(),
+      createGhostTextPlugin(),
+      createCommentsPlugin(),
+      createTrackChangesPlugin(),
+      createSlashMenuPlugin(),
       createKeymap(),
       createUpdatePlugin(onUpdate),
     ],
@@ -81,93 +616,54 @@ export function createEditorState(
 }
 
 /**
- * Insert text at the end of the document
- * Used to append AI-generated text
+ * Get the text of a range the way it is sent to the AI, as Markdown
  */
-export function insertTextAtEnd(view: EditorView, text: string): void {
-  const { state } = view;
-  const { tr, doc } = state;
-  
-  // Get the position before the document end (doc.content.size - 1)
-  // ProseMirror documents have boundaries, so we insert before the end boundary
-  const endPos = doc.content.size - 1;
-  
-  // Add a space before the text for natural flow (unless text starts with punctuation)
-  const textToInsert = /^[.,!?;:]/.test(text.trim()) ? text : ' ' + text;
-  
-  // Create a text node
-  const textNode = editorSchema.text(textToInsert);
-  
-  // Insert the text at the end
-  const transaction = tr.insert(endPos, textNode);
-  
-  // Apply the transaction
-  view.dispatch(transaction);
-  
-  // Focus the editor and move cursor to end
-  view.focus();
-  
-  // Move cursor to the end
-  const newEndPos = view.state.doc.content.size - 1;
-  const newTr = view.state.tr.setSelection(
-    TextSelection.near(view.state.doc.resolve(newEndPos))
-  );
-  view.dispatch(newTr);
+export function getRangeText(state: EditorState, from: number, to: number): string {
+  return serializeMarkdown(state.doc.cut(from, to));
 }
 
 /**
- * Insert text with typing animation effect
- * Adds characters one by one with a delay for a realistic typing effect
+ * Replace the range `from`-`to` with Markdown `text` in a single transaction
+ *
+ * The Markdown is parsed into nodes, see `parseMarkdownSlice`, and marked as
+ * `ai_generated`. Between blocks, e.g. in place of a whole paragraph, they
+ * are inserted as blocks of their own instead of merging into neighbours.
+ * Only replaces when the range still holds `expectedText`, so a rewrite never
+ * lands on text that changed in the meantime. Returns whether it replaced.
  */
-export async function insertTextWithTypingEffect(
+export function replaceRangeText(
   view: EditorView,
+  from: number,
+  to: number,
+  expectedText: string,
   text: string,
-  typingSpeed: number = 30 // milliseconds per character
-): Promise<void> {
+  provenance: AIProvenance | null = null
+): boolean {
   const { state } = view;
-  const { doc } = state;
-  
-  // Add a space before the text for natural flow (unless text starts with punctuation)
-  const textToInsert = /^[.,!?;:]/.test(text.trim()) ? text : ' ' + text;
-  
-  // Get starting position
-  let currentPos = doc.content.size - 1;
-  
-  // Insert characters one by one
-  for (let i = 0; i < textToInsert.length; i++) {
-    const char = textToInsert[i];
-    
-    // Create a text node for this character
-    const charNode = editorSchema.text(char);
-    
-    // Insert the character
-    const tr = view.state.tr.insert(currentPos, charNode);
-    view.dispatch(tr);
-    
-    // Update position for next character
-    currentPos += 1;
-    
-    // Wait before inserting next character
-    // Vary speed slightly for more natural effect
-    const variance = Math.random() * 10 - 5; // -5 to +5 ms variation
-    const delay = typingSpeed + variance;
-    await new Promise(resolve => setTimeout(resolve, delay));
+  if (to > state.doc.content.size || getRangeText(state, from, to) !== expectedText) {
+    return false;
   }
-  
-  // Focus the editor and move cursor to end
-  view.focus();
-  const finalPos = view.state.doc.content.size - 1;
-  const finalTr = view.state.tr.setSelection(
-    TextSelection.near(view.state.doc.resolve(finalPos))
-  );
-  view.dispatch(finalTr);
+
+  const slice = state.doc.resolve(from).parent.inlineContent
+    ? parseMarkdownSlice(text)
+    : new Slice(parseMarkdown(text).content, 0, 0);
+  const tr = state.tr.replace(from, to, slice);
+  const start = tr.mapping.map(from, -1);
+  const end = tr.mapping.map(to);
+  tr.addMark(start, end, createAIGeneratedMark(state.schema.marks.ai_generated, provenance));
+  tr.setSelection(TextSelection.between(tr.doc.resolve(start), tr.doc.resolve(end)));
+  tr.setMeta(AI_INSERTION_META, true);
+  tr.setMeta(PRESERVE_PROVENANCE_META, true);
+  tr.setMeta(AI_TEXT_META, provenance);
+  view.dispatch(tr.scrollIntoView());
+  return true;
 }
 
 /**
- * Get the current text content from the editor
+ * Get the current content from the editor as Markdown
  */
 export function getTextContent(view: EditorView): string {
-  return view.state.doc.textContent;
+  return serializeMarkdown(view.state.doc);
 }
 
 /**
@@ -192,13 +688,56 @@ export function setContent(view: EditorView, content: string): void {
   view.dispatch(transaction);
 }
 
+/**
+ * Replace the entire document in one transaction, so it can be undone
+ */
+function replaceDocument(view: EditorView, doc: ProseMirrorNode): void {
+  const { state } = view;
+  const tr = state.tr.replaceWith(0, state.doc.content.size, doc.content);
+  tr.setMeta(PRESERVE_PROVENANCE_META, true);
+  tr.setSelection(Selection.atStart(tr.doc));
+  view.dispatch(tr.scrollIntoView());
+}
+
+/**
+ * Replace the entire document with parsed Markdown
+ */
+export function setMarkdownContent(view: EditorView, markdown: string): void {
+  replaceDocument(view, parseMarkdown(markdown));
+}
+
+/**
+ * Replace the entire document with stored ProseMirror JSON, e.g. to restore a version
+ * Unlike `loadSharedDocument` in `./collab`, this is an undoable edit of the
+ * current document.
+ */
+export function setDocumentContent(view: EditorView, content: DocumentContent): void {
+  replaceDocument(view, editorSchema.nodeFromJSON(content));
+}
+
+/**
+ * Get the document as ProseMirror JSON, the format documents are stored in
+ */
+export function getDocumentJSON(view: EditorView): DocumentContent {
+  return view.state.doc.toJSON() as DocumentContent;
+}
+
 /**
  * Create editor view configuration
  */
 export interface EditorViewConfig {
   state: EditorState;
   mount: HTMLElement;
-  onUpdate?: (text: string) => void;
+  /** Called after any transaction that moves the selection, changes the doc or the stored marks */
+  onSelectionChange?: (view: EditorView) => void;
+  /** Called whenever the ghost text suggestion appears, changes or goes away */
+  onGhostTextChange?: (ghost: GhostText | null) => void;
+  /** Called after AI text was accepted into the document, see `AI_INSERTION_META` */
+  onAIInsertion?: () => void;
+  /** Called whenever the `/` menu opens, changes or closes */
+  onSlashMenuChange?: (menu: SlashMenu | null) => void;
+  /** Called with the command picked from the `/` menu, see `SLASH_COMMAND_META` */
+  onSlashCommand?: (command: SlashCommand) => void;
 }
 
 /**
@@ -208,11 +747,35 @@ export function createEditorView(config: EditorViewConfig): EditorView {
   const view = new EditorView(config.mount, {
     state: config.state,
     dispatchTransaction(transaction: Transaction) {
+      const prevGhost = getGhostText(view.state);
+      const prevSlashMenu = getSlashMenu(view.state);
       const newState = view.state.apply(transaction);
       view.updateState(newState);
-      
-      if (config.onUpdate && transaction.docChanged) {
-        config.onUpdate(newState.doc.textContent);
+
+      if (
+        config.onSelectionChange &&
+        (transaction.selectionSet || transaction.docChanged || transaction.storedMarksSet)
+      ) {
+        config.onSelectionChange(view);
+      }
+
+      const ghost = getGhostText(newState);
+      if (config.onGhostTextChange && ghost !== prevGhost) {
+        config.onGhostTextChange(ghost);
+      }
+
+      if (config.onAIInsertion && transaction.getMeta(AI_INSERTION_META)) {
+        config.onAIInsertion();
+      }
+
+      const slashMenu = getSlashMenu(newState);
+      if (config.onSlashMenuChange && slashMenu !== prevSlashMenu) {
+        config.onSlashMenuChange(slashMenu);
+      }
+
+      const slashCommand: SlashCommand | undefined = transaction.getMeta(SLASH_COMMAND_META);
+      if (config.onSlashCommand && slashCommand) {
+        config.onSlashCommand(slashCommand);
       }
     },
   });
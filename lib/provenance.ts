@@ -0,0 +1,176 @@
+/**
+ * AI Provenance
+ *
+ * Tracks which text the AI wrote through the `ai_generated` mark: builds the
+ * mark for inserted text, strips it from any AI span the user edits, and
+ * measures how much of a document is AI-authored.
+ */
+
+import type { Mark, Node as ProseMirrorNode, MarkType } from 'prosemirror-model';
+import { Plugin, type Transaction } from 'prosemirror-state';
+import { isHistoryTransaction } from 'prosemirror-history';
+import type { AIProvenance } from './types';
+
+/**
+ * Transaction meta for changes that must keep existing `ai_generated` marks:
+ * AI insertions, restored or imported content and remote edits
+ */
+export const PRESERVE_PROVENANCE_META = 'preserveProvenance';
+
+/**
+ * Transaction meta carrying the provenance (null when unknown) of the AI
+ * text a transaction inserts, so the text can be attributed to the AI,
+ * e.g. as a tracked change
+ */
+export const AI_TEXT_META = 'aiText';
+
+/**
+ * Create the mark for text inserted now by the request `provenance`
+ * Text accepted before the request identified itself gets a mark without model and id.
+ */
+export function createAIGeneratedMark(type: MarkType, provenance: AIProvenance | null): Mark {
+  return type.create({
+    model: provenance?.model ?? null,
+    requestId: provenance?.requestId ?? null,
+    requestedBy: provenance?.requestedBy ?? null,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Share of the document's characters written by the AI
+ */
+export interface AIAuthorship {
+  aiCharacters: number;
+  totalCharacters: number;
+  /** Whole percent, 0 for an empty document */
+  percentage: number;
+}
+
+/**
+ * Count AI-written characters against all characters of `doc`
+ */
+export function getAIAuthorship(doc: ProseMirrorNode): AIAuthorship {
+  const type = doc.type.schema.marks.ai_generated;
+  let aiCharacters = 0;
+  let totalCharacters = 0;
+
+  doc.descendants((node) => {
+    if (!node.isText) return;
+    totalCharacters += node.nodeSize;
+    if (type.isInSet(node.marks)) aiCharacters += node.nodeSize;
+  });
+
+  return {
+    aiCharacters,
+    totalCharacters,
+    percentage: totalCharacters ? Math.round((aiCharacters / totalCharacters) * 100) : 0,
+  };
+}
+
+/**
+ * A range of the new document touched by an edit
+ * `deletedAI` is set when the edit removed AI-written text
+ */
+interface EditedRange {
+  from: number;
+  to: number;
+  deletedAI: boolean;
+}
+
+/**
+ * Collect the ranges the user changed, mapped into the final document
+ */
+function getEditedRanges(transactions: readonly Transaction[], type: MarkType): EditedRange[] {
+  let ranges: EditedRange[] = [];
+
+  for (const tr of transactions) {
+    ranges = ranges.map((range) => ({
+      ...range,
+      from: tr.mapping.map(range.from, -1),
+      to: tr.mapping.map(range.to, 1),
+    }));
+
+    if (!tr.docChanged || tr.getMeta(PRESERVE_PROVENANCE_META) || isHistoryTransaction(tr)) {
+      continue;
+    }
+
+    tr.steps.forEach((step, index) => {
+      const before = tr.docs[index];
+      const rest = tr.mapping.slice(index + 1);
+
+      step.getMap().forEach((oldStart, oldEnd, newStart, newEnd) => {
+        ranges.push({
+          from: rest.map(newStart, -1),
+          to: rest.map(newEnd, 1),
+          deletedAI: oldEnd > oldStart && before.rangeHasMark(oldStart, oldEnd, type),
+        });
+      });
+    });
+  }
+
+  return ranges;
+}
+
+/**
+ * Find the AI spans (runs of text sharing one `ai_generated` mark) touched by `range`
+ *
+ * A span counts as edited when the range overlaps it, or, when the edit
+ * deleted AI text, when the range touches its edge.
+ */
+function findEditedSpans(doc: ProseMirrorNode, range: EditedRange, type: MarkType) {
+  const spans: { from: number; to: number }[] = [];
+  const from = Math.max(0, Math.min(range.from, doc.content.size));
+  const to = Math.max(from, Math.min(range.to, doc.content.size));
+
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isTextblock) return true;
+
+    let span: { from: number; to: number; mark: Mark } | null = null;
+    const closeSpan = () => {
+      if (!span) return;
+      const overlaps = span.from < to && span.to > from;
+      const touches = range.deletedAI && span.from <= to && span.to >= from;
+      if (overlaps || touches) spans.push({ from: span.from, to: span.to });
+      span = null;
+    };
+
+    node.forEach((child, offset) => {
+      const childFrom = pos + 1 + offset;
+      const mark = type.isInSet(child.marks);
+      if (span && (!mark || !mark.eq(span.mark))) closeSpan();
+      if (mark) {
+        span = span ?? { from: childFrom, to: childFrom, mark };
+        span.to = childFrom + child.nodeSize;
+      }
+    });
+    closeSpan();
+    return false;
+  });
+
+  return spans;
+}
+
+/**
+ * Create the plugin that removes the `ai_generated` mark from AI spans the user edits
+ *
+ * Transactions flagged with `PRESERVE_PROVENANCE_META` and undo/redo are left alone.
+ */
+export function createProvenancePlugin(): Plugin {
+  return new Plugin({
+    appendTransaction(transactions, _oldState, newState) {
+      const type = newState.schema.marks.ai_generated;
+      const ranges = getEditedRanges(transactions, type);
+      if (ranges.length === 0) return null;
+
+      const tr = newState.tr;
+      for (const range of ranges) {
+        for (const span of findEditedSpans(newState.doc, range, type)) {
+          tr.removeMark(span.from, span.to, type);
+        }
+      }
+
+      return tr.docChanged ? tr.setMeta(PRESERVE_PROVENANCE_META, true) : null;
+    },
+  });
+}
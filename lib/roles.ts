@@ -0,0 +1,26 @@
+/**
+ * User Roles
+ *
+ * Role checks shared by the API routes and the UI.
+ */
+
+import type { UserRole } from './types';
+
+/**
+ * Roles in order of increasing access
+ */
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+/**
+ * Check whether `role` is one of `USER_ROLES`
+ */
+export function isUserRole(role: unknown): role is UserRole {
+  return USER_ROLES.includes(role as UserRole);
+}
+
+/**
+ * Whether a user with `role` may do what `required` allows
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
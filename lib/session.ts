@@ -0,0 +1,136 @@
+/**
+ * Sessions
+ *
+ * Signed session tokens kept in an HTTP-only cookie. A token is the
+ * base64url-encoded session JSON and its HMAC-SHA256 signature, keyed by
+ * `SESSION_SECRET`. The role in a token is a snapshot from login; routes
+ * check the current account with `authorize` from `./auth`.
+ *
+ * Uses Web Crypto only, so the middleware (Edge runtime) and the API
+ * routes (Node.js) share it.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { AuthSession, User } from './types';
+
+/**
+ * Name of the session cookie
+ */
+export const SESSION_COOKIE_NAME = 'ai_editor_session';
+
+/**
+ * How long a session lasts after login
+ */
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Import the signing key, or null when `SESSION_SECRET` isn't configured
+ */
+async function getSigningKey(): Promise<CryptoKey | null> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) return null;
+
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Whether sessions can be issued, i.e. `SESSION_SECRET` is set
+ */
+export function isSessionConfigured(): boolean {
+  return Boolean(process.env.SESSION_SECRET);
+}
+
+/**
+ * Create a signed token for a new session of `user`
+ */
+export async function createSessionToken(user: User): Promise<{ token: string; session: AuthSession }> {
+  const key = await getSigningKey();
+  if (!key) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  const session: AuthSession = {
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    expiresAt: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000).toISOString(),
+  };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+
+  return { token: `${payload}.${toBase64Url(new Uint8Array(signature))}`, session };
+}
+
+/**
+ * Verify a session token, returning its session or null when the token is
+ * malformed, tampered with or expired
+ */
+export async function verifySessionToken(token: string | undefined): Promise<AuthSession | null> {
+  const key = await getSigningKey();
+  if (!key || !token) return null;
+
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+
+    const session = JSON.parse(decoder.decode(fromBase64Url(payload))) as AuthSession;
+    if (typeof session.userId !== 'string' || !(Date.parse(session.expiresAt) > Date.now())) {
+      return null;
+    }
+    return session;
+  } catch {
+    // Not valid base64 or JSON
+    return null;
+  }
+}
+
+/**
+ * Get the session of a request from its cookie
+ */
+export function getSession(request: NextRequest): Promise<AuthSession | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * Options for the session cookie: not readable by scripts, sent only to
+ * this site, and only over HTTPS in production
+ */
+export function sessionCookieOptions(maxAge = SESSION_MAX_AGE_SECONDS) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge,
+  };
+}
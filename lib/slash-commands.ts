@@ -0,0 +1,258 @@
+/**
+ * Slash Commands
+ *
+ * Registry of the commands offered by the `/` menu, see `slash-menu.ts`,
+ * seeded with the built-in AI and formatting commands. A command gets the
+ * view and the editor's AI actions when it runs, so new commands can be
+ * added with `registerSlashCommand` without changes to the editor itself.
+ */
+
+import type { EditorState } from 'prosemirror-state';
+import type { EditorView } from 'prosemirror-view';
+import { getFormatCommand, type FormatAction } from './formatting';
+import { TRANSFORM_LANGUAGES } from './transform-operations';
+import type { TransformLanguage, TransformOperation, TransformTone } from './types';
+
+/**
+ * Menu sections, in the order they are listed
+ * AI commands are left out of the menu while the AI is busy.
+ */
+export type SlashCommandGroup = 'ai' | 'format';
+
+export const SLASH_COMMAND_GROUPS: { id: SlashCommandGroup; label: string }[] = [
+  { id: 'ai', label: 'AI' },
+  { id: 'format', label: 'Format' },
+];
+
+/**
+ * An AI rewrite asked for by a command, reviewed like the bubble menu's
+ */
+export interface SlashTransformRequest {
+  operation: TransformOperation;
+  /** Required when operation is 'change-tone' */
+  tone?: TransformTone;
+  /** Required when operation is 'translate' */
+  language?: TransformLanguage;
+  /** The text sent to the AI */
+  from: number;
+  to: number;
+  /**
+   * Insert the result here, in place of the empty line it may cover,
+   * instead of replacing `from`-`to`
+   */
+  insertAt?: { from: number; to: number };
+}
+
+/**
+ * What a command can do when it runs
+ */
+export interface SlashCommandContext {
+  view: EditorView;
+  /** Continue writing at the cursor, like the Continue button */
+  continueWriting: () => void;
+  transform: (request: SlashTransformRequest) => void;
+}
+
+export interface SlashCommand {
+  /** Unique, registering another command with the same id replaces it */
+  id: string;
+  title: string;
+  description: string;
+  group: SlashCommandGroup;
+  /** More words the command is found by, besides those of its title */
+  keywords?: string[];
+  /**
+   * Runs once the typed `/command` has been removed, with the cursor where it was
+   */
+  run: (context: SlashCommandContext) => void;
+}
+
+const commands = new Map<string, SlashCommand>();
+
+/**
+ * Add a command to the menu, returning a function that removes it again
+ */
+export function registerSlashCommand(command: SlashCommand): () => void {
+  commands.set(command.id, command);
+  return () => {
+    if (commands.get(command.id) === command) commands.delete(command.id);
+  };
+}
+
+/**
+ * Every registered command, grouped like the menu and in registration order within a group
+ */
+export function getSlashCommands(): SlashCommand[] {
+  const all = Array.from(commands.values());
+  return SLASH_COMMAND_GROUPS.flatMap((group) => all.filter((command) => command.group === group.id));
+}
+
+/**
+ * Split text into lower-case words for matching
+ */
+function toWords(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * The commands of the given groups matching what was typed after the `/`
+ * Every word typed has to start one of the command's words, so "sum sec"
+ * finds "Summarize section".
+ */
+export function filterSlashCommands(query: string, groups?: SlashCommandGroup[]): SlashCommand[] {
+  const terms = toWords(query);
+
+  return getSlashCommands().filter((command) => {
+    if (groups && !groups.includes(command.group)) return false;
+    const words = toWords([command.title, ...(command.keywords ?? [])].join(' '));
+    return terms.every((term) => words.some((word) => word.startsWith(term)));
+  });
+}
+
+/**
+ * The textblock at `pos`, or the last one before it with text when it is
+ * empty, e.g. when the command was typed on a line of its own
+ * The range covers the whole node.
+ */
+export function getParagraphRange(state: EditorState, pos: number): { from: number; to: number } | null {
+  const $pos = state.doc.resolve(pos);
+  if ($pos.parent.isTextblock && $pos.parent.textContent.trim()) {
+    return { from: $pos.before(), to: $pos.after() };
+  }
+
+  let previous: { from: number; to: number } | null = null;
+  state.doc.nodesBetween(0, pos, (node, nodePos) => {
+    if (!node.isTextblock) return true;
+    if (node.textContent.trim() && nodePos + node.nodeSize <= pos) {
+      previous = { from: nodePos, to: nodePos + node.nodeSize };
+    }
+    return false;
+  });
+
+  return previous;
+}
+
+/**
+ * Where text written from the document goes for a command typed at `pos`:
+ * in place of the line when it is empty, otherwise after it
+ */
+export function getInsertRange(state: EditorState, pos: number): { from: number; to: number } {
+  const $pos = state.doc.resolve(pos);
+  if (!$pos.parent.isTextblock) return { from: pos, to: pos };
+  if ($pos.parent.content.size === 0) return { from: $pos.before(), to: $pos.after() };
+  return { from: $pos.after(), to: $pos.after() };
+}
+
+/**
+ * The section around `pos`: from the heading before it up to the next
+ * heading of the same or a higher level, or from the start of the document
+ * up to the first heading when there is none before it
+ */
+export function getSectionRange(state: EditorState, pos: number): { from: number; to: number } {
+  const { doc } = state;
+  const heading = state.schema.nodes.heading;
+  let from = 0;
+  let level = 0;
+  let to = doc.content.size;
+
+  doc.forEach((node, offset) => {
+    if (node.type !== heading) return;
+    if (offset < pos) {
+      from = offset;
+      level = node.attrs.level;
+      to = doc.content.size;
+    } else if (to === doc.content.size && (level === 0 || node.attrs.level <= level)) {
+      to = offset;
+    }
+  });
+
+  return { from, to };
+}
+
+/**
+ * A command applying a formatting action to the block at the cursor
+ */
+function formatCommand(id: string, action: FormatAction, title: string, description: string, keywords: string[] = []): SlashCommand {
+  return {
+    id,
+    title,
+    description,
+    group: 'format',
+    keywords,
+    run: ({ view }) => {
+      getFormatCommand(action)(view.state, view.dispatch, view);
+    },
+  };
+}
+
+/**
+ * A command translating the paragraph at the cursor
+ */
+function translateCommand(language: TransformLanguage): SlashCommand {
+  return {
+    id: `translate-${language.toLowerCase()}`,
+    title: `Translate paragraph to ${language}`,
+    description: `Rewrite the paragraph in ${language}`,
+    group: 'ai',
+    keywords: ['language'],
+    run: ({ view, transform }) => {
+      const range = getParagraphRange(view.state, view.state.selection.head);
+      if (range) transform({ operation: 'translate', language, ...range });
+    },
+  };
+}
+
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+  {
+    id: 'continue',
+    title: 'Continue writing',
+    description: 'Let the AI write on from the cursor',
+    group: 'ai',
+    keywords: ['generate', 'complete', 'ai'],
+    run: ({ continueWriting }) => continueWriting(),
+  },
+  {
+    id: 'summarize-section',
+    title: 'Summarize section',
+    description: 'Add a summary of the section at the cursor',
+    group: 'ai',
+    keywords: ['summary', 'tldr'],
+    run: ({ view, transform }) => {
+      const { head } = view.state.selection;
+      transform({ operation: 'summarize', ...getSectionRange(view.state, head), insertAt: getInsertRange(view.state, head) });
+    },
+  },
+  {
+    id: 'make-list',
+    title: 'Make list',
+    description: 'Turn the paragraph into a bullet list',
+    group: 'ai',
+    keywords: ['bullets', 'points'],
+    run: ({ view, transform }) => {
+      const range = getParagraphRange(view.state, view.state.selection.head);
+      if (range) transform({ operation: 'make-list', ...range });
+    },
+  },
+  {
+    id: 'brainstorm',
+    title: 'Brainstorm ideas',
+    description: 'Add a list of ideas building on the section',
+    group: 'ai',
+    keywords: ['ideas', 'suggest'],
+    run: ({ view, transform }) => {
+      const { head } = view.state.selection;
+      transform({ operation: 'brainstorm', ...getSectionRange(view.state, head), insertAt: getInsertRange(view.state, head) });
+    },
+  },
+  ...TRANSFORM_LANGUAGES.map(translateCommand),
+  formatCommand('text', 'paragraph', 'Text', 'Plain paragraph text', ['paragraph']),
+  formatCommand('heading1', 'heading1', 'Heading 1', 'Large section heading', ['title', 'h1']),
+  formatCommand('heading2', 'heading2', 'Heading 2', 'Medium section heading', ['subtitle', 'h2']),
+  formatCommand('heading3', 'heading3', 'Heading 3', 'Small section heading', ['h3']),
+  formatCommand('bullet-list', 'bullet_list', 'Bullet list', 'A simple bullet list', ['unordered', 'ul']),
+  formatCommand('ordered-list', 'ordered_list', 'Numbered list', 'A list with numbers', ['ordered', 'ol']),
+  formatCommand('quote', 'blockquote', 'Quote', 'A blockquote', ['blockquote']),
+  formatCommand('code-block', 'code_block', 'Code block', 'A block of code', ['pre']),
+];
+
+BUILT_IN_COMMANDS.forEach(registerSlashCommand);
@@ -0,0 +1,202 @@
+/**
+ * Slash Menu Plugin
+ *
+ * Typing `/` at the start of a line or after a space opens a menu of the
+ * registered slash commands at the cursor, see `slash-commands.ts`. The
+ * text typed after the `/` filters the menu; arrow keys move through it,
+ * Enter or Tab runs the highlighted command and Escape closes it. Running a
+ * command removes the typed `/command` and hands the command to the view's
+ * `onSlashCommand`, which gives it the editor's AI actions.
+ */
+
+import { Plugin, PluginKey, type EditorState } from 'prosemirror-state';
+import type { EditorView } from 'prosemirror-view';
+import { filterSlashCommands, type SlashCommand, type SlashCommandGroup } from './slash-commands';
+
+/**
+ * The open menu
+ */
+export interface SlashMenu {
+  /** Range of the typed `/command`, up to the cursor */
+  from: number;
+  to: number;
+  /** What was typed after the `/` */
+  query: string;
+  /** The matching commands, in menu order */
+  commands: SlashCommand[];
+  /** Index into `commands` of the highlighted one */
+  selected: number;
+}
+
+interface SlashMenuState {
+  menu: SlashMenu | null;
+  /** The command groups offered, all of them when null */
+  groups: SlashCommandGroup[] | null;
+}
+
+type SlashMenuMeta =
+  | { type: 'open'; pos: number }
+  | { type: 'close' }
+  | { type: 'move'; step: number }
+  | { type: 'groups'; groups: SlashCommandGroup[] | null };
+
+export const slashMenuKey = new PluginKey<SlashMenuState>('slashMenu');
+
+/**
+ * Transaction meta carrying the command to run, see `runSlashCommand`
+ */
+export const SLASH_COMMAND_META = 'slashCommand';
+
+/**
+ * Longer queries are taken for ordinary text and close the menu
+ */
+const MAX_QUERY_LENGTH = 40;
+
+/**
+ * The menu for a `/command` starting at `from`, or null once the cursor has
+ * left it or the text no longer looks like one
+ * `previous` keeps the highlighted command while the query stays the same.
+ */
+function findMenu(
+  from: number,
+  state: EditorState,
+  groups: SlashCommandGroup[] | null,
+  previous: SlashMenu | null
+): SlashMenu | null {
+  const { empty, $head } = state.selection;
+  if (!empty || $head.pos <= from || $head.start() > from) return null;
+
+  const text = state.doc.textBetween(from, $head.pos);
+  const query = text.slice(1);
+  if (!text.startsWith('/') || query.length > MAX_QUERY_LENGTH || /^\s/.test(query)) return null;
+  if (previous && query === previous.query) return { ...previous, from, to: $head.pos };
+
+  // Give up once a finished word matches nothing, the `/` was probably just text
+  const commands = filterSlashCommands(query, groups ?? undefined);
+  if (commands.length === 0 && /\s$/.test(query)) return null;
+
+  return { from, to: $head.pos, query, commands, selected: 0 };
+}
+
+/**
+ * Create the plugin behind the `/` menu
+ */
+export function createSlashMenuPlugin(): Plugin<SlashMenuState> {
+  return new Plugin<SlashMenuState>({
+    key: slashMenuKey,
+    state: {
+      init: () => ({ menu: null, groups: null }),
+      apply(tr, value, _oldState, newState) {
+        const meta = tr.getMeta(slashMenuKey) as SlashMenuMeta | undefined;
+        const { menu, groups } = value;
+
+        switch (meta?.type) {
+          case 'open':
+            return { groups, menu: findMenu(meta.pos, newState, groups, null) };
+          case 'close':
+            return { groups, menu: null };
+          case 'move': {
+            if (!menu || menu.commands.length === 0) return value;
+            const count = menu.commands.length;
+            return { groups, menu: { ...menu, selected: (menu.selected + meta.step + count) % count } };
+          }
+          case 'groups':
+            return { groups: meta.groups, menu: menu && findMenu(menu.from, newState, meta.groups, null) };
+        }
+
+        if (!menu || (!tr.docChanged && !tr.selectionSet)) return value;
+        return { groups, menu: findMenu(tr.mapping.map(menu.from), newState, groups, menu) };
+      },
+    },
+    props: {
+      handleTextInput(view, from, to, text) {
+        if (text !== '/' || !view.state.selection.empty) return false;
+
+        const $from = view.state.doc.resolve(from);
+        if ($from.parent.type.spec.code) return false;
+        const before = view.state.doc.textBetween($from.start(), from);
+        if (before && !/\s$/.test(before)) return false;
+
+        const meta: SlashMenuMeta = { type: 'open', pos: from };
+        view.dispatch(view.state.tr.insertText(text, from, to).setMeta(slashMenuKey, meta));
+        return true;
+      },
+      handleKeyDown(view, event) {
+        const menu = getSlashMenu(view.state);
+        if (!menu) return false;
+
+        switch (event.key) {
+          case 'ArrowDown':
+          case 'ArrowUp': {
+            const meta: SlashMenuMeta = { type: 'move', step: event.key === 'ArrowDown' ? 1 : -1 };
+            view.dispatch(view.state.tr.setMeta(slashMenuKey, meta));
+            return true;
+          }
+          case 'Enter':
+          case 'Tab':
+            // With nothing to run, Enter goes on to split the line as usual
+            if (menu.commands.length === 0) {
+              closeSlashMenu(view);
+              return event.key === 'Tab';
+            }
+            return runSlashCommand(view, menu.commands[menu.selected].id);
+          case 'Escape':
+            closeSlashMenu(view);
+            return true;
+        }
+        return false;
+      },
+      handleDOMEvents: {
+        blur(view) {
+          closeSlashMenu(view);
+          return false;
+        },
+      },
+    },
+  });
+}
+
+/**
+ * The open menu, null when it is closed
+ */
+export function getSlashMenu(state: EditorState): SlashMenu | null {
+  return slashMenuKey.getState(state)?.menu ?? null;
+}
+
+/**
+ * Close the menu, leaving the typed text as it is
+ */
+export function closeSlashMenu(view: EditorView): void {
+  if (!getSlashMenu(view.state)) return;
+  const meta: SlashMenuMeta = { type: 'close' };
+  view.dispatch(view.state.tr.setMeta(slashMenuKey, meta));
+}
+
+/**
+ * Choose which command groups the menu offers, e.g. no AI commands while
+ * the AI is busy; null offers them all
+ */
+export function setSlashMenuGroups(view: EditorView, groups: SlashCommandGroup[] | null): void {
+  const meta: SlashMenuMeta = { type: 'groups', groups };
+  view.dispatch(view.state.tr.setMeta(slashMenuKey, meta));
+}
+
+/**
+ * Run a command from the open menu: remove the typed `/command` and close
+ * the menu in one transaction that carries the command as
+ * `SLASH_COMMAND_META`. Returns whether the command is in the menu.
+ */
+export function runSlashCommand(view: EditorView, commandId: string): boolean {
+  const menu = getSlashMenu(view.state);
+  const command = menu?.commands.find((candidate) => candidate.id === commandId);
+  if (!menu || !command) return false;
+
+  const meta: SlashMenuMeta = { type: 'close' };
+  view.dispatch(
+    view.state.tr
+      .delete(menu.from, menu.to)
+      .setMeta(slashMenuKey, meta)
+      .setMeta(SLASH_COMMAND_META, command)
+  );
+  return true;
+}
@@ -0,0 +1,174 @@
+/**
+ * Template Store
+ *
+ * Server-side prompt templates shared by all writers, kept in
+ * `data/templates.json`. Until the library is first changed it holds the
+ * built-in templates below.
+ */
+
+import { randomUUID } from 'crypto';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './json-store';
+import {
+  MAX_TEMPLATE_NAME_LENGTH,
+  MAX_TEMPLATE_PROMPT_LENGTH,
+  findUnknownVariables,
+} from './prompt-templates';
+import type { PromptTemplate } from './types';
+
+/**
+ * A change the store refuses, e.g. an unknown variable; the message is safe to show
+ */
+export class TemplateStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateStoreError';
+  }
+}
+
+const BUILT_IN_CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+function builtInTemplate(id: string, name: string, prompt: string): PromptTemplate {
+  return {
+    id,
+    name,
+    prompt,
+    createdAt: BUILT_IN_CREATED_AT,
+    updatedAt: BUILT_IN_CREATED_AT,
+    createdBy: null,
+    updatedBy: null,
+  };
+}
+
+const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  builtInTemplate(
+    'continue-as-dialogue',
+    'Continue as dialogue',
+    'Continue this text as a dialogue between its characters, one line of speech per paragraph.\n\n{{before}}'
+  ),
+  builtInTemplate(
+    'next-bullet',
+    'Write the next bullet',
+    'Write only the next item of the list that ends this text, in the same style as the items before it.\n\n{{before}}'
+  ),
+  builtInTemplate(
+    'summarize-above',
+    'Summarize above',
+    'Summarize the text of "{{title}}" so far in a short paragraph.\n\n{{before}}'
+  ),
+];
+
+function templatesPath(): string {
+  return dataPath('templates.json');
+}
+
+function readTemplates(): Promise<PromptTemplate[]> {
+  return readJsonFile<PromptTemplate[]>(templatesPath(), BUILT_IN_TEMPLATES);
+}
+
+/**
+ * Trim a name and check it and the prompt, throwing `TemplateStoreError`
+ */
+function checkTemplate(input: { name: string; prompt: string }): { name: string; prompt: string } {
+  const name = input.name.trim();
+  if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) {
+    throw new TemplateStoreError(`Template names are 1-${MAX_TEMPLATE_NAME_LENGTH} characters`);
+  }
+
+  if (!input.prompt.trim() || input.prompt.length > MAX_TEMPLATE_PROMPT_LENGTH) {
+    throw new TemplateStoreError(`Template prompts are 1-${MAX_TEMPLATE_PROMPT_LENGTH} characters`);
+  }
+
+  const unknown = findUnknownVariables(input.prompt);
+  if (unknown.length > 0) {
+    throw new TemplateStoreError(`Unknown template variables: ${unknown.map((name) => `{{${name}}}`).join(', ')}`);
+  }
+
+  return { name, prompt: input.prompt };
+}
+
+/**
+ * List all templates, by name
+ */
+export async function listTemplates(): Promise<PromptTemplate[]> {
+  return (await readTemplates()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a template by id, or null when it doesn't exist
+ */
+export async function getTemplate(id: string): Promise<PromptTemplate | null> {
+  return (await readTemplates()).find((template) => template.id === id) ?? null;
+}
+
+/**
+ * Create a template for `username`, throwing `TemplateStoreError` for an
+ * invalid name or prompt
+ */
+export async function createTemplate(
+  username: string,
+  input: { name: string; prompt: string }
+): Promise<PromptTemplate> {
+  const { name, prompt } = checkTemplate(input);
+
+  return withFileLock(templatesPath(), async () => {
+    const now = new Date().toISOString();
+    const template: PromptTemplate = {
+      id: randomUUID(),
+      name,
+      prompt,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: username,
+      updatedBy: username,
+    };
+
+    await writeJsonFile(templatesPath(), [...(await readTemplates()), template]);
+    return template;
+  });
+}
+
+/**
+ * Rename a template and/or change its prompt on behalf of `username`
+ * Returns the updated template, or null when it doesn't exist. Throws
+ * `TemplateStoreError` for an invalid name or prompt.
+ */
+export async function updateTemplate(
+  id: string,
+  username: string,
+  changes: { name?: string; prompt?: string }
+): Promise<PromptTemplate | null> {
+  return withFileLock(templatesPath(), async () => {
+    const templates = await readTemplates();
+    const index = templates.findIndex((template) => template.id === id);
+    if (index === -1) return null;
+
+    const { name, prompt } = checkTemplate({
+      name: changes.name ?? templates[index].name,
+      prompt: changes.prompt ?? templates[index].prompt,
+    });
+    const updated: PromptTemplate = {
+      ...templates[index],
+      name,
+      prompt,
+      updatedAt: new Date().toISOString(),
+      updatedBy: username,
+    };
+
+    await writeJsonFile(templatesPath(), templates.map((template, i) => (i === index ? updated : template)));
+    return updated;
+  });
+}
+
+/**
+ * Delete a template, returning whether it existed
+ */
+export async function deleteTemplate(id: string): Promise<boolean> {
+  return withFileLock(templatesPath(), async () => {
+    const templates = await readTemplates();
+    const remaining = templates.filter((template) => template.id !== id);
+    if (remaining.length === templates.length) return false;
+
+    await writeJsonFile(templatesPath(), remaining);
+    return true;
+  });
+}
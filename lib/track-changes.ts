@@ -0,0 +1,431 @@
+/**
+ * Track Changes
+ *
+ * Suggestion mode: while changes are tracked, edits don't change the text
+ * outright. Inserted text gets the `insertion` mark and deleted text stays
+ * in the document with the `deletion` mark, both recording who made the
+ * change, until someone accepts or rejects it. AI edits are tracked in
+ * `'ai'` mode, everyone's edits in `'all'` mode.
+ */
+
+import type { Mark, MarkType, Node as ProseMirrorNode, Slice } from 'prosemirror-model';
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from 'prosemirror-state';
+import type { EditorView } from 'prosemirror-view';
+import { isHistoryTransaction } from 'prosemirror-history';
+import type { Transform } from 'prosemirror-transform';
+import { AI_TEXT_META, PRESERVE_PROVENANCE_META } from './provenance';
+import { REMOTE_STEPS_META } from './collab';
+import type { AIProvenance } from './types';
+
+/**
+ * Which edits become suggestions: none, the AI's, or everyone's
+ */
+export type TrackChangesMode = 'off' | 'ai' | 'all';
+
+/**
+ * The tracking mode and the user human edits are attributed to
+ */
+export interface TrackChangesState {
+  mode: TrackChangesMode;
+  author: string | null;
+}
+
+export const trackChangesKey = new PluginKey<TrackChangesState>('trackChanges');
+
+/**
+ * Transaction meta for document changes that must not be tracked themselves:
+ * the marks added by this plugin and accepting or rejecting changes
+ */
+const SKIP_TRACKING_META = 'skipTracking';
+
+/**
+ * The attributes of a change's `insertion` / `deletion` marks
+ */
+interface ChangeAttrs {
+  changeId: string;
+  author: string | null;
+  ai: boolean;
+  model: string | null;
+  timestamp: string;
+}
+
+/**
+ * Who made the changes of a transaction; AI changes are also identified by
+ * the request that wrote them
+ */
+interface ChangeAuthor {
+  author: string | null;
+  ai: boolean;
+  model: string | null;
+  requestId: string | null;
+}
+
+/**
+ * Who made the changes of `tr`, or null when they aren't tracked
+ *
+ * AI text is attributed to the user who asked for it. Human edits are only
+ * tracked in `'all'` mode, and never edits that restore or import content.
+ */
+function getChangeAuthor(tr: Transaction, { mode, author }: TrackChangesState): ChangeAuthor | null {
+  if (mode === 'off' || !tr.docChanged) return null;
+  if (tr.getMeta(SKIP_TRACKING_META) || tr.getMeta(REMOTE_STEPS_META) || isHistoryTransaction(tr)) return null;
+
+  const provenance = tr.getMeta(AI_TEXT_META) as AIProvenance | null | undefined;
+  if (provenance !== undefined) {
+    return {
+      author: provenance?.requestedBy ?? author,
+      ai: true,
+      model: provenance?.model ?? null,
+      requestId: provenance?.requestId ?? null,
+    };
+  }
+  if (mode === 'all' && !tr.getMeta(PRESERVE_PROVENANCE_META)) {
+    return { author, ai: false, model: null, requestId: null };
+  }
+  return null;
+}
+
+/**
+ * An edit to record, in the coordinates of the final document
+ * `inserted` is the range of new text, `deleted` the content removed at
+ * `inserted.from` when it holds text to mark. `backward` is set when the
+ * cursor sat at the end of the deleted text, as after Backspace.
+ */
+interface TrackedEdit {
+  inserted: { from: number; to: number };
+  deleted: Slice | null;
+  backward: boolean;
+  author: ChangeAuthor;
+}
+
+/**
+ * Whether `from`-`to` holds text that can carry the `deletion` mark
+ * Without any, e.g. a paragraph break or an empty paragraph, there is
+ * nothing to show as deleted and the content is deleted outright.
+ */
+function hasMarkableText(doc: ProseMirrorNode, from: number, to: number): boolean {
+  const { deletion } = doc.type.schema.marks;
+  let found = false;
+  doc.nodesBetween(from, to, (node, _pos, parent) => {
+    if (node.isText && parent?.type.allowsMarkType(deletion)) found = true;
+    return !found;
+  });
+  return found;
+}
+
+/**
+ * Collect the tracked edits of `transactions`, mapped into the final document
+ */
+function getTrackedEdits(transactions: readonly Transaction[], oldState: EditorState, state: TrackChangesState): TrackedEdit[] {
+  let edits: TrackedEdit[] = [];
+
+  transactions.forEach((tr, trIndex) => {
+    edits = edits.map((edit) => ({
+      ...edit,
+      inserted: {
+        from: tr.mapping.map(edit.inserted.from, -1),
+        to: tr.mapping.map(edit.inserted.to, -1),
+      },
+    }));
+
+    const author = getChangeAuthor(tr, state);
+    if (!author) return;
+
+    tr.steps.forEach((step, index) => {
+      const before = tr.docs[index];
+      const rest = tr.mapping.slice(index + 1);
+
+      step.getMap().forEach((oldStart, oldEnd, newStart, newEnd) => {
+        const selection = oldState.selection;
+        edits.push({
+          inserted: { from: rest.map(newStart, -1), to: rest.map(newEnd, -1) },
+          deleted: hasMarkableText(before, oldStart, oldEnd) ? before.slice(oldStart, oldEnd) : null,
+          backward: trIndex === 0 && index === 0 && selection.empty && selection.head === oldEnd && oldEnd > oldStart,
+          author,
+        });
+      });
+    });
+  });
+
+  return edits;
+}
+
+/**
+ * The change marks of a text node, if any
+ */
+function getChangeMark(node: ProseMirrorNode | null | undefined): Mark | undefined {
+  return node?.marks.find((mark) => mark.type.name === 'insertion' || mark.type.name === 'deletion');
+}
+
+/**
+ * The attributes of the change an edit belongs to
+ *
+ * All text of one AI request is one change. A human edit continues a change
+ * of the same person right next to it, so typing a word doesn't make one
+ * change per letter.
+ */
+function getChangeAttrs(doc: ProseMirrorNode, from: number, to: number, author: ChangeAuthor, timestamp: string): ChangeAttrs {
+  for (const node of [doc.resolve(from).nodeBefore, doc.resolve(to).nodeAfter]) {
+    const mark = getChangeMark(node);
+    if (!mark) continue;
+
+    const continued = author.ai
+      ? mark.attrs.ai && author.requestId !== null && mark.attrs.changeId === author.requestId
+      : !mark.attrs.ai && mark.attrs.author === author.author;
+    if (continued) return mark.attrs as ChangeAttrs;
+  }
+
+  return {
+    changeId: (author.ai && author.requestId) || crypto.randomUUID(),
+    author: author.author,
+    ai: author.ai,
+    model: author.model,
+    timestamp,
+  };
+}
+
+/**
+ * Mark the text between `from` and `to`, which just came back as deleted
+ * text, for deletion. Text that was itself an unaccepted insertion by the
+ * same person is dropped instead, and text already marked for deletion
+ * keeps its mark.
+ */
+function markDeleted(tr: Transaction, from: number, to: number, attrs: ChangeAttrs): void {
+  const { insertion, deletion } = tr.doc.type.schema.marks;
+  const dropped: { from: number; to: number }[] = [];
+
+  tr.doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isText) return;
+    const start = Math.max(pos, from);
+    const end = Math.min(pos + node.nodeSize, to);
+    if (deletion.isInSet(node.marks)) return;
+
+    const inserted = insertion.isInSet(node.marks);
+    if (inserted && inserted.attrs.author === attrs.author && inserted.attrs.ai === attrs.ai) {
+      dropped.push({ from: start, to: end });
+      return;
+    }
+    tr.removeMark(start, end, insertion);
+    tr.addMark(start, end, deletion.create(attrs));
+  });
+
+  for (const range of dropped.reverse()) {
+    tr.delete(range.from, range.to);
+  }
+}
+
+/**
+ * Turn the tracked edits of `transactions` into suggestions
+ */
+function trackEdits(transactions: readonly Transaction[], oldState: EditorState, newState: EditorState): Transaction | null {
+  const state = trackChangesKey.getState(newState);
+  if (!state || state.mode === 'off') return null;
+
+  const edits = getTrackedEdits(transactions, oldState, state);
+  if (edits.length === 0) return null;
+
+  const { insertion } = newState.schema.marks;
+  const timestamp = new Date().toISOString();
+  const tr = newState.tr;
+
+  for (const edit of edits) {
+    const attrs = getChangeAttrs(newState.doc, edit.inserted.from, edit.inserted.to, edit.author, timestamp);
+
+    const from = tr.mapping.map(edit.inserted.from, -1);
+    const to = tr.mapping.map(edit.inserted.to, -1);
+    if (to > from) {
+      tr.removeMark(from, to, newState.schema.marks.deletion);
+      tr.addMark(from, to, insertion.create(attrs));
+    }
+    if (!edit.deleted) continue;
+
+    // Put the deleted content back in front of what replaced it
+    const size = tr.doc.content.size;
+    tr.replace(from, from, edit.deleted);
+    const end = from + tr.doc.content.size - size;
+    markDeleted(tr, from, end, attrs);
+    if (edit.backward && tr.selection.empty) {
+      tr.setSelection(TextSelection.near(tr.doc.resolve(from), -1));
+    }
+  }
+
+  return tr.docChanged
+    ? tr.setMeta(SKIP_TRACKING_META, true).setMeta(PRESERVE_PROVENANCE_META, true)
+    : null;
+}
+
+/**
+ * Create the track changes plugin, off until `setTrackChanges` turns it on
+ *
+ * Undo/redo, remote edits and transactions flagged with
+ * `PRESERVE_PROVENANCE_META` (restores, imports) aren't tracked, except AI
+ * text, which is flagged with `AI_TEXT_META`.
+ */
+export function createTrackChangesPlugin(): Plugin<TrackChangesState> {
+  return new Plugin<TrackChangesState>({
+    key: trackChangesKey,
+    state: {
+      init: () => ({ mode: 'off', author: null }),
+      apply: (tr, current) => (tr.getMeta(trackChangesKey) as TrackChangesState | undefined) ?? current,
+    },
+    appendTransaction: trackEdits,
+  });
+}
+
+/**
+ * Change which edits are tracked and who human edits are attributed to
+ */
+export function setTrackChanges(view: EditorView, state: TrackChangesState): void {
+  view.dispatch(view.state.tr.setMeta(trackChangesKey, state));
+}
+
+/**
+ * A suggested change, made of the text it inserts and/or deletes
+ */
+export interface TrackedChange {
+  id: string;
+  author: string | null;
+  ai: boolean;
+  model: string | null;
+  timestamp: string | null;
+  inserted: string;
+  deleted: string;
+  /** From the start of the change's first marked text to the end of its last */
+  from: number;
+  to: number;
+}
+
+/**
+ * The changes suggested in `doc`, in document order
+ */
+export function getTrackedChanges(doc: ProseMirrorNode): TrackedChange[] {
+  const { insertion } = doc.type.schema.marks;
+  const changes = new Map<string, TrackedChange>();
+
+  doc.descendants((node, pos) => {
+    const mark = getChangeMark(node);
+    if (!mark || !node.text) return;
+
+    const change = changes.get(mark.attrs.changeId) ?? {
+      id: mark.attrs.changeId,
+      author: mark.attrs.author,
+      ai: mark.attrs.ai,
+      model: mark.attrs.model,
+      timestamp: mark.attrs.timestamp,
+      inserted: '',
+      deleted: '',
+      from: pos,
+      to: pos,
+    };
+    if (mark.type === insertion) change.inserted += node.text;
+    else change.deleted += node.text;
+    change.to = pos + node.nodeSize;
+    changes.set(change.id, change);
+  });
+
+  return [...changes.values()];
+}
+
+/**
+ * Whether `from`-`to` holds only block boundaries, like the break between
+ * two paragraphs or the start of a list, and no content of its own
+ */
+function isOnlyStructure(doc: ProseMirrorNode, from: number, to: number): boolean {
+  let found = false;
+  doc.nodesBetween(from, to, (node) => {
+    if (node.isInline || node.isLeaf) found = true;
+    return !found;
+  });
+  return !found;
+}
+
+/**
+ * Delete the text marked `type` (`insertion` or `deletion`) of the changes
+ * with the given ids, or of all changes, and return whether there was any
+ *
+ * The pieces of one change count as one range together with the block
+ * boundaries between them, so removing a deletion that spans paragraphs
+ * joins them, and blocks left without content, like a list an AI reply
+ * added, go as a whole.
+ */
+export function deleteChangeText(tr: Transform, type: MarkType, changeIds?: string[]): boolean {
+  const { doc } = tr;
+  const ranges: { from: number; to: number; changeId: string }[] = [];
+
+  doc.descendants((node, pos) => {
+    const mark = type.isInSet(node.marks);
+    if (!mark || (changeIds && !changeIds.includes(mark.attrs.changeId))) return;
+
+    const last = ranges[ranges.length - 1];
+    const joined = last && (last.to === pos
+      || (last.changeId === mark.attrs.changeId && isOnlyStructure(doc, last.to, pos)));
+    if (joined) last.to = pos + node.nodeSize;
+    else ranges.push({ from: pos, to: pos + node.nodeSize, changeId: mark.attrs.changeId });
+  });
+
+  for (const range of ranges.reverse()) {
+    tr.deleteRange(range.from, range.to);
+  }
+  return ranges.length > 0;
+}
+
+/**
+ * Accept or reject the changes with the given ids, or all changes
+ *
+ * Accepting keeps inserted text and removes deleted text; rejecting does
+ * the opposite, see `deleteChangeText`. Either way the marks go and the
+ * result is a single undo step.
+ */
+function resolveChanges(view: EditorView, accept: boolean, changeIds?: string[]): boolean {
+  const { state } = view;
+  const { insertion, deletion } = state.schema.marks;
+  const keptType = accept ? insertion : deletion;
+  const tr = state.tr;
+  const kept: { from: number; to: number }[] = [];
+
+  state.doc.descendants((node, pos) => {
+    const mark = keptType.isInSet(node.marks);
+    if (!mark || (changeIds && !changeIds.includes(mark.attrs.changeId))) return;
+    kept.push({ from: pos, to: pos + node.nodeSize });
+  });
+
+  for (const range of kept) {
+    tr.removeMark(range.from, range.to, keptType);
+  }
+  const deleted = deleteChangeText(tr, accept ? deletion : insertion, changeIds);
+  if (kept.length === 0 && !deleted) return false;
+
+  tr.setMeta(SKIP_TRACKING_META, true);
+  tr.setMeta(PRESERVE_PROVENANCE_META, true);
+  view.dispatch(tr);
+  return true;
+}
+
+/**
+ * Accept the changes with the given ids, or all changes when none are given
+ */
+export function acceptChanges(view: EditorView, changeIds?: string[]): boolean {
+  return resolveChanges(view, true, changeIds);
+}
+
+/**
+ * Reject the changes with the given ids, or all changes when none are given
+ */
+export function rejectChanges(view: EditorView, changeIds?: string[]): boolean {
+  return resolveChanges(view, false, changeIds);
+}
+
+/**
+ * Select the text of a change and scroll it into view
+ */
+export function selectTrackedChange(view: EditorView, changeId: string): boolean {
+  const change = getTrackedChanges(view.state.doc).find((item) => item.id === changeId);
+  if (!change) return false;
+
+  const { doc } = view.state;
+  view.dispatch(view.state.tr
+    .setSelection(TextSelection.between(doc.resolve(change.from), doc.resolve(change.to)))
+    .scrollIntoView());
+  view.focus();
+  return true;
+}
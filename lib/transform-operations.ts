@@ -0,0 +1,76 @@
+/**
+ * Transform Operations
+ * 
+ * The rewrite operations offered for a selected range, shared by the
+ * selection bubble menu, the slash commands and the /api/transform route.
+ */
+
+import type { TransformLanguage, TransformOperation, TransformTone } from './types';
+
+/**
+ * Operations in the order they appear in the bubble menu
+ */
+export const TRANSFORM_OPERATIONS: { id: TransformOperation; label: string }[] = [
+  { id: 'rephrase', label: 'Rephrase' },
+  { id: 'shorten', label: 'Shorten' },
+  { id: 'expand', label: 'Expand' },
+  { id: 'fix-grammar', label: 'Fix grammar' },
+  { id: 'change-tone', label: 'Change tone' },
+];
+
+/**
+ * Operations only offered as slash commands, they work on the paragraph or
+ * section at the cursor rather than on a selection
+ */
+export const SLASH_COMMAND_OPERATIONS: { id: TransformOperation; label: string }[] = [
+  { id: 'summarize', label: 'Summarize' },
+  { id: 'make-list', label: 'Make list' },
+  { id: 'translate', label: 'Translate' },
+  { id: 'brainstorm', label: 'Brainstorm' },
+];
+
+/**
+ * Tones offered by the 'change-tone' operation
+ */
+export const TRANSFORM_TONES: TransformTone[] = ['formal', 'casual', 'friendly', 'confident', 'persuasive'];
+
+/**
+ * Languages offered by the 'translate' operation
+ */
+export const TRANSFORM_LANGUAGES: TransformLanguage[] = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Portuguese',
+  'Japanese',
+  'Chinese',
+];
+
+/**
+ * The label of an operation, e.g. for the review panel's heading
+ */
+export function getTransformOperationLabel(id: TransformOperation): string {
+  return [...TRANSFORM_OPERATIONS, ...SLASH_COMMAND_OPERATIONS].find((operation) => operation.id === id)?.label ?? 'Rewrite';
+}
+
+/**
+ * Type guard for operation ids received from the client
+ */
+export function isTransformOperation(value: unknown): value is TransformOperation {
+  return [...TRANSFORM_OPERATIONS, ...SLASH_COMMAND_OPERATIONS].some((operation) => operation.id === value);
+}
+
+/**
+ * Type guard for tones received from the client
+ */
+export function isTransformTone(value: unknown): value is TransformTone {
+  return TRANSFORM_TONES.includes(value as TransformTone);
+}
+
+/**
+ * Type guard for languages received from the client
+ */
+export function isTransformLanguage(value: unknown): value is TransformLanguage {
+  return TRANSFORM_LANGUAGES.includes(value as TransformLanguage);
+}
@@ -2,28 +2,611 @@
  * Type definitions for the AI Editor application
  */
 
+/**
+ * Identifies the AI request that produced a piece of text
+ */
+export interface AIProvenance {
+  requestId: string;
+  model: string;
+  /** Username of the user who made the request */
+  requestedBy?: string;
+}
+
 /**
  * Request to continue writing text
+ * 
+ * Either `text` (continue from its end) or `prefix`/`suffix` (fill in the
+ * text at the cursor, between what comes before and after it) must be set.
  */
 export interface ContinueWritingRequest {
-  text: string;
+  text?: string;
+  /** Document text before the cursor, takes precedence over `text` */
+  prefix?: string;
+  /** Document text after the cursor */
+  suffix?: string;
   maxTokens?: number;
+  /** Number of alternative continuations to generate, buffered mode only */
+  n?: number;
+  stream?: boolean;
+  /** The document being written, recorded in the usage log */
+  documentId?: string;
+  /** Generation settings, see `GenerationSettings`; the server defaults apply when omitted */
+  model?: string;
+  temperature?: number;
+  systemPrompt?: string;
+  /** Prompt template to use instead of the plain continuation prompt */
+  templateId?: string;
+  /** Values of the template's `{{selection}}` and `{{tone}}` */
+  selection?: string;
+  tone?: TransformTone;
 }
 
 /**
  * Response from AI service
  */
 export interface ContinueWritingResponse {
+  /** The first candidate, kept for single-continuation callers */
   continuedText: string;
+  /** All alternative continuations, in the order the provider returned them */
+  candidates: string[];
+  /** Set on success, see `AIProvenance` */
+  requestId?: string;
+  model?: string;
+  requestedBy?: string;
+  error?: string;
+}
+
+/**
+ * A single line of the NDJSON stream returned by /api/continue
+ * when the request sets `stream: true`
+ */
+export type ContinueStreamEvent =
+  | ({ type: 'start' } & AIProvenance)
+  | { type: 'delta'; text: string }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+/**
+ * Rewrite operations available for a selected range
+ */
+export type TransformOperation =
+  | 'rephrase'
+  | 'shorten'
+  | 'expand'
+  | 'fix-grammar'
+  | 'change-tone'
+  | 'summarize'
+  | 'make-list'
+  | 'translate'
+  | 'brainstorm';
+
+/**
+ * Tones offered by the 'change-tone' operation
+ */
+export type TransformTone = 'formal' | 'casual' | 'friendly' | 'confident' | 'persuasive';
+
+/**
+ * Languages offered by the 'translate' operation
+ */
+export type TransformLanguage = 'English' | 'Spanish' | 'French' | 'German' | 'Portuguese' | 'Japanese' | 'Chinese';
+
+/**
+ * Request to rewrite a selected range of text
+ */
+export interface TransformRequest {
+  text: string;
+  operation: TransformOperation;
+  /** Required when operation is 'change-tone' */
+  tone?: TransformTone;
+  /** Required when operation is 'translate' */
+  language?: TransformLanguage;
+  /** The document the text is in, recorded in the usage log */
+  documentId?: string;
+}
+
+/**
+ * Response from the transform endpoint
+ */
+export interface TransformResponse {
+  transformedText: string;
+  /** Set on success, see `AIProvenance` */
+  requestId?: string;
+  model?: string;
+  requestedBy?: string;
   error?: string;
 }
 
+/**
+ * A proposed rewrite awaiting the user's review
+ * `from`/`to` locate the original text in the document
+ */
+export interface TransformProposal {
+  operation: TransformOperation;
+  from: number;
+  to: number;
+  original: string;
+  proposed: string;
+  /**
+   * Set when `proposed` is inserted at `from`, in place of an empty line
+   * at most, instead of replacing text, e.g. a summary: the text it was
+   * written from
+   */
+  basedOn?: string;
+  /** The request that produced `proposed`, once it is ready */
+  provenance?: AIProvenance;
+}
+
+/**
+ * ProseMirror document JSON, as produced by `doc.toJSON()`
+ */
+export interface DocumentContent {
+  type: 'doc';
+  content?: unknown[];
+}
+
+/**
+ * A stored document without its content, as shown in the document list
+ */
+export interface DocumentSummary {
+  id: string;
+  title: string;
+  /** ISO 8601 timestamps */
+  createdAt: string;
+  updatedAt: string;
+  /** Usernames of who created and last saved it, null for documents from before accounts */
+  createdBy: string | null;
+  updatedBy: string | null;
+}
+
+/**
+ * Named sets of generation settings
+ */
+export type GenerationPreset = 'balanced' | 'concise' | 'creative' | 'formal';
+
+/**
+ * How continuations are generated for a document
+ */
+export interface GenerationSettings {
+  /** The preset the values came from, null once they were changed by hand */
+  preset: GenerationPreset | null;
+  /** One of the models the server allows, null for its configured model */
+  model: string | null;
+  temperature: number;
+  maxTokens: number;
+  /** Extra instructions added to the system prompt, empty for none */
+  systemPrompt: string;
+}
+
+/**
+ * A stored document with its content
+ */
+export interface StoredDocument extends DocumentSummary {
+  content: DocumentContent;
+  /** Absent until they are first changed, the defaults apply until then */
+  settings?: GenerationSettings;
+}
+
+/**
+ * Request to create a document, both fields are optional
+ */
+export interface CreateDocumentRequest {
+  title?: string;
+  content?: DocumentContent;
+}
+
+/**
+ * Request to update a document: save its content, rename it, change its
+ * generation settings, or any combination
+ */
+export interface UpdateDocumentRequest {
+  title?: string;
+  content?: DocumentContent;
+  settings?: GenerationSettings;
+}
+
+/**
+ * Variables a prompt template can use, written `{{name}}`
+ */
+export type TemplateVariable = 'document' | 'before' | 'after' | 'selection' | 'title' | 'tone';
+
+/**
+ * A reusable prompt for the Continue button, rendered on the server
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** The instructions sent to the model, with `{{variables}}` */
+  prompt: string;
+  /** ISO 8601 timestamps */
+  createdAt: string;
+  updatedAt: string;
+  /** Usernames, null for the built-in templates */
+  createdBy: string | null;
+  updatedBy: string | null;
+}
+
+/**
+ * Request to create a prompt template
+ */
+export interface CreatePromptTemplateRequest {
+  name: string;
+  prompt: string;
+}
+
+/**
+ * Request to rename a prompt template or change its prompt
+ */
+export interface UpdatePromptTemplateRequest {
+  name?: string;
+  prompt?: string;
+}
+
+/**
+ * What caused a version snapshot to be recorded
+ * - manual: the user saved a (usually named) version
+ * - autosave: taken periodically when the document is saved
+ * - ai: taken after AI text was accepted into the document
+ * - restore: the state just before an older version was restored
+ */
+export type VersionTrigger = 'manual' | 'autosave' | 'ai' | 'restore';
+
+/**
+ * A version snapshot without its content, as shown in the history list
+ */
+export interface DocumentVersionSummary {
+  id: string;
+  documentId: string;
+  /** Name given by the user, null for automatic snapshots */
+  name: string | null;
+  trigger: VersionTrigger;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  /** Username of who recorded it, null for versions from before accounts */
+  createdBy: string | null;
+}
+
+/**
+ * A version snapshot with the document content it recorded
+ */
+export interface DocumentVersion extends DocumentVersionSummary {
+  content: DocumentContent;
+}
+
+/**
+ * Request to record a version snapshot
+ * Without `content` the document's stored content is snapshotted.
+ */
+export interface CreateVersionRequest {
+  name?: string;
+  trigger?: Exclude<VersionTrigger, 'autosave'>;
+  content?: DocumentContent;
+}
+
+/**
+ * A ProseMirror step as JSON, see `Step.toJSON`
+ */
+export interface StepJSON {
+  stepType: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A selection in a shared document, as positions in its current version
+ */
+export interface CollabSelection {
+  anchor: number;
+  head: number;
+}
+
+/**
+ * Someone with a shared document open: one per browser tab
+ */
+export interface CollabParticipant {
+  clientId: string;
+  userId: string;
+  username: string;
+  /** Null until the tab reports its selection */
+  selection: CollabSelection | null;
+}
+
+/**
+ * Events of the /api/documents/[id]/collab stream
+ * - init: the document at `version`, sent first and whenever the tab must start over
+ * - steps: steps accepted on top of `version`, with the tab that sent each one
+ * - presence: the participants and their selections in `version`
+ * - saved: the document was stored as of `version`
+ * - deleted: the document was deleted, the stream sends nothing more
+ */
+export type CollabEvent =
+  | {
+      type: 'init';
+      /** Changes when the server starts the document over, e.g. after a restart */
+      session: string;
+      version: number;
+      content: DocumentContent;
+      participants: CollabParticipant[];
+    }
+  | { type: 'steps'; version: number; steps: StepJSON[]; clientIds: string[] }
+  | { type: 'presence'; version: number; participants: CollabParticipant[] }
+  | { type: 'saved'; version: number; document: DocumentSummary }
+  | { type: 'deleted' };
+
+/**
+ * Request to send steps and/or the selection of a tab to a shared document
+ * Steps are refused (409) unless `version` is the document's current version.
+ */
+export interface CollabUpdateRequest {
+  clientId: string;
+  version: number;
+  steps?: StepJSON[];
+  selection?: CollabSelection | null;
+}
+
+/**
+ * One message of a comment thread
+ */
+export interface CommentMessage {
+  id: string;
+  /** Username of who wrote it, for AI answers who asked for it */
+  author: string;
+  body: string;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  /** Set when the AI wrote the message */
+  ai: AIProvenance | null;
+}
+
+/**
+ * A review thread anchored to a range of a document by `comment` marks
+ * carrying its id
+ */
+export interface CommentThread {
+  id: string;
+  documentId: string;
+  /** The commented text when the thread was started, as Markdown */
+  quote: string;
+  /** Oldest first, the first one starts the thread */
+  messages: CommentMessage[];
+  resolved: boolean;
+  /** Username and ISO 8601 timestamp of the last resolve, null while never resolved */
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  createdBy: string;
+}
+
+/**
+ * Request to start a comment thread
+ * The client picks the id, since its `comment` mark is added right away.
+ */
+export interface CreateCommentThreadRequest {
+  id: string;
+  quote: string;
+  body: string;
+}
+
+/**
+ * Request to reply to a thread, resolve or reopen it, or both
+ */
+export interface UpdateCommentThreadRequest {
+  reply?: string;
+  resolved?: boolean;
+}
+
+/**
+ * One message of a user's assistant chat about a document
+ */
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Username of who wrote it, for AI replies who asked for it */
+  author: string;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  /** The text selected in the editor when a user message was sent, null when none was */
+  selection: string | null;
+  /** Set on AI replies */
+  ai: AIProvenance | null;
+}
+
+/**
+ * Request to /api/chat: a new message, with the selection as extra context
+ */
+export interface ChatRequest {
+  documentId: string;
+  message: string;
+  selection?: string;
+}
+
+/**
+ * A single line of the NDJSON stream returned by /api/chat
+ * `start` carries the stored user message and the reply's provenance,
+ * `done` the stored reply.
+ */
+export type ChatStreamEvent =
+  | ({ type: 'start'; message: ChatMessage } & AIProvenance)
+  | { type: 'delta'; text: string }
+  | { type: 'done'; message: ChatMessage }
+  | { type: 'error'; error: string };
+
+/**
+ * What a user may do, each role including the ones below it
+ * - admin: manage users
+ * - editor: edit documents and use the AI
+ * - viewer: read documents
+ */
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+/**
+ * A user account, without its password hash
+ */
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  /** Disabled users can't sign in and their sessions are rejected */
+  disabled: boolean;
+  /** ISO 8601 timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Request to create a user
+ */
+export interface CreateUserRequest {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+/**
+ * Request to change a user: role, enable/disable, or reset the password
+ */
+export interface UpdateUserRequest {
+  role?: UserRole;
+  disabled?: boolean;
+  password?: string;
+}
+
+/**
+ * The signed-in user's session, carried in the session cookie
+ */
+export interface AuthSession {
+  userId: string;
+  username: string;
+  role: UserRole;
+  /** ISO timestamp after which the session cookie is rejected */
+  expiresAt: string;
+}
+
+/**
+ * Response of `/api/auth/login`
+ */
+export interface LoginResponse {
+  success: boolean;
+  /** Set on success */
+  session?: AuthSession;
+  message?: string;
+  /** Seconds until another attempt is accepted, set when locked out (status 429) */
+  retryAfter?: number;
+}
+
+/**
+ * Response of `/api/auth/session`
+ */
+export interface SessionResponse {
+  authenticated: boolean;
+  /** Set when authenticated */
+  session?: AuthSession;
+}
+
+/**
+ * AI endpoints whose calls count against a user's quota
+ */
+export type AIEndpoint = 'continue' | 'transform' | 'comment' | 'chat';
+
+/**
+ * How an AI call ended
+ * - cancelled: the client stopped it, e.g. with Stop or Escape
+ */
+export type AICallOutcome = 'success' | 'error' | 'cancelled';
+
+/**
+ * One AI call, one line of the usage log
+ */
+export interface AIUsageRecord {
+  timestamp: string;
+  userId: string;
+  username: string;
+  endpoint: AIEndpoint;
+  /** The document the call was made from, null when the client didn't say */
+  documentId: string | null;
+  requestId: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** The provider didn't report usage, so the counts are estimated from the text */
+  estimated: boolean;
+  /** From calling the provider until the call ended */
+  latencyMs: number;
+  /** Estimated cost in USD, null when the model has no known price */
+  costUsd: number | null;
+  outcome: AICallOutcome;
+}
+
+/**
+ * Usage added up over a group of calls
+ */
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost of the calls with a known price */
+  costUsd: number;
+  /** Calls whose model has no known price, left out of `costUsd` */
+  unpricedCalls: number;
+  averageLatencyMs: number | null;
+}
+
+/**
+ * Response of `/api/usage`: usage between two UTC days, inclusive
+ * `byDay` has an entry for every day in the range, also days without calls.
+ */
+export interface UsageSummary {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: ({ day: string } & UsageTotals)[];
+  byUser: ({ userId: string; username: string } & UsageTotals)[];
+  byModel: ({ provider: string; model: string } & UsageTotals)[];
+}
+
+/**
+ * A user's AI limits and what is left of them
+ * Limits are null when unlimited.
+ */
+export interface AIQuota {
+  requestsPerMinute: number | null;
+  requestsRemaining: number | null;
+  dailyTokenBudget: number | null;
+  tokensUsedToday: number;
+  tokensRemaining: number | null;
+  /** When the daily budget starts over, midnight UTC */
+  resetsAt: string;
+}
+
+/**
+ * Why an AI request was refused
+ * - rate_limited: too many requests in the last minute
+ * - quota_exceeded: the daily token budget is used up
+ */
+export type AIQuotaErrorCode = 'rate_limited' | 'quota_exceeded';
+
+/**
+ * Body of a 429 response from an AI endpoint
+ */
+export interface AIQuotaError {
+  error: string;
+  code: AIQuotaErrorCode;
+  /** Seconds until a request will be accepted again */
+  retryAfter: number;
+  quota: AIQuota;
+}
+
 /**
  * Editor state types for XState machine
  */
 export type EditorState = 
   | 'idle'
   | 'loading'
+  | 'streaming'
+  | 'cancelled'
+  | 'transforming'
+  | 'reviewing'
   | 'success'
   | 'error';
 
@@ -35,6 +618,11 @@ export interface EditorContext {
   generatedText: string | null;
   error: string | null;
   lastRequestTime: number | null;
+  proposal: TransformProposal | null;
+  /** Alternative continuations from the last request */
+  candidates: string[];
+  /** Index into `candidates` of the one currently shown as ghost text */
+  selectedCandidate: number;
 }
 
 /**
@@ -42,6 +630,15 @@ export interface EditorContext {
  */
 export type EditorEvent =
   | { type: 'CONTINUE_WRITING'; text: string }
-  | { type: 'SUCCESS'; generatedText: string }
+  | { type: 'STREAM_CHUNK'; text: string }
+  | { type: 'SUCCESS'; generatedText: string; candidates?: string[] }
+  | { type: 'SELECT_CANDIDATE'; index: number }
   | { type: 'ERROR'; error: string }
+  | { type: 'CANCEL' }
+  | { type: 'KEEP_PARTIAL' }
+  | { type: 'ROLLBACK_PARTIAL' }
+  | { type: 'TRANSFORM'; operation: TransformOperation; from: number; to: number; text: string; insertAt?: { from: number; to: number } }
+  | { type: 'PROPOSAL_READY'; proposed: string; provenance?: AIProvenance }
+  | { type: 'ACCEPT_PROPOSAL' }
+  | { type: 'REJECT_PROPOSAL' }
   | { type: 'RESET' };
@@ -0,0 +1,182 @@
+/**
+ * Usage Store
+ *
+ * Logs every AI call in `data/usage/<YYYY-MM-DD>.jsonl`, one file per UTC
+ * day, and adds the log up for the usage dashboard. Per-user token totals
+ * of the current day are kept in memory, loaded from the day's file on
+ * first use, so quota checks don't re-read the log.
+ */
+
+import { promises as fs } from 'fs';
+import { appendJsonLine, dataPath } from './json-store';
+import type { AIUsageRecord, UsageSummary, UsageTotals } from './types';
+
+/**
+ * The UTC day of a date, as `YYYY-MM-DD`
+ */
+export function usageDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function usagePath(day: string): string {
+  return dataPath('usage', `${day}.jsonl`);
+}
+
+/**
+ * Read the records of one day, skipping lines that don't parse
+ */
+async function readUsageRecords(day: string): Promise<AIUsageRecord[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(usagePath(day), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const records: AIUsageRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A line cut short by a crash, ignore it
+    }
+  }
+  return records;
+}
+
+function recordTokens(record: AIUsageRecord): number {
+  return record.promptTokens + record.completionTokens;
+}
+
+let dailyTotals: { day: string; totals: Promise<Map<string, number>> } | null = null;
+
+/**
+ * Tokens per user id for `day`, cached for the current day only
+ */
+function getDailyTotals(day: string): Promise<Map<string, number>> {
+  if (dailyTotals?.day !== day) {
+    const totals = readUsageRecords(day).then((records) => {
+      const byUser = new Map<string, number>();
+      records.forEach((record) => {
+        byUser.set(record.userId, (byUser.get(record.userId) ?? 0) + recordTokens(record));
+      });
+      return byUser;
+    });
+    dailyTotals = { day, totals };
+    // Load again next time rather than keep a failed read
+    totals.catch(() => {
+      if (dailyTotals?.totals === totals) dailyTotals = null;
+    });
+  }
+  return dailyTotals.totals;
+}
+
+/**
+ * Tokens a user has used today (UTC)
+ */
+export async function getTokensUsedToday(userId: string): Promise<number> {
+  return (await getDailyTotals(usageDay())).get(userId) ?? 0;
+}
+
+/**
+ * Append a call to the usage log and count its tokens towards today's total
+ */
+export async function recordUsage(record: Omit<AIUsageRecord, 'timestamp'>): Promise<void> {
+  const now = new Date();
+  const entry: AIUsageRecord = { timestamp: now.toISOString(), ...record };
+  const day = usageDay(now);
+
+  // Load the totals before appending, so the new line isn't counted twice
+  const totals = await getDailyTotals(day);
+  totals.set(entry.userId, (totals.get(entry.userId) ?? 0) + recordTokens(entry));
+  await appendJsonLine(usagePath(day), entry);
+}
+
+/**
+ * The days from `from` to `to`, inclusive, as `YYYY-MM-DD`
+ */
+export function listDays(from: string, to: string): string[] {
+  const days: string[] = [];
+  for (let date = new Date(`${from}T00:00:00Z`); usageDay(date) <= to; date.setUTCDate(date.getUTCDate() + 1)) {
+    days.push(usageDay(date));
+  }
+  return days;
+}
+
+/**
+ * Totals being added up, with the latency sum kept for the average
+ */
+type RunningTotals = Omit<UsageTotals, 'averageLatencyMs'> & { latencyMs: number };
+
+function emptyTotals(): RunningTotals {
+  return { calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpricedCalls: 0, latencyMs: 0 };
+}
+
+function addRecord(totals: RunningTotals, record: AIUsageRecord): void {
+  totals.calls += 1;
+  if (record.outcome === 'error') totals.failedCalls += 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  if (record.costUsd === null) totals.unpricedCalls += 1;
+  else totals.costUsd += record.costUsd;
+  totals.latencyMs += record.latencyMs;
+}
+
+function toUsageTotals({ latencyMs, ...totals }: RunningTotals): UsageTotals {
+  return { ...totals, averageLatencyMs: totals.calls > 0 ? Math.round(latencyMs / totals.calls) : null };
+}
+
+/**
+ * Add up the calls between two UTC days, inclusive, by day, user and model
+ * Users and models are sorted by cost, then by tokens.
+ */
+export async function summarizeUsage(from: string, to: string): Promise<UsageSummary> {
+  const totals = emptyTotals();
+  const byDay = new Map<string, RunningTotals>();
+  const byUser = new Map<string, { username: string; totals: RunningTotals }>();
+  const byModel = new Map<string, { provider: string; model: string; totals: RunningTotals }>();
+
+  for (const day of listDays(from, to)) {
+    const dayTotals = emptyTotals();
+    byDay.set(day, dayTotals);
+
+    for (const record of await readUsageRecords(day)) {
+      addRecord(totals, record);
+      addRecord(dayTotals, record);
+
+      // The latest username wins, in case a user was renamed
+      const user = byUser.get(record.userId) ?? { username: record.username, totals: emptyTotals() };
+      user.username = record.username;
+      addRecord(user.totals, record);
+      byUser.set(record.userId, user);
+
+      const modelKey = `${record.provider}/${record.model}`;
+      const model = byModel.get(modelKey) ?? { provider: record.provider, model: record.model, totals: emptyTotals() };
+      addRecord(model.totals, record);
+      byModel.set(modelKey, model);
+    }
+  }
+
+  const bySpend = (a: UsageTotals, b: UsageTotals) =>
+    b.costUsd - a.costUsd ||
+    b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens);
+
+  return {
+    from,
+    to,
+    totals: toUsageTotals(totals),
+    byDay: Array.from(byDay, ([day, dayTotals]) => ({ day, ...toUsageTotals(dayTotals) })),
+    byUser: Array.from(byUser, ([userId, user]) => ({
+      userId,
+      username: user.username,
+      ...toUsageTotals(user.totals),
+    })).sort(bySpend),
+    byModel: Array.from(byModel.values(), (model) => ({
+      provider: model.provider,
+      model: model.model,
+      ...toUsageTotals(model.totals),
+    })).sort(bySpend),
+  };
+}
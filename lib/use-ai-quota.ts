@@ -0,0 +1,32 @@
+/**
+ * AI Quota Hook
+ *
+ * Client-side copy of the signed-in user's AI quota, backed by /api/quota.
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import type { AIQuota } from './types';
+
+/**
+ * The last loaded quota and a way to reload it, e.g. after an AI request
+ * Nothing is loaded until `refresh` is first called.
+ */
+export function useAIQuota() {
+  const [quota, setQuota] = useState<AIQuota | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/quota');
+      if (!response.ok) return;
+      const data: { quota: AIQuota } = await response.json();
+      setQuota(data.quota);
+    } catch (error) {
+      // Keep showing the last known quota
+      console.error('Error loading AI quota:', error);
+    }
+  }, []);
+
+  return { quota, refresh };
+}
@@ -0,0 +1,154 @@
+/**
+ * Chat Hook
+ *
+ * Client-side state for the signed-in user's assistant chat about a stored
+ * document, backed by /api/chat. Keeps the messages oldest first, like the
+ * API returns them, and the reply being streamed separately until it is done.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { readNdjson } from './ndjson';
+import type { AIProvenance, ChatMessage, ChatStreamEvent } from './types';
+
+/**
+ * Read the JSON body of an API response, throwing its error message on failure
+ */
+async function readResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || fallbackError);
+  }
+  return data as T;
+}
+
+/**
+ * Load the chat about `documentId` and expose send / stop / clear actions
+ * Without a document there is no chat.
+ */
+export function useChat(documentId?: string) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // The reply streaming in, null while none is
+  const [reply, setReply] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Fetch the conversation from the server
+   */
+  const refresh = useCallback(async () => {
+    if (!documentId) return;
+
+    try {
+      const response = await fetch(`/api/chat?documentId=${encodeURIComponent(documentId)}`);
+      const data = await readResponse<{ messages: ChatMessage[] }>(response, 'Failed to load the chat');
+      setMessages(data.messages);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load the chat');
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    refresh();
+    return () => abortControllerRef.current?.abort();
+  }, [refresh]);
+
+  /**
+   * Send a message, with the editor's selection as context, and stream the reply in
+   */
+  const send = useCallback(async (message: string, selection?: string): Promise<void> => {
+    if (!documentId) return;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsSending(true);
+    setError(null);
+
+    // What has arrived of the reply, kept when the stream ends early
+    let partial: { text: string; author: string; provenance: AIProvenance } | null = null;
+
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ documentId, message, selection: selection || undefined }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        await readResponse(response, 'Failed to send the message');
+      }
+
+      for await (const event of readNdjson<ChatStreamEvent>(response)) {
+        if (event.type === 'start') {
+          const { requestId, model, requestedBy } = event;
+          partial = { text: '', author: event.message.author, provenance: { requestId, model, requestedBy } };
+          setMessages((current) => [...current, event.message]);
+          setReply('');
+        } else if (event.type === 'delta') {
+          if (partial) partial.text += event.text;
+          setReply((current) => (current ?? '') + event.text);
+        } else if (event.type === 'done') {
+          partial = null;
+          setMessages((current) => [...current, event.message]);
+          setReply(null);
+        } else {
+          throw new Error(event.error);
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setError(error instanceof Error ? error.message : 'Failed to send the message');
+      }
+
+      // The server stores what was written of a stopped or failed reply, show it the same way
+      const written = partial?.text.trim();
+      if (partial && written) {
+        const message: ChatMessage = {
+          id: crypto.randomUUID(),
+          role: 'assistant',
+          content: written,
+          author: partial.author,
+          createdAt: new Date().toISOString(),
+          selection: null,
+          ai: partial.provenance,
+        };
+        setMessages((current) => [...current, message]);
+      }
+      setReply(null);
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setIsSending(false);
+    }
+  }, [documentId]);
+
+  /**
+   * Stop the reply being streamed
+   */
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Start the conversation over
+   */
+  const clear = useCallback(async (): Promise<void> => {
+    const response = await fetch(`/api/chat?documentId=${encodeURIComponent(documentId ?? '')}`, { method: 'DELETE' });
+    await readResponse(response, 'Failed to clear the chat');
+    setMessages([]);
+  }, [documentId]);
+
+  return {
+    messages,
+    reply,
+    isSending,
+    error,
+    send,
+    stop,
+    clear,
+  };
+}
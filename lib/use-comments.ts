@@ -0,0 +1,110 @@
+/**
+ * Comments Hook
+ *
+ * Client-side state for the review threads of a stored document, backed by
+ * /api/documents/[id]/comments. Keeps the threads oldest first, like the API
+ * returns them.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CommentThread, CreateCommentThreadRequest, UpdateCommentThreadRequest } from './types';
+
+/**
+ * Read the JSON body of an API response, throwing its error message on failure
+ */
+async function readResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || fallbackError);
+  }
+  return data as T;
+}
+
+/**
+ * Load the threads of `documentId` and expose create / update / ask-AI actions
+ * Without a document there are no threads.
+ */
+export function useComments(documentId?: string) {
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Replace a thread in the list, or add it at the end
+   */
+  const upsertThread = useCallback((thread: CommentThread) => {
+    setThreads((current) => current.some((item) => item.id === thread.id)
+      ? current.map((item) => (item.id === thread.id ? thread : item))
+      : [...current, thread]);
+  }, []);
+
+  /**
+   * Fetch the threads from the server
+   */
+  const refresh = useCallback(async () => {
+    if (!documentId) return;
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/comments`);
+      const data = await readResponse<{ threads: CommentThread[] }>(response, 'Failed to load comments');
+      setThreads(data.threads);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load comments');
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Start a thread and add it to the list
+   */
+  const createThread = useCallback(async (input: CreateCommentThreadRequest): Promise<CommentThread> => {
+    const response = await fetch(`/api/documents/${documentId}/comments`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+    });
+    const { thread } = await readResponse<{ thread: CommentThread }>(response, 'Failed to add comment');
+    upsertThread(thread);
+    return thread;
+  }, [documentId, upsertThread]);
+
+  /**
+   * Reply to a thread and/or resolve or reopen it
+   */
+  const updateThread = useCallback(async (threadId: string, changes: UpdateCommentThreadRequest): Promise<void> => {
+    const response = await fetch(`/api/documents/${documentId}/comments/${threadId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    });
+    const { thread } = await readResponse<{ thread: CommentThread }>(response, 'Failed to update comment');
+    upsertThread(thread);
+  }, [documentId, upsertThread]);
+
+  /**
+   * Have the AI answer a thread, its answer is added to the thread
+   */
+  const askAI = useCallback(async (threadId: string): Promise<void> => {
+    const response = await fetch(`/api/documents/${documentId}/comments/${threadId}/ai`, { method: 'POST' });
+    const { thread } = await readResponse<{ thread: CommentThread }>(response, 'Failed to get AI response');
+    upsertThread(thread);
+  }, [documentId, upsertThread]);
+
+  return {
+    threads,
+    error,
+    refresh,
+    createThread,
+    updateThread,
+    askAI,
+  };
+}
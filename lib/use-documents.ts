@@ -0,0 +1,122 @@
+/**
+ * Documents Hook
+ *
+ * Client-side state for the document list, backed by /api/documents.
+ * Keeps the list sorted by last update, like the API returns it.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { DocumentSummary, StoredDocument } from './types';
+
+function sortByUpdated(documents: DocumentSummary[]): DocumentSummary[] {
+  return [...documents].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+function toSummary({ id, title, createdAt, updatedAt, createdBy, updatedBy }: DocumentSummary): DocumentSummary {
+  return { id, title, createdAt, updatedAt, createdBy, updatedBy };
+}
+
+/**
+ * Read the JSON body of an API response, throwing its error message on failure
+ */
+async function readResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || fallbackError);
+  }
+  return data as T;
+}
+
+/**
+ * Load the document list and expose create / rename / delete actions
+ * Nothing is fetched until `enabled` is true, e.g. once the user is signed in.
+ */
+export function useDocuments(enabled: boolean) {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Replace or add a document in the list, e.g. after it was saved
+   */
+  const upsertDocument = useCallback((document: DocumentSummary) => {
+    setDocuments((current) =>
+      sortByUpdated([toSummary(document), ...current.filter((item) => item.id !== document.id)])
+    );
+  }, []);
+
+  /**
+   * Fetch the list from the server
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/documents');
+      const data = await readResponse<{ documents: DocumentSummary[] }>(response, 'Failed to load documents');
+      setDocuments(data.documents);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load documents');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  /**
+   * Create an empty document and add it to the list
+   */
+  const createDocument = useCallback(async (title?: string): Promise<DocumentSummary> => {
+    const response = await fetch('/api/documents', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title }),
+    });
+    const { document } = await readResponse<{ document: StoredDocument }>(response, 'Failed to create document');
+    upsertDocument(document);
+    return toSummary(document);
+  }, [upsertDocument]);
+
+  /**
+   * Rename a document
+   */
+  const renameDocument = useCallback(async (id: string, title: string): Promise<void> => {
+    const response = await fetch(`/api/documents/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ title }),
+    });
+    const { document } = await readResponse<{ document: StoredDocument }>(response, 'Failed to rename document');
+    upsertDocument(document);
+  }, [upsertDocument]);
+
+  /**
+   * Delete a document and drop it from the list
+   */
+  const deleteDocument = useCallback(async (id: string): Promise<void> => {
+    const response = await fetch(`/api/documents/${id}`, { method: 'DELETE' });
+    await readResponse(response, 'Failed to delete document');
+    setDocuments((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  return {
+    documents,
+    isLoading,
+    error,
+    refresh,
+    createDocument,
+    renameDocument,
+    deleteDocument,
+    /** Call after the editor saved a document, to update its title and position */
+    documentSaved: upsertDocument,
+  };
+}
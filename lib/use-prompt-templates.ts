@@ -0,0 +1,108 @@
+/**
+ * Prompt Templates Hook
+ *
+ * Client-side state for the prompt template library, backed by
+ * /api/templates. Keeps the list sorted by name, like the API returns it.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CreatePromptTemplateRequest, PromptTemplate, UpdatePromptTemplateRequest } from './types';
+
+function sortByName(templates: PromptTemplate[]): PromptTemplate[] {
+  return [...templates].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Read the JSON body of an API response, throwing its error message on failure
+ */
+async function readResponse<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || fallbackError);
+  }
+  return data as T;
+}
+
+/**
+ * Load the templates and expose create / update / delete actions
+ */
+export function usePromptTemplates() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Replace or add a template in the list
+   */
+  const upsertTemplate = useCallback((template: PromptTemplate) => {
+    setTemplates((current) => sortByName([template, ...current.filter((item) => item.id !== template.id)]));
+  }, []);
+
+  /**
+   * Fetch the list from the server
+   */
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/templates');
+      const data = await readResponse<{ templates: PromptTemplate[] }>(response, 'Failed to load templates');
+      setTemplates(data.templates);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load templates');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Create a template and add it to the list
+   */
+  const createTemplate = useCallback(async (input: CreatePromptTemplateRequest): Promise<PromptTemplate> => {
+    const response = await fetch('/api/templates', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+    });
+    const { template } = await readResponse<{ template: PromptTemplate }>(response, 'Failed to create template');
+    upsertTemplate(template);
+    return template;
+  }, [upsertTemplate]);
+
+  /**
+   * Rename a template and/or change its prompt
+   */
+  const updateTemplate = useCallback(async (id: string, changes: UpdatePromptTemplateRequest): Promise<void> => {
+    const response = await fetch(`/api/templates/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    });
+    const { template } = await readResponse<{ template: PromptTemplate }>(response, 'Failed to update template');
+    upsertTemplate(template);
+  }, [upsertTemplate]);
+
+  /**
+   * Delete a template and drop it from the list
+   */
+  const deleteTemplate = useCallback(async (id: string): Promise<void> => {
+    const response = await fetch(`/api/templates/${id}`, { method: 'DELETE' });
+    await readResponse(response, 'Failed to delete template');
+    setTemplates((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  return {
+    templates,
+    error,
+    refresh,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+  };
+}
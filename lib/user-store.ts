@@ -0,0 +1,171 @@
+/**
+ * User Store
+ *
+ * Server-side user accounts, kept in `data/users.json` with scrypt password
+ * hashes. The first admin is created with `npm run create-admin`; admins
+ * manage everyone else from the admin page.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from './json-store';
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyPassword } from './passwords';
+import type { User, UserRole } from './types';
+
+/**
+ * A change the store refuses, e.g. a taken username; the message is safe to show
+ */
+export class UserStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserStoreError';
+  }
+}
+
+interface StoredUser extends User {
+  passwordHash: string;
+}
+
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,31}$/;
+
+function usersPath(): string {
+  return dataPath('users.json');
+}
+
+function readUsers(): Promise<StoredUser[]> {
+  return readJsonFile<StoredUser[]>(usersPath(), []);
+}
+
+function toUser({ passwordHash: _passwordHash, ...user }: StoredUser): User {
+  return user;
+}
+
+/**
+ * Lower-case and trim a username, throwing when it isn't usable
+ * Usernames are 2-32 characters: letters, digits, `.`, `_` and `-`.
+ */
+export function normalizeUsername(username: string): string {
+  const normalized = username.trim().toLowerCase();
+  if (!USERNAME_PATTERN.test(normalized)) {
+    throw new UserStoreError('Usernames are 2-32 letters, digits, ".", "_" or "-"');
+  }
+  return normalized;
+}
+
+function checkPassword(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserStoreError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * A hash of a random password, checked when the username is unknown so
+ * the response takes as long as for a real account
+ */
+function getDummyHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+  return dummyHash;
+}
+
+function isActiveAdmin(user: StoredUser): boolean {
+  return user.role === 'admin' && !user.disabled;
+}
+
+/**
+ * List all users, oldest first
+ */
+export async function listUsers(): Promise<User[]> {
+  return (await readUsers()).map(toUser);
+}
+
+/**
+ * Get a user by id, or null when it doesn't exist
+ */
+export async function getUser(id: string): Promise<User | null> {
+  const user = (await readUsers()).find((candidate) => candidate.id === id);
+  return user ? toUser(user) : null;
+}
+
+/**
+ * Check a username and password, returning the user when they match an
+ * enabled account and null otherwise
+ *
+ * A password is always hashed and compared in constant time, also for
+ * unknown and disabled users, so timing doesn't reveal which usernames exist.
+ */
+export async function authenticateUser(username: string, password: string): Promise<User | null> {
+  const normalized = username.trim().toLowerCase();
+  const user = (await readUsers()).find((candidate) => candidate.username === normalized);
+  const matches = await verifyPassword(password, user?.passwordHash ?? (await getDummyHash()));
+
+  return user && matches && !user.disabled ? toUser(user) : null;
+}
+
+/**
+ * Create a user, throwing `UserStoreError` for a taken or invalid username
+ * or a too short password
+ */
+export async function createUser(input: { username: string; password: string; role: UserRole }): Promise<User> {
+  const username = normalizeUsername(input.username);
+  checkPassword(input.password);
+  const passwordHash = await hashPassword(input.password);
+
+  return withFileLock(usersPath(), async () => {
+    const users = await readUsers();
+    if (users.some((user) => user.username === username)) {
+      throw new UserStoreError(`The username "${username}" is taken`);
+    }
+
+    const now = new Date().toISOString();
+    const user: StoredUser = {
+      id: randomUUID(),
+      username,
+      role: input.role,
+      disabled: false,
+      createdAt: now,
+      updatedAt: now,
+      passwordHash,
+    };
+
+    await writeJsonFile(usersPath(), [...users, user]);
+    return toUser(user);
+  });
+}
+
+/**
+ * Change a user's role, enable or disable them, or reset their password
+ *
+ * Returns the updated user, or null when it doesn't exist. Throws
+ * `UserStoreError` for a too short password or a change that would leave
+ * no enabled admin.
+ */
+export async function updateUser(
+  id: string,
+  changes: { role?: UserRole; disabled?: boolean; password?: string }
+): Promise<User | null> {
+  if (changes.password !== undefined) checkPassword(changes.password);
+  const passwordHash = changes.password !== undefined ? await hashPassword(changes.password) : undefined;
+
+  return withFileLock(usersPath(), async () => {
+    const users = await readUsers();
+    const index = users.findIndex((user) => user.id === id);
+    if (index === -1) return null;
+
+    const updated: StoredUser = {
+      ...users[index],
+      ...(changes.role !== undefined && { role: changes.role }),
+      ...(changes.disabled !== undefined && { disabled: changes.disabled }),
+      ...(passwordHash !== undefined && { passwordHash }),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const next = users.map((user, i) => (i === index ? updated : user));
+    if (isActiveAdmin(users[index]) && !next.some(isActiveAdmin)) {
+      throw new UserStoreError('At least one enabled admin must remain');
+    }
+
+    await writeJsonFile(usersPath(), next);
+    return toUser(updated);
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * Version Store
+ *
+ * Server-side snapshots of stored documents. The versions of a document
+ * are kept newest first in one JSON file under `data/versions/`.
+ *
+ * Versions saved by the user are kept until the document is deleted.
+ * Automatic ones (autosave, AI insertions, before restores) are capped at
+ * `MAX_AUTOMATIC_VERSIONS`, dropping the oldest first.
+ */
+
+import { randomUUID } from 'crypto';
+import { isDocumentId } from './document-store';
+import { dataPath, deleteFile, readJsonFile, withFileLock, writeJsonFile } from './json-store';
+import type {
+  DocumentContent,
+  DocumentVersion,
+  DocumentVersionSummary,
+  VersionTrigger,
+} from './types';
+
+/**
+ * Most automatic snapshots kept per document
+ */
+export const MAX_AUTOMATIC_VERSIONS = 50;
+
+/**
+ * Minimum time between two autosave snapshots
+ * Autosave runs every few seconds while typing, far too often to snapshot each save.
+ */
+export const AUTOSAVE_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+const MAX_VERSION_NAME_LENGTH = 100;
+
+function versionsPath(documentId: string): string {
+  return dataPath('versions', `${documentId}.json`);
+}
+
+function readVersions(documentId: string): Promise<DocumentVersion[]> {
+  return readJsonFile<DocumentVersion[]>(versionsPath(documentId), []);
+}
+
+function toSummary({ id, documentId, name, trigger, createdAt, createdBy }: DocumentVersion): DocumentVersionSummary {
+  // Versions recorded before accounts existed have no author
+  return { id, documentId, name, trigger, createdAt, createdBy: createdBy ?? null };
+}
+
+function sameContent(a: DocumentContent, b: DocumentContent): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Drop the oldest automatic versions beyond the cap
+ */
+function pruneVersions(versions: DocumentVersion[]): DocumentVersion[] {
+  let automatic = 0;
+  return versions.filter((version) => {
+    if (version.trigger === 'manual') return true;
+    automatic += 1;
+    return automatic <= MAX_AUTOMATIC_VERSIONS;
+  });
+}
+
+/**
+ * List the versions of a document, newest first
+ */
+export async function listVersions(documentId: string): Promise<DocumentVersionSummary[]> {
+  if (!isDocumentId(documentId)) return [];
+  return (await readVersions(documentId)).map(toSummary);
+}
+
+/**
+ * Get a version with its content, or null when it doesn't exist
+ */
+export async function getVersion(documentId: string, versionId: string): Promise<DocumentVersion | null> {
+  if (!isDocumentId(documentId)) return null;
+  const version = (await readVersions(documentId)).find((candidate) => candidate.id === versionId);
+  return version ? { ...version, ...toSummary(version) } : null;
+}
+
+/**
+ * Record a snapshot of `content`
+ *
+ * Automatic snapshots are skipped (returning null) when the content matches
+ * the newest version, and autosave ones also when the last autosave snapshot
+ * is younger than `AUTOSAVE_VERSION_INTERVAL_MS`.
+ */
+export async function createVersion(
+  documentId: string,
+  input: { trigger: VersionTrigger; name?: string; content: DocumentContent; createdBy: string }
+): Promise<DocumentVersion | null> {
+  if (!isDocumentId(documentId)) return null;
+
+  return withFileLock(versionsPath(documentId), async () => {
+    const versions = await readVersions(documentId);
+    const now = new Date();
+
+    if (input.trigger !== 'manual') {
+      if (versions[0] && sameContent(versions[0].content, input.content)) return null;
+
+      const lastAutosave = versions.find((version) => version.trigger === 'autosave');
+      if (
+        input.trigger === 'autosave' &&
+        lastAutosave &&
+        now.getTime() - Date.parse(lastAutosave.createdAt) < AUTOSAVE_VERSION_INTERVAL_MS
+      ) {
+        return null;
+      }
+    }
+
+    const version: DocumentVersion = {
+      id: randomUUID(),
+      documentId,
+      name: input.name?.trim().slice(0, MAX_VERSION_NAME_LENGTH) || null,
+      trigger: input.trigger,
+      createdAt: now.toISOString(),
+      createdBy: input.createdBy,
+      content: input.content,
+    };
+
+    await writeJsonFile(versionsPath(documentId), pruneVersions([version, ...versions]));
+    return version;
+  });
+}
+
+/**
+ * Delete every version of a document, e.g. when the document is deleted
+ */
+export async function deleteVersions(documentId: string): Promise<void> {
+  if (!isDocumentId(documentId)) return;
+  await withFileLock(versionsPath(documentId), () => deleteFile(versionsPath(documentId)));
+}
@@ -0,0 +1,30 @@
+/**
+ * Middleware
+ *
+ * Rejects API calls without a valid session cookie, except the login route,
+ * so the AI provider can't be used by anyone who hasn't signed in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+
+/**
+ * API routes reachable without a session
+ */
+const PUBLIC_API_ROUTES = new Set(['/api/auth/login']);
+
+export async function middleware(request: NextRequest) {
+  if (PUBLIC_API_ROUTES.has(request.nextUrl.pathname)) {
+    return NextResponse.next();
+  }
+
+  if (!(await getSession(request))) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -0,0 +1,69 @@
+/**
+ * Create Admin Script
+ *
+ * Seeds an admin account in the user store, e.g. the first one after
+ * setup. Run it from the project root so it uses the same `DATA_DIR`:
+ *
+ *   npm run create-admin -- <username>
+ *
+ * The password is read from `ADMIN_PASSWORD` when set, otherwise prompted
+ * for without echo.
+ */
+
+import { createInterface } from 'readline';
+import { Writable } from 'stream';
+import { createUser, UserStoreError } from '../lib/user-store';
+
+/**
+ * Ask for the password twice on the terminal, hiding what is typed
+ */
+async function promptPassword(): Promise<[string, string]> {
+  // Readline echoes what is typed to its output, which goes nowhere
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = createInterface({ input: process.stdin, output: muted, terminal: process.stdin.isTTY });
+
+  // Lines are buffered by the iterator, so piped input works too
+  const lines = rl[Symbol.asyncIterator]();
+  const ask = async (question: string) => {
+    process.stdout.write(question);
+    const { value } = await lines.next();
+    process.stdout.write('\n');
+    return value ?? '';
+  };
+
+  const password = await ask('Password: ');
+  const repeated = await ask('Repeat password: ');
+  rl.close();
+  return [password, repeated];
+}
+
+async function main() {
+  const username = process.argv[2];
+  if (!username) {
+    console.error('Usage: npm run create-admin -- <username>');
+    process.exit(1);
+  }
+
+  let password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    const [entered, repeated] = await promptPassword();
+    if (entered !== repeated) {
+      console.error('The passwords do not match');
+      process.exit(1);
+    }
+    password = entered;
+  }
+
+  try {
+    const user = await createUser({ username, password, role: 'admin' });
+    console.log(`Created admin "${user.username}"`);
+  } catch (error) {
+    if (error instanceof UserStoreError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+main();